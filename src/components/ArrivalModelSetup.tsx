@@ -0,0 +1,485 @@
+"use client";
+
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import ValidationChecklist from "@/components/ValidationChecklist";
+import type { TemplateKey, WorkflowTemplate } from "@/lib/workflowTemplates";
+import {
+  type ArrivalProcess,
+  type ArrivalProcessKind,
+  type ArrivalSettings,
+  createArrivalProcess,
+  generateArrivals,
+  getArrivalProcess,
+  MAX_ARRIVALS_PER_TEMPLATE,
+  MIN_FIXED_INTERVAL_HOURS,
+  parseIntervalHours,
+  parseNonNegative,
+} from "@/lib/simulation/arrivals";
+import { parseIsoDate } from "@/lib/simulation/calendar";
+import { ASSIGNMENT_POLICIES, type AssignmentPolicyId } from "@/lib/simulation/policies";
+import { randomSeed } from "@/lib/simulation/random";
+import { arrivalSetupStorageKey } from "@/lib/teamStorage";
+import type { ValidationIssue } from "@/lib/validation";
+
+interface ArrivalModelSetupProps {
+  teamName: string;
+  teamCode?: string;
+  templates: WorkflowTemplate[];
+  settings: ArrivalSettings;
+  setSettings: React.Dispatch<React.SetStateAction<ArrivalSettings>>;
+  validationIssues?: ValidationIssue[];
+  onBack?: () => void;
+  onRun?: () => void;
+  onForecast?: () => void;
+  onCompareScenarios?: () => void;
+  onImportBacklog?: () => void;
+  onFinish?: () => void;
+  onSaveProject?: () => void;
+}
+
+const PROCESS_OPTIONS: { kind: ArrivalProcessKind; label: string }[] = [
+  { kind: "poisson", label: "Poisson rate" },
+  { kind: "fixed", label: "Fixed schedule" },
+  { kind: "replay", label: "Replay timestamps" },
+];
+
+function parseTimestamps(text: string): { values: number[]; invalid: string[] } {
+  const tokens = text
+    .split(/[\s,;]+/)
+    .map(token => token.trim())
+    .filter(Boolean);
+  const values: number[] = [];
+  const invalid: string[] = [];
+
+  tokens.forEach(token => {
+    const value = Number(token);
+    if (Number.isFinite(value) && value >= 0) {
+      values.push(value);
+    } else {
+      invalid.push(token);
+    }
+  });
+
+  return { values, invalid };
+}
+
+function ReplayTimestampsInput({
+  value,
+  onCommit,
+}: {
+  value: number[];
+  onCommit: (timestamps: number[]) => void;
+}) {
+  const [draft, setDraft] = React.useState(() => value.join(", "));
+  const { invalid } = parseTimestamps(draft);
+
+  return (
+    <div className="flex flex-col gap-1">
+      <label className="text-sm font-medium">Arrival timestamps (hours after start)</label>
+      <textarea
+        className="min-h-20 w-full rounded-md border border-input bg-background px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        value={draft}
+        onChange={event => setDraft(event.target.value)}
+        onBlur={() => onCommit(parseTimestamps(draft).values)}
+        placeholder="e.g. 0, 4.5, 26, 30"
+        aria-invalid={invalid.length > 0}
+      />
+      {invalid.length > 0 ? (
+        <p className="text-xs text-red-600">Ignoring invalid timestamps: {invalid.join(", ")}</p>
+      ) : null}
+    </div>
+  );
+}
+
+export default function ArrivalModelSetup({
+  teamName,
+  teamCode,
+  templates,
+  settings,
+  setSettings,
+  validationIssues = [],
+  onBack,
+  onRun,
+  onForecast,
+  onCompareScenarios,
+  onImportBacklog,
+  onFinish,
+  onSaveProject,
+}: ArrivalModelSetupProps) {
+  const [showChecklist, setShowChecklist] = React.useState(false);
+
+  React.useEffect(() => {
+    if (typeof window === "undefined" || !teamCode) {
+      return;
+    }
+
+    const payload = JSON.stringify(
+      {
+        teamCode,
+        teamName,
+        arrivals: settings,
+        savedAt: new Date().toISOString(),
+      },
+      null,
+      2
+    );
+
+    window.localStorage.setItem(arrivalSetupStorageKey(teamCode), payload);
+  }, [teamCode, teamName, settings]);
+
+  const arrivalCounts = React.useMemo(() => {
+    const counts: Partial<Record<TemplateKey, number>> = {};
+    generateArrivals(
+      settings,
+      templates.map(template => template.key)
+    ).forEach(arrival => {
+      counts[arrival.templateKey] = (counts[arrival.templateKey] ?? 0) + 1;
+    });
+    return counts;
+  }, [settings, templates]);
+
+  const backlogCounts = React.useMemo(() => {
+    const counts: Partial<Record<TemplateKey, number>> = {};
+    settings.backlog.forEach(item => {
+      counts[item.templateKey] = (counts[item.templateKey] ?? 0) + 1;
+    });
+    return counts;
+  }, [settings.backlog]);
+
+  const updateProcess = (templateKey: TemplateKey, process: ArrivalProcess) => {
+    setSettings(prev => ({
+      ...prev,
+      processes: {
+        ...prev.processes,
+        [templateKey]: process,
+      },
+    }));
+  };
+
+  const handleKindChange = (templateKey: TemplateKey, kind: ArrivalProcessKind) => {
+    if (getArrivalProcess(settings, templateKey).kind === kind) {
+      return;
+    }
+    updateProcess(templateKey, createArrivalProcess(kind));
+  };
+
+  const handleSeedChange = (rawValue: string) => {
+    setSettings(prev => ({
+      ...prev,
+      seed: Math.floor(parseNonNegative(rawValue, prev.seed)),
+    }));
+  };
+
+  const handleHorizonChange = (rawValue: string) => {
+    setSettings(prev => ({
+      ...prev,
+      horizonDays: Math.max(1, Math.round(parseNonNegative(rawValue, prev.horizonDays))),
+    }));
+  };
+
+  const handleStartDateChange = (value: string) => {
+    if (parseIsoDate(value) === null) {
+      return;
+    }
+    setSettings(prev => ({ ...prev, startDate: value }));
+  };
+
+  const handlePolicyChange = (assignmentPolicy: AssignmentPolicyId) => {
+    setSettings(prev => ({ ...prev, assignmentPolicy }));
+  };
+
+  const proceedWhenValid = (proceed: () => void) => {
+    if (validationIssues.length > 0) {
+      setShowChecklist(true);
+      return;
+    }
+    proceed();
+  };
+
+  const handleSyntheticArrivalsChange = (syntheticArrivals: boolean) => {
+    setSettings(prev => ({ ...prev, syntheticArrivals }));
+  };
+
+  const handleClearBacklog = () => {
+    setSettings(prev => ({ ...prev, backlog: [] }));
+  };
+
+  const handleRandomizeSeed = () => {
+    setSettings(prev => ({ ...prev, seed: randomSeed() }));
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="mx-auto flex max-w-6xl flex-col gap-8">
+        <div>
+          <h1 className="text-3xl font-semibold text-gray-900">
+            Work Arrival Setup for <span className="text-primary">{teamName}</span>
+          </h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Describe how often each kind of work arrives. Runs with the same seed are reproducible.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-3">
+          {onBack ? (
+            <Button type="button" variant="outline" onClick={onBack}>
+              Back to Workflow Templates
+            </Button>
+          ) : null}
+          {onSaveProject ? (
+            <Button type="button" variant="secondary" onClick={onSaveProject}>
+              Save Project
+            </Button>
+          ) : null}
+          {onRun ? (
+            <Button type="button" onClick={() => proceedWhenValid(onRun)}>
+              Run Simulation
+            </Button>
+          ) : null}
+          {onForecast ? (
+            <Button type="button" variant="secondary" onClick={() => proceedWhenValid(onForecast)}>
+              Forecast Backlog
+            </Button>
+          ) : null}
+          {onCompareScenarios ? (
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => proceedWhenValid(onCompareScenarios)}
+            >
+              Compare Scenarios
+            </Button>
+          ) : null}
+          {onFinish ? (
+            <Button
+              type="button"
+              variant={onRun ? "outline" : "default"}
+              onClick={() => proceedWhenValid(onFinish)}
+            >
+              Finish
+            </Button>
+          ) : null}
+        </div>
+
+        {showChecklist ? <ValidationChecklist issues={validationIssues} /> : null}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Simulation Settings</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              The seed drives every random draw; the horizon is how long arrivals are generated for.
+              The assignment policy decides who picks up a task when several people could.
+            </p>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            <div>
+              <label className="text-sm font-medium">Random seed</label>
+              <div className="mt-1 flex gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={settings.seed}
+                  onChange={event => handleSeedChange(event.target.value)}
+                />
+                <Button type="button" variant="outline" onClick={handleRandomizeSeed}>
+                  Randomize
+                </Button>
+              </div>
+            </div>
+            <div>
+              <label className="text-sm font-medium">Start date</label>
+              <Input
+                type="date"
+                value={settings.startDate}
+                onChange={event => handleStartDateChange(event.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium">Horizon (days)</label>
+              <Input
+                type="number"
+                min={1}
+                step={1}
+                value={settings.horizonDays}
+                onChange={event => handleHorizonChange(event.target.value)}
+                className="mt-1"
+              />
+            </div>
+            <div className="sm:col-span-3">
+              <label className="text-sm font-medium">Assignment policy</label>
+              <select
+                className="mt-1 w-full rounded-md border border-input bg-background px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                value={settings.assignmentPolicy}
+                onChange={event => handlePolicyChange(event.target.value as AssignmentPolicyId)}
+              >
+                {Object.entries(ASSIGNMENT_POLICIES).map(([policyId, policy]) => (
+                  <option key={policyId} value={policyId}>
+                    {policy.label}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-muted-foreground">
+                {ASSIGNMENT_POLICIES[settings.assignmentPolicy].description}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Backlog</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Work items already waiting when the simulation starts, imported from your issue tracker.
+            </p>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-4">
+            {settings.backlog.length > 0 ? (
+              <p className="text-sm">
+                {settings.backlog.length} work items:{" "}
+                {templates
+                  .filter(template => backlogCounts[template.key])
+                  .map(template => `${backlogCounts[template.key]} ${template.title}`)
+                  .join(", ")}
+                {settings.backlog.some(item => !templates.some(template => template.key === item.templateKey))
+                  ? " (some use a template that no longer exists)"
+                  : ""}
+              </p>
+            ) : (
+              <p className="text-sm text-muted-foreground">No backlog imported.</p>
+            )}
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                checked={settings.syntheticArrivals}
+                onChange={event => handleSyntheticArrivalsChange(event.target.checked)}
+              />
+              Generate new arrivals over the horizon as configured below
+            </label>
+            <div className="flex flex-wrap gap-3">
+              {onImportBacklog ? (
+                <Button type="button" variant="outline" onClick={onImportBacklog}>
+                  Import Backlog
+                </Button>
+              ) : null}
+              {settings.backlog.length > 0 ? (
+                <Button type="button" variant="ghost" onClick={handleClearBacklog}>
+                  Clear Backlog
+                </Button>
+              ) : null}
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
+          {templates.map(template => {
+            const process = getArrivalProcess(settings, template.key);
+            return (
+              <Card key={template.key}>
+                <CardHeader>
+                  <CardTitle className="text-lg">{template.title}</CardTitle>
+                  <p className="text-xs text-muted-foreground">
+                    {settings.syntheticArrivals
+                      ? `${arrivalCounts[template.key] ?? 0} arrivals over ${settings.horizonDays} days`
+                      : "Generated arrivals are switched off"}
+                  </p>
+                  {settings.syntheticArrivals && (arrivalCounts[template.key] ?? 0) >= MAX_ARRIVALS_PER_TEMPLATE ? (
+                    <p className="text-xs text-amber-700">
+                      Capped at {MAX_ARRIVALS_PER_TEMPLATE.toLocaleString()} arrivals; later ones are left out of the
+                      simulation.
+                    </p>
+                  ) : null}
+                </CardHeader>
+                <CardContent className="flex flex-col gap-4">
+                  <div>
+                    <label className="text-sm font-medium">Arrival process</label>
+                    <select
+                      className="mt-1 w-full rounded-md border border-input bg-background px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                      value={process.kind}
+                      onChange={event =>
+                        handleKindChange(template.key, event.target.value as ArrivalProcessKind)
+                      }
+                    >
+                      {PROCESS_OPTIONS.map(option => (
+                        <option key={option.kind} value={option.kind}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {process.kind === "poisson" ? (
+                    <div>
+                      <label className="text-sm font-medium">Average arrivals per week</label>
+                      <Input
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        value={process.ratePerWeek}
+                        onChange={event =>
+                          updateProcess(template.key, {
+                            ...process,
+                            ratePerWeek: parseNonNegative(event.target.value, 0),
+                          })
+                        }
+                        className="mt-1"
+                      />
+                    </div>
+                  ) : process.kind === "fixed" ? (
+                    <>
+                      <div>
+                        <label className="text-sm font-medium">Every (hours)</label>
+                        <Input
+                          type="number"
+                          min={MIN_FIXED_INTERVAL_HOURS}
+                          step={1}
+                          value={process.intervalHours}
+                          onChange={event =>
+                            updateProcess(template.key, {
+                              ...process,
+                              intervalHours: parseIntervalHours(event.target.value, process.intervalHours),
+                            })
+                          }
+                          className="mt-1"
+                        />
+                      </div>
+                      <div>
+                        <label className="text-sm font-medium">First arrival after (hours)</label>
+                        <Input
+                          type="number"
+                          min={0}
+                          step={1}
+                          value={process.offsetHours}
+                          onChange={event =>
+                            updateProcess(template.key, {
+                              ...process,
+                              offsetHours: parseNonNegative(event.target.value, 0),
+                            })
+                          }
+                          className="mt-1"
+                        />
+                      </div>
+                    </>
+                  ) : (
+                    <ReplayTimestampsInput
+                      key={template.key}
+                      value={process.timestampsHours}
+                      onCommit={timestampsHours =>
+                        updateProcess(template.key, { ...process, timestampsHours })
+                      }
+                    />
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+"use client";
+
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import type { TemplateKey, WorkflowTemplate } from "@/lib/workflowTemplates";
+import {
+  applyBacklogMapping,
+  BACKLOG_FORMAT_LABELS,
+  type BacklogMapping,
+  type BacklogSourceFormat,
+  collectSourceValues,
+  type ImportedIssue,
+  type ImportRowError,
+  parseBacklogFile,
+  suggestBacklogMapping,
+  toBacklogItems,
+} from "@/lib/backlogImport";
+import type { BacklogItem } from "@/lib/simulation/arrivals";
+
+interface BacklogImportProps {
+  teamName: string;
+  templates: WorkflowTemplate[];
+  onApply: (items: BacklogItem[]) => void;
+  onCancel?: () => void;
+}
+
+type LoadedBacklog = {
+  fileName: string;
+  format: BacklogSourceFormat;
+  issues: ImportedIssue[];
+  errors: ImportRowError[];
+};
+
+const IGNORE_VALUE = "";
+
+export default function BacklogImport({ teamName, templates, onApply, onCancel }: BacklogImportProps) {
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const [loaded, setLoaded] = React.useState<LoadedBacklog | null>(null);
+  const [mapping, setMapping] = React.useState<BacklogMapping>({});
+  const [fileError, setFileError] = React.useState<string | null>(null);
+
+  const templateTitles = new Map(templates.map(template => [template.key, template.title]));
+  const mapped = loaded ? applyBacklogMapping(loaded.issues, mapping) : [];
+  const { items, errors: mappingErrors } = toBacklogItems(mapped);
+  const rowErrors = [...(loaded?.errors ?? []), ...mappingErrors].sort((a, b) => a.row - b.row);
+  const sourceValues = loaded ? collectSourceValues(loaded.issues) : [];
+
+  const handleFileChange: React.ChangeEventHandler<HTMLInputElement> = async event => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    try {
+      const result = parseBacklogFile(await file.text());
+      if (!result.ok) {
+        setFileError(`${file.name}: ${result.error}`);
+        setLoaded(null);
+        return;
+      }
+      setFileError(null);
+      setLoaded({ fileName: file.name, format: result.format, issues: result.issues, errors: result.errors });
+      setMapping(suggestBacklogMapping(result.issues, templates));
+    } catch (error) {
+      console.error("Failed to read backlog file", error);
+      setFileError(`${file.name}: the file could not be read.`);
+    }
+  };
+
+  const handleMappingChange = (value: string, templateKey: string) => {
+    setMapping(prev => ({ ...prev, [value]: templateKey === IGNORE_VALUE ? null : (templateKey as TemplateKey) }));
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="mx-auto flex max-w-6xl flex-col gap-8">
+        <div>
+          <h1 className="text-3xl font-semibold text-gray-900">
+            Backlog Import for <span className="text-primary">{teamName}</span>
+          </h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Load a CSV, or a Jira or GitHub issue export saved as JSON. Each issue becomes a work item
+            waiting at the start of the simulation, using the template its type or labels map to.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-3">
+          {onCancel ? (
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+          ) : null}
+          <Button type="button" variant="secondary" onClick={() => fileInputRef.current?.click()}>
+            Choose File
+          </Button>
+          <Button type="button" onClick={() => onApply(items)} disabled={items.length === 0}>
+            Use {items.length} Work Items as Backlog
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+        </div>
+
+        {fileError ? (
+          <div
+            className="rounded-md border border-red-200 bg-red-50 px-4 py-2 text-sm text-red-700"
+            role="status"
+            aria-live="polite"
+          >
+            {fileError}
+          </div>
+        ) : null}
+
+        {loaded ? (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-xl">Template Mapping</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  {loaded.fileName} · {BACKLOG_FORMAT_LABELS[loaded.format]} · {loaded.issues.length}{" "}
+                  issues read. An issue&rsquo;s type is tried first, then its labels in order.
+                </p>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-100 text-xs uppercase tracking-wide text-gray-600">
+                    <tr>
+                      <th className="px-3 py-2 text-left">Type or label</th>
+                      <th className="px-3 py-2 text-right">Issues</th>
+                      <th className="px-3 py-2 text-left">Template</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 bg-white">
+                    {sourceValues.length === 0 ? (
+                      <tr>
+                        <td colSpan={3} className="px-3 py-4 text-center text-muted-foreground">
+                          The issues carry no types or labels.
+                        </td>
+                      </tr>
+                    ) : (
+                      sourceValues.map(({ value, count }) => (
+                        <tr key={value}>
+                          <td className="px-3 py-2">{value}</td>
+                          <td className="px-3 py-2 text-right tabular-nums">{count}</td>
+                          <td className="px-3 py-2">
+                            <select
+                              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                              value={mapping[value] ?? IGNORE_VALUE}
+                              onChange={event => handleMappingChange(value, event.target.value)}
+                            >
+                              <option value={IGNORE_VALUE}>Ignore</option>
+                              {templates.map(template => (
+                                <option key={template.key} value={template.key}>
+                                  {template.title}
+                                </option>
+                              ))}
+                            </select>
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+
+            {rowErrors.length > 0 ? (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-xl">Skipped Rows</CardTitle>
+                  <p className="text-sm text-muted-foreground">
+                    These rows will not be imported. Fix the file or the mapping to include them.
+                  </p>
+                </CardHeader>
+                <CardContent>
+                  <ul className="flex flex-col gap-1 text-sm text-red-700">
+                    {rowErrors.map((error, index) => (
+                      <li key={`${error.row}-${index}`}>
+                        Row {error.row}: {error.message}
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            ) : null}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-xl">Preview</CardTitle>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-100 text-xs uppercase tracking-wide text-gray-600">
+                    <tr>
+                      <th className="px-3 py-2 text-right">Row</th>
+                      <th className="px-3 py-2 text-left">Id</th>
+                      <th className="px-3 py-2 text-left">Title</th>
+                      <th className="px-3 py-2 text-left">Type</th>
+                      <th className="px-3 py-2 text-left">Labels</th>
+                      <th className="px-3 py-2 text-left">Template</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 bg-white">
+                    {mapped.map(issue => (
+                      <tr key={`${issue.row}-${issue.sourceId}`}>
+                        <td className="px-3 py-2 text-right tabular-nums">{issue.row}</td>
+                        <td className="px-3 py-2">{issue.sourceId}</td>
+                        <td className="max-w-xs truncate px-3 py-2" title={issue.title}>
+                          {issue.title}
+                        </td>
+                        <td className="px-3 py-2">{issue.type ?? "–"}</td>
+                        <td className="px-3 py-2">{issue.labels.join(", ") || "–"}</td>
+                        <td className={`px-3 py-2 ${issue.templateKey ? "" : "text-red-700"}`}>
+                          {issue.templateKey
+                            ? templateTitles.get(issue.templateKey) ?? issue.templateKey
+                            : "Not mapped"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          </>
+        ) : null}
+      </div>
+    </div>
+  );
+}
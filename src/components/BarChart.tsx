@@ -0,0 +1,105 @@
+"use client";
+
+import React from "react";
+
+export type BarSegment = {
+  key: string;
+  value: number;
+  color: string;
+  label: string;
+};
+
+export type Bar = {
+  label: string;
+  segments: BarSegment[];
+};
+
+interface BarChartProps {
+  bars: Bar[];
+  ariaLabel: string;
+  formatValue?: (value: number) => string;
+  height?: number;
+}
+
+/** Palette for series such as workflow templates, reused in order. */
+export const SERIES_COLORS = ["#2563eb", "#f59e0b", "#dc2626", "#059669", "#7c3aed", "#db2777", "#0891b2"];
+
+const PLOT_TOP = 8;
+const PLOT_BOTTOM = 24;
+const PLOT_LEFT = 32;
+
+/** Vertical bar chart drawn as SVG; bars with several segments are stacked. */
+export default function BarChart({
+  bars,
+  ariaLabel,
+  formatValue = value => String(value),
+  height = 180,
+}: BarChartProps) {
+  const width = Math.max(240, bars.length * 36 + PLOT_LEFT);
+  const plotHeight = height - PLOT_TOP - PLOT_BOTTOM;
+  const slot = (width - PLOT_LEFT) / Math.max(1, bars.length);
+  const barWidth = Math.max(4, slot * 0.7);
+  const max = Math.max(
+    1,
+    ...bars.map(bar => bar.segments.reduce((total, segment) => total + segment.value, 0))
+  );
+  const labelEvery = Math.ceil(bars.length / 12);
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      className="h-auto w-full"
+      role="img"
+      aria-label={ariaLabel}
+    >
+      <line
+        x1={PLOT_LEFT}
+        x2={width}
+        y1={PLOT_TOP + plotHeight}
+        y2={PLOT_TOP + plotHeight}
+        stroke="#d1d5db"
+      />
+      <text x={PLOT_LEFT - 4} y={PLOT_TOP + 8} textAnchor="end" fontSize={10} fill="#6b7280">
+        {formatValue(max)}
+      </text>
+      <text x={PLOT_LEFT - 4} y={PLOT_TOP + plotHeight} textAnchor="end" fontSize={10} fill="#6b7280">
+        0
+      </text>
+      {bars.map((bar, index) => {
+        const x = PLOT_LEFT + index * slot + (slot - barWidth) / 2;
+        let offset = 0;
+        return (
+          <g key={`${bar.label}-${index}`}>
+            {bar.segments.map(segment => {
+              const segmentHeight = (segment.value / max) * plotHeight;
+              offset += segmentHeight;
+              return segment.value > 0 ? (
+                <rect
+                  key={segment.key}
+                  x={x}
+                  y={PLOT_TOP + plotHeight - offset}
+                  width={barWidth}
+                  height={segmentHeight}
+                  fill={segment.color}
+                >
+                  <title>{`${bar.label} · ${segment.label}: ${formatValue(segment.value)}`}</title>
+                </rect>
+              ) : null;
+            })}
+            {index % labelEvery === 0 ? (
+              <text
+                x={x + barWidth / 2}
+                y={height - 8}
+                textAnchor="middle"
+                fontSize={10}
+                fill="#6b7280"
+              >
+                {bar.label}
+              </text>
+            ) : null}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
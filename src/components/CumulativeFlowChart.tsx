@@ -0,0 +1,179 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { SERIES_COLORS } from "@/components/BarChart";
+import { toCsv } from "@/lib/csv";
+import { downloadFile } from "@/lib/download";
+import { formatSimulatedTime } from "@/lib/simulation/calendar";
+import type { CumulativeFlow, CumulativeFlowSeries } from "@/lib/simulation/cumulativeFlow";
+
+interface CumulativeFlowChartProps {
+  flow: CumulativeFlow;
+  startDate: string;
+  fileNameBase: string;
+}
+
+const WIDTH = 720;
+const HEIGHT = 280;
+const PLOT_LEFT = 36;
+const PLOT_RIGHT = 8;
+const PLOT_TOP = 8;
+const PLOT_BOTTOM = 24;
+const DONE_COLOR = "#9ca3af";
+
+function getBandStyle(band: CumulativeFlowSeries, colorByCapability: Map<string, string>) {
+  if (band.capabilityId === null) {
+    return { fill: DONE_COLOR, opacity: 0.8 };
+  }
+  return {
+    fill: colorByCapability.get(band.capabilityId) ?? SERIES_COLORS[0],
+    opacity: band.state === "queued" ? 0.4 : 0.85,
+  };
+}
+
+/** Stacked area chart of tasks per Kanban column over simulated time. */
+export default function CumulativeFlowChart({ flow, startDate, fileNameBase }: CumulativeFlowChartProps) {
+  const [hoverIndex, setHoverIndex] = React.useState<number | null>(null);
+  const { times, series } = flow;
+  const plotWidth = WIDTH - PLOT_LEFT - PLOT_RIGHT;
+  const plotHeight = HEIGHT - PLOT_TOP - PLOT_BOTTOM;
+  const endTime = times[times.length - 1] || 1;
+
+  const capabilityIds = [
+    ...new Set(series.map(band => band.capabilityId).filter((id): id is string => id !== null)),
+  ].reverse();
+  const colorByCapability = new Map(
+    capabilityIds.map((id, index) => [id, SERIES_COLORS[index % SERIES_COLORS.length]])
+  );
+
+  const stacks: number[][] = [];
+  series.forEach((band, index) => {
+    stacks.push(band.values.map((value, sample) => value + (index > 0 ? stacks[index - 1][sample] : 0)));
+  });
+  const max = Math.max(1, ...(stacks[stacks.length - 1] ?? [0]));
+  const toX = (time: number) => PLOT_LEFT + (time / endTime) * plotWidth;
+  const toY = (value: number) => PLOT_TOP + plotHeight - (value / max) * plotHeight;
+
+  const bandPath = (index: number) => {
+    const upper = stacks[index].map((value, sample) => `${toX(times[sample])},${toY(value)}`);
+    const lower = times
+      .map((time, sample) => `${toX(time)},${toY(index > 0 ? stacks[index - 1][sample] : 0)}`)
+      .reverse();
+    return `M${upper.join("L")}L${lower.join("L")}Z`;
+  };
+
+  const dayTicks = Array.from({ length: Math.floor(endTime / (24 * 60)) + 1 }, (_, day) => day).filter(
+    (day, _, days) => day % Math.ceil(days.length / 10) === 0
+  );
+
+  const handleMouseMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - bounds.left) / bounds.width) * WIDTH;
+    const ratio = Math.min(1, Math.max(0, (x - PLOT_LEFT) / plotWidth));
+    setHoverIndex(Math.round(ratio * (times.length - 1)));
+  };
+
+  const handleExport = () => {
+    const rows = [
+      ["minute", "time_utc", ...series.map(band => band.label)],
+      ...times.map((time, sample) => [
+        Math.round(time),
+        formatSimulatedTime(time, startDate),
+        ...series.map(band => band.values[sample]),
+      ]),
+    ];
+    downloadFile(`${fileNameBase}_Cumulative_Flow.csv`, toCsv(rows), "text/csv");
+  };
+
+  const hoverLeft = hoverIndex === null ? 0 : (toX(times[hoverIndex]) / WIDTH) * 100;
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="relative">
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="h-auto w-full"
+          role="img"
+          aria-label="Cumulative flow diagram"
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => setHoverIndex(null)}
+        >
+          {series.map((band, index) => {
+            const style = getBandStyle(band, colorByCapability);
+            return <path key={band.key} d={bandPath(index)} fill={style.fill} fillOpacity={style.opacity} />;
+          })}
+          <line
+            x1={PLOT_LEFT}
+            x2={WIDTH - PLOT_RIGHT}
+            y1={PLOT_TOP + plotHeight}
+            y2={PLOT_TOP + plotHeight}
+            stroke="#d1d5db"
+          />
+          <text x={PLOT_LEFT - 4} y={PLOT_TOP + 8} textAnchor="end" fontSize={10} fill="#6b7280">
+            {max}
+          </text>
+          {dayTicks.map(day => (
+            <text
+              key={day}
+              x={toX(day * 24 * 60)}
+              y={HEIGHT - 8}
+              textAnchor="middle"
+              fontSize={10}
+              fill="#6b7280"
+            >
+              D{day + 1}
+            </text>
+          ))}
+          {hoverIndex !== null ? (
+            <line
+              x1={toX(times[hoverIndex])}
+              x2={toX(times[hoverIndex])}
+              y1={PLOT_TOP}
+              y2={PLOT_TOP + plotHeight}
+              stroke="#111827"
+              strokeDasharray="3 3"
+            />
+          ) : null}
+        </svg>
+        {hoverIndex !== null ? (
+          <div
+            className="pointer-events-none absolute top-2 z-10 min-w-44 rounded-md border bg-white px-3 py-2 text-xs shadow"
+            style={
+              hoverLeft > 60
+                ? { right: `${100 - hoverLeft + 1}%` }
+                : { left: `${hoverLeft + 1}%` }
+            }
+          >
+            <p className="mb-1 font-medium">{formatSimulatedTime(times[hoverIndex], startDate)} UTC</p>
+            {[...series].reverse().map(band => (
+              <p key={band.key} className="flex justify-between gap-3">
+                <span>{band.label}</span>
+                <span className="tabular-nums">{band.values[hoverIndex]}</span>
+              </p>
+            ))}
+          </div>
+        ) : null}
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+          {[...series].reverse().map(band => {
+            const style = getBandStyle(band, colorByCapability);
+            return (
+              <span key={band.key} className="flex items-center gap-1">
+                <span
+                  className="inline-block h-3 w-3 rounded-sm"
+                  style={{ backgroundColor: style.fill, opacity: style.opacity }}
+                />
+                {band.label}
+              </span>
+            );
+          })}
+        </div>
+        <Button type="button" variant="outline" size="sm" onClick={handleExport}>
+          Export CSV
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import React from "react";
+
+export type LineSeries = {
+  key: string;
+  label: string;
+  color: string;
+  /** One value per x label; shorter series simply stop early. */
+  values: number[];
+  dashed?: boolean;
+};
+
+interface LineChartProps {
+  labels: string[];
+  series: LineSeries[];
+  ariaLabel: string;
+  formatValue?: (value: number) => string;
+  height?: number;
+}
+
+const WIDTH = 720;
+const PLOT_TOP = 8;
+const PLOT_BOTTOM = 24;
+const PLOT_LEFT = 36;
+const PLOT_RIGHT = 8;
+
+/** Overlaid line series drawn as SVG, with a legend below. */
+export default function LineChart({
+  labels,
+  series,
+  ariaLabel,
+  formatValue = value => String(value),
+  height = 200,
+}: LineChartProps) {
+  const plotWidth = WIDTH - PLOT_LEFT - PLOT_RIGHT;
+  const plotHeight = height - PLOT_TOP - PLOT_BOTTOM;
+  const max = Math.max(1, ...series.flatMap(line => line.values));
+  const toX = (index: number) =>
+    PLOT_LEFT + (labels.length > 1 ? (index / (labels.length - 1)) * plotWidth : plotWidth / 2);
+  const toY = (value: number) => PLOT_TOP + plotHeight - (value / max) * plotHeight;
+  const labelEvery = Math.ceil(labels.length / 12);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="h-auto w-full" role="img" aria-label={ariaLabel}>
+        <line
+          x1={PLOT_LEFT}
+          x2={WIDTH - PLOT_RIGHT}
+          y1={PLOT_TOP + plotHeight}
+          y2={PLOT_TOP + plotHeight}
+          stroke="#d1d5db"
+        />
+        <text x={PLOT_LEFT - 4} y={PLOT_TOP + 8} textAnchor="end" fontSize={10} fill="#6b7280">
+          {formatValue(max)}
+        </text>
+        <text x={PLOT_LEFT - 4} y={PLOT_TOP + plotHeight} textAnchor="end" fontSize={10} fill="#6b7280">
+          0
+        </text>
+        {labels.map((label, index) =>
+          index % labelEvery === 0 ? (
+            <text
+              key={`${label}-${index}`}
+              x={toX(index)}
+              y={height - 8}
+              textAnchor="middle"
+              fontSize={10}
+              fill="#6b7280"
+            >
+              {label}
+            </text>
+          ) : null
+        )}
+        {series.map(line => (
+          <g key={line.key}>
+            <polyline
+              points={line.values.map((value, index) => `${toX(index)},${toY(value)}`).join(" ")}
+              fill="none"
+              stroke={line.color}
+              strokeWidth={2}
+              strokeDasharray={line.dashed ? "5 4" : undefined}
+            />
+            {line.values.map((value, index) => (
+              <circle key={index} cx={toX(index)} cy={toY(value)} r={3} fill={line.color}>
+                <title>{`${line.label} · ${labels[index] ?? ""}: ${formatValue(value)}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+        {series.map(line => (
+          <span key={line.key} className="flex items-center gap-1">
+            <span className="inline-block h-0.5 w-4" style={{ backgroundColor: line.color }} />
+            {line.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { LOAD_FIX_LABELS, type LoadFix, type LoadFixAction } from "@/lib/setupFileSchema";
+
+interface LoadReportPanelProps {
+  fileName: string;
+  /** What accepting will load, e.g. "4 capabilities and 6 staff members". */
+  summary: string;
+  fixes: LoadFix[];
+  onAccept: () => void;
+  onCancel: () => void;
+  /** Offers merging into what is on screen as an alternative to replacing it. */
+  onMerge?: () => void;
+}
+
+const ACTION_TONES: Record<LoadFixAction, string> = {
+  defaulted: "bg-amber-100 text-amber-800",
+  clamped: "bg-yellow-50 text-yellow-800",
+  dropped: "bg-red-100 text-red-800",
+  regenerated: "bg-sky-100 text-sky-800",
+};
+
+export default function LoadReportPanel({
+  fileName,
+  summary,
+  fixes,
+  onAccept,
+  onCancel,
+  onMerge,
+}: LoadReportPanelProps) {
+  return (
+    <Card className="border-primary/40">
+      <CardHeader>
+        <CardTitle className="text-lg">Load {fileName}?</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          The file holds {summary}.{" "}
+          {fixes.length === 0
+            ? "Every value matched the file format."
+            : `${fixes.length} values did not match the file format and were repaired as listed below.`}{" "}
+          Loading replaces what is on screen now{onMerge ? "; merging keeps it and lets you pick per row" : ""}.
+        </p>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {fixes.length > 0 ? (
+          <div className="max-h-80 overflow-auto rounded-md border">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="sticky top-0 bg-gray-100 text-xs uppercase tracking-wide text-gray-600">
+                <tr>
+                  <th className="px-3 py-2 text-left">Where</th>
+                  <th className="px-3 py-2 text-left">Repair</th>
+                  <th className="px-3 py-2 text-left">Detail</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 bg-white">
+                {fixes.map((fix, index) => (
+                  <tr key={index}>
+                    <td className="px-3 py-2 font-medium">{fix.subject}</td>
+                    <td className="px-3 py-2">
+                      <span className={`rounded px-2 py-0.5 text-xs font-medium ${ACTION_TONES[fix.action]}`}>
+                        {LOAD_FIX_LABELS[fix.action]}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2">{fix.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : null}
+        <div className="flex flex-wrap gap-3">
+          <Button type="button" onClick={onAccept}>
+            Load File
+          </Button>
+          {onMerge ? (
+            <Button type="button" variant="secondary" onClick={onMerge}>
+              Merge with Current
+            </Button>
+          ) : null}
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
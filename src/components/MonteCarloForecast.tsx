@@ -0,0 +1,258 @@
+"use client";
+
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import BarChart, { SERIES_COLORS } from "@/components/BarChart";
+import type { TemplateKey } from "@/lib/workflowTemplates";
+import { formatElapsed } from "@/lib/duration";
+import { formatSimulatedTime } from "@/lib/simulation/calendar";
+import {
+  DEFAULT_FORECAST_RUNS,
+  type Forecast,
+  type ForecastRequest,
+  type ForecastWorkerMessage,
+  type ForecastWorkerRequest,
+} from "@/lib/simulation/forecast";
+import { REPORTED_PERCENTILES } from "@/lib/simulation/metrics";
+import type { SimulationSetup } from "@/lib/simulation/run";
+
+interface MonteCarloForecastProps {
+  teamName: string;
+  setup: SimulationSetup;
+  onBack?: () => void;
+}
+
+const MAX_RUNS = 5000;
+
+function parseCount(rawValue: string, fallback: number) {
+  const value = Number(rawValue);
+  return rawValue.trim() && Number.isFinite(value) ? Math.max(0, Math.floor(value)) : fallback;
+}
+
+export default function MonteCarloForecast({ teamName, setup, onBack }: MonteCarloForecastProps) {
+  const { templates, settings } = setup;
+  // Start from the imported backlog when there is one.
+  const [backlog, setBacklog] = React.useState<Record<TemplateKey, number>>(() =>
+    Object.fromEntries(
+      templates.map(template => [
+        template.key,
+        settings.backlog.length > 0
+          ? settings.backlog.filter(item => item.templateKey === template.key).length
+          : 5,
+      ])
+    )
+  );
+  const [runs, setRuns] = React.useState(DEFAULT_FORECAST_RUNS);
+  const [includeNewArrivals, setIncludeNewArrivals] = React.useState(false);
+  const [progress, setProgress] = React.useState<{ completed: number; total: number } | null>(null);
+  const [forecast, setForecast] = React.useState<Forecast | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const workerRef = React.useRef<Worker | null>(null);
+
+  React.useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const backlogSize = templates.reduce((total, template) => total + (backlog[template.key] ?? 0), 0);
+  const isRunning = progress !== null;
+
+  const stopWorker = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  };
+
+  const handleRun = () => {
+    if (backlogSize === 0) {
+      setError("Add at least one work item to the backlog.");
+      return;
+    }
+
+    stopWorker();
+    setError(null);
+    setForecast(null);
+    setProgress({ completed: 0, total: runs });
+
+    const request: ForecastRequest = { setup, backlog, runs, includeNewArrivals };
+    const worker = new Worker(new URL("../lib/simulation/forecast.worker.ts", import.meta.url));
+    workerRef.current = worker;
+    worker.onmessage = (event: MessageEvent<ForecastWorkerMessage>) => {
+      if (event.data.type === "progress") {
+        setProgress({ completed: event.data.completed, total: event.data.total });
+        return;
+      }
+      if (event.data.type === "result") {
+        setForecast(event.data.forecast);
+        stopWorker();
+      }
+    };
+    worker.onerror = event => {
+      console.error("Forecast worker failed", event);
+      setError("The forecast could not be completed.");
+      stopWorker();
+    };
+    worker.postMessage({ type: "forecast", request } satisfies ForecastWorkerRequest);
+  };
+
+  const toDate = (minutes: number) => formatSimulatedTime(minutes, settings.startDate).slice(0, 10);
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="mx-auto flex max-w-6xl flex-col gap-8">
+        <div>
+          <h1 className="text-3xl font-semibold text-gray-900">
+            Backlog Forecast for <span className="text-primary">{teamName}</span>
+          </h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Runs the simulation many times with different seeds to answer &ldquo;when will these
+            items be done?&rdquo; The backlog is waiting on {settings.startDate}.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-3">
+          {onBack ? (
+            <Button type="button" variant="outline" onClick={onBack}>
+              Back to Work Arrival Setup
+            </Button>
+          ) : null}
+          {isRunning ? (
+            <Button type="button" variant="secondary" onClick={stopWorker}>
+              Cancel
+            </Button>
+          ) : (
+            <Button type="button" onClick={handleRun}>
+              Run Forecast
+            </Button>
+          )}
+        </div>
+
+        {error ? (
+          <div
+            className="rounded-md border border-red-200 bg-red-50 px-4 py-2 text-sm text-red-700"
+            role="status"
+            aria-live="polite"
+          >
+            {error}
+          </div>
+        ) : null}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Backlog</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              How many work items of each kind are waiting. {backlogSize} in total.
+            </p>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            {templates.map(template => (
+              <div key={template.key}>
+                <label className="text-sm font-medium">{template.title}</label>
+                <Input
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={backlog[template.key] ?? 0}
+                  onChange={event =>
+                    setBacklog(prev => ({
+                      ...prev,
+                      [template.key]: parseCount(event.target.value, prev[template.key] ?? 0),
+                    }))
+                  }
+                  disabled={isRunning}
+                  className="mt-1"
+                />
+              </div>
+            ))}
+            <div>
+              <label className="text-sm font-medium">Runs</label>
+              <Input
+                type="number"
+                min={1}
+                max={MAX_RUNS}
+                step={50}
+                value={runs}
+                onChange={event =>
+                  setRuns(Math.min(MAX_RUNS, Math.max(1, parseCount(event.target.value, runs))))
+                }
+                disabled={isRunning}
+                className="mt-1"
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm sm:col-span-2">
+              <input
+                type="checkbox"
+                className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                checked={includeNewArrivals}
+                onChange={event => setIncludeNewArrivals(event.target.checked)}
+                disabled={isRunning}
+              />
+              Keep new work arriving over the {settings.horizonDays}-day horizon, competing with the
+              backlog
+            </label>
+          </CardContent>
+        </Card>
+
+        {progress ? (
+          <div className="flex flex-col gap-1 text-sm" role="status" aria-live="polite">
+            <span>
+              Running {progress.completed} of {progress.total}&hellip;
+            </span>
+            <div className="h-2 overflow-hidden rounded bg-gray-100">
+              <div
+                className="h-full bg-primary"
+                style={{ width: `${(progress.completed / Math.max(1, progress.total)) * 100}%` }}
+              />
+            </div>
+          </div>
+        ) : null}
+
+        {forecast ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-xl">Completion Forecast</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                {forecast.completionTimes.length} of {forecast.runs} runs finished the backlog.
+                {forecast.incompleteRuns > 0
+                  ? ` ${forecast.incompleteRuns} never did, usually because nobody holds a needed capability.`
+                  : ""}
+              </p>
+            </CardHeader>
+            <CardContent className="flex flex-col gap-6">
+              {forecast.stats ? (
+                <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                  {REPORTED_PERCENTILES.map(p => (
+                    <div key={p} className="rounded-md border bg-white p-4">
+                      <p className="text-xs uppercase tracking-wide text-muted-foreground">
+                        {p}% confidence
+                      </p>
+                      <p className="text-2xl font-semibold">{toDate(forecast.stats?.percentiles[p] ?? 0)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        within {formatElapsed(forecast.stats?.percentiles[p] ?? 0)}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+              {forecast.histogram.length > 0 ? (
+                <BarChart
+                  ariaLabel="Runs finishing the backlog per day"
+                  bars={forecast.histogram.map(bin => ({
+                    label: toDate(bin.start).slice(5),
+                    segments: [
+                      {
+                        key: "runs",
+                        value: bin.count,
+                        color: SERIES_COLORS[0],
+                        label: `${bin.count} runs`,
+                      },
+                    ],
+                  }))}
+                />
+              ) : null}
+            </CardContent>
+          </Card>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  type SavedTeamSummary,
+  copySavedTeam,
+  createCopyTeamCode,
+  deleteSavedTeam,
+  listSavedTeams,
+  renameSavedTeam,
+} from "@/lib/teamStorage";
+
+interface SavedTeamsListProps {
+  onOpen: (team: SavedTeamSummary) => void;
+}
+
+function formatSavedAt(savedAt: string | null) {
+  if (!savedAt) {
+    return "never saved";
+  }
+  const date = new Date(savedAt);
+  return Number.isNaN(date.getTime()) ? savedAt : `saved ${date.toLocaleString()}`;
+}
+
+export default function SavedTeamsList({ onOpen }: SavedTeamsListProps) {
+  const [teams, setTeams] = React.useState<SavedTeamSummary[]>([]);
+  const [editing, setEditing] = React.useState<
+    | { teamCode: string; nextCode: string; nextName: string }
+    | null
+  >(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const refresh = React.useCallback(() => {
+    setTeams(listSavedTeams(window.localStorage));
+  }, []);
+
+  React.useEffect(() => {
+    if (typeof window === "undefined") {
+      return;
+    }
+    refresh();
+  }, [refresh]);
+
+  const handleDuplicate = (team: SavedTeamSummary) => {
+    const storage = window.localStorage;
+    copySavedTeam(
+      storage,
+      team.teamCode,
+      createCopyTeamCode(storage, team.teamCode),
+      `${team.teamName || team.teamCode} (copy)`
+    );
+    setError(null);
+    refresh();
+  };
+
+  const handleDelete = (team: SavedTeamSummary) => {
+    if (!window.confirm(`Delete the saved team "${team.teamName || team.teamCode}"?`)) {
+      return;
+    }
+    deleteSavedTeam(window.localStorage, team.teamCode);
+    setError(null);
+    refresh();
+  };
+
+  const handleRenameSave = () => {
+    if (!editing) {
+      return;
+    }
+
+    const nextCode = editing.nextCode.trim();
+    const nextName = editing.nextName.trim();
+    if (!nextCode || !nextName) {
+      setError("Team ID and Team Name are required.");
+      return;
+    }
+
+    if (!renameSavedTeam(window.localStorage, editing.teamCode, nextCode, nextName)) {
+      setError(`A saved team with the ID "${nextCode}" already exists.`);
+      return;
+    }
+
+    setEditing(null);
+    setError(null);
+    refresh();
+  };
+
+  if (teams.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="w-[560px] max-w-full rounded-2xl shadow-xl">
+      <CardHeader>
+        <CardTitle className="text-lg">Saved Teams</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Open a team saved in this browser, or manage the saved copies.
+        </p>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-3">
+        {error ? (
+          <div
+            className="rounded-md border border-red-200 bg-red-50 px-4 py-2 text-sm text-red-700"
+            role="status"
+            aria-live="polite"
+          >
+            {error}
+          </div>
+        ) : null}
+        <ul className="divide-y divide-gray-200">
+          {teams.map(team => (
+            <li key={team.teamCode} className="flex flex-col gap-2 py-3">
+              {editing?.teamCode === team.teamCode ? (
+                <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+                  <Input
+                    value={editing.nextCode}
+                    onChange={event => setEditing({ ...editing, nextCode: event.target.value })}
+                    placeholder="Team ID"
+                    aria-label="Team ID"
+                  />
+                  <Input
+                    value={editing.nextName}
+                    onChange={event => setEditing({ ...editing, nextName: event.target.value })}
+                    placeholder="Team Name"
+                    aria-label="Team Name"
+                  />
+                  <div className="flex gap-1">
+                    <Button type="button" size="sm" onClick={handleRenameSave}>
+                      Save
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => {
+                        setEditing(null);
+                        setError(null);
+                      }}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {team.teamName || "Unnamed team"}{" "}
+                      <span className="text-muted-foreground">({team.teamCode})</span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {team.memberCount} members · {team.capabilityCount} capabilities ·{" "}
+                      {formatSavedAt(team.savedAt)}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    <Button type="button" size="sm" onClick={() => onOpen(team)}>
+                      Open
+                    </Button>
+                    <Button type="button" size="sm" variant="outline" onClick={() => handleDuplicate(team)}>
+                      Duplicate
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      onClick={() =>
+                        setEditing({
+                          teamCode: team.teamCode,
+                          nextCode: team.teamCode,
+                          nextName: team.teamName,
+                        })
+                      }
+                    >
+                      Rename
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      className="text-destructive"
+                      onClick={() => handleDelete(team)}
+                    >
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,557 @@
+"use client";
+
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { SERIES_COLORS } from "@/components/BarChart";
+import LineChart from "@/components/LineChart";
+import { getNextStaffCode, parseCapacityPercent, type StaffMember } from "@/lib/teamSetup";
+import { formatElapsed } from "@/lib/duration";
+import { generateId } from "@/lib/ids";
+import {
+  type ArrivalProcess,
+  getArrivalProcess,
+  MIN_FIXED_INTERVAL_HOURS,
+  parseIntervalHours,
+  parseNonNegative,
+} from "@/lib/simulation/arrivals";
+import type { ForecastWorkerMessage, ForecastWorkerRequest } from "@/lib/simulation/forecast";
+import type { SimulationSetup } from "@/lib/simulation/run";
+import {
+  BASELINE_SCENARIO_ID,
+  createScenario,
+  type Scenario,
+  type ScenarioOutcome,
+  type ScenarioSummary,
+} from "@/lib/simulation/scenarios";
+
+interface ScenarioComparisonProps {
+  teamName: string;
+  baseline: SimulationSetup;
+  scenarios: Scenario[];
+  setScenarios: React.Dispatch<React.SetStateAction<Scenario[]>>;
+  onBack?: () => void;
+}
+
+type ComparedMetric = {
+  label: string;
+  value: (summary: ScenarioSummary) => number | null;
+  format: (value: number) => string;
+  /** Whether a larger value is an improvement. */
+  higherIsBetter: boolean;
+};
+
+const COMPARED_METRICS: ComparedMetric[] = [
+  {
+    label: "Work items completed",
+    value: summary => summary.completed,
+    format: value => String(value),
+    higherIsBetter: true,
+  },
+  {
+    label: "Throughput per week",
+    value: summary => summary.throughputPerWeek,
+    format: value => value.toFixed(1),
+    higherIsBetter: true,
+  },
+  {
+    label: "Lead time P50",
+    value: summary => summary.leadTime?.percentiles[50] ?? null,
+    format: formatElapsed,
+    higherIsBetter: false,
+  },
+  {
+    label: "Lead time P85",
+    value: summary => summary.leadTime?.percentiles[85] ?? null,
+    format: formatElapsed,
+    higherIsBetter: false,
+  },
+  {
+    label: "Cycle time P85",
+    value: summary => summary.cycleTime?.percentiles[85] ?? null,
+    format: formatElapsed,
+    higherIsBetter: false,
+  },
+  {
+    label: "Team utilisation",
+    value: summary => summary.utilisation,
+    format: value => `${Math.round(value * 100)}%`,
+    higherIsBetter: true,
+  },
+];
+
+const BASELINE_COLOR = "#111827";
+
+function DeltaCell({ metric, baseline, value }: { metric: ComparedMetric; baseline: number | null; value: number | null }) {
+  if (value === null) {
+    return <td className="px-3 py-2 text-right text-muted-foreground">–</td>;
+  }
+
+  const delta = baseline === null ? 0 : value - baseline;
+  const improved = metric.higherIsBetter ? delta > 0 : delta < 0;
+  return (
+    <td className="px-3 py-2 text-right tabular-nums">
+      {metric.format(value)}
+      {baseline !== null && Math.abs(delta) > 1e-9 ? (
+        <span className={`ml-2 text-xs ${improved ? "text-emerald-600" : "text-red-600"}`}>
+          {delta > 0 ? "+" : "−"}
+          {metric.format(Math.abs(delta))}
+        </span>
+      ) : null}
+    </td>
+  );
+}
+
+function ScenarioEditor({
+  scenario,
+  onChange,
+  onRemove,
+}: {
+  scenario: Scenario;
+  onChange: (scenario: Scenario) => void;
+  onRemove: () => void;
+}) {
+  const { setup } = scenario;
+
+  const updateSetup = (changes: Partial<SimulationSetup>) =>
+    onChange({ ...scenario, setup: { ...setup, ...changes } });
+
+  const updateMember = (staffId: string, update: (member: StaffMember) => StaffMember) =>
+    updateSetup({
+      staffMembers: setup.staffMembers.map(member => (member.id === staffId ? update(member) : member)),
+    });
+
+  const handleCapacityChange = (staffId: string, rawValue: string) => {
+    updateMember(staffId, member => ({ ...member, capacity: parseCapacityPercent(rawValue) }));
+  };
+
+  const handleCapabilityToggle = (staffId: string, capabilityId: string, held: boolean) =>
+    updateMember(staffId, member => {
+      if (held) {
+        return { ...member, capabilityIds: [...member.capabilityIds, capabilityId] };
+      }
+      const proficiency = { ...member.proficiency };
+      delete proficiency[capabilityId];
+      return {
+        ...member,
+        capabilityIds: member.capabilityIds.filter(id => id !== capabilityId),
+        proficiency,
+      };
+    });
+
+  const handleDuplicateMember = (member: StaffMember) => {
+    const code = getNextStaffCode(setup.staffMembers);
+    updateSetup({
+      staffMembers: [
+        ...setup.staffMembers,
+        { ...structuredClone(member), id: generateId(), code, name: `${member.name || member.code} (copy)` },
+      ],
+    });
+  };
+
+  const handleRemoveMember = (staffId: string) =>
+    updateSetup({ staffMembers: setup.staffMembers.filter(member => member.id !== staffId) });
+
+  const handleProcessChange = (templateKey: string, process: ArrivalProcess) =>
+    updateSetup({
+      settings: { ...setup.settings, processes: { ...setup.settings.processes, [templateKey]: process } },
+    });
+
+  const renderArrivalInput = (templateKey: string) => {
+    const process = getArrivalProcess(setup.settings, templateKey);
+    switch (process.kind) {
+      case "poisson":
+        return (
+          <label className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={0}
+              step={0.5}
+              value={process.ratePerWeek}
+              onChange={event =>
+                handleProcessChange(templateKey, {
+                  ...process,
+                  ratePerWeek: parseNonNegative(event.target.value, process.ratePerWeek),
+                })
+              }
+              className="w-24"
+            />
+            per week
+          </label>
+        );
+      case "fixed":
+        return (
+          <label className="flex items-center gap-2">
+            every
+            <Input
+              type="number"
+              min={MIN_FIXED_INTERVAL_HOURS}
+              step={1}
+              value={process.intervalHours}
+              onChange={event =>
+                handleProcessChange(templateKey, {
+                  ...process,
+                  intervalHours: parseIntervalHours(event.target.value, process.intervalHours),
+                })
+              }
+              className="w-24"
+            />
+            hours
+          </label>
+        );
+      case "replay":
+        return (
+          <span className="text-muted-foreground">
+            {process.timestampsHours.length} replayed arrivals
+          </span>
+        );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <Input
+          value={scenario.name}
+          onChange={event => onChange({ ...scenario, name: event.target.value })}
+          className="max-w-xs text-lg font-semibold"
+          aria-label="Scenario name"
+        />
+        <Button type="button" variant="ghost" onClick={onRemove}>
+          Remove Scenario
+        </Button>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-6">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-100 text-xs uppercase tracking-wide text-gray-600">
+              <tr>
+                <th className="px-3 py-2 text-left">Staff</th>
+                <th className="px-3 py-2 text-left">Capacity (%)</th>
+                {setup.capabilities.map(capability => (
+                  <th key={capability.id} className="px-3 py-2 text-center">
+                    {capability.code || capability.description}
+                  </th>
+                ))}
+                <th className="px-3 py-2 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 bg-white">
+              {setup.staffMembers.map(member => (
+                <tr key={member.id}>
+                  <td className="px-3 py-2">
+                    {member.code} · {member.name}
+                  </td>
+                  <td className="px-3 py-2">
+                    <Input
+                      type="number"
+                      min={50}
+                      max={150}
+                      step={5}
+                      value={Math.round(member.capacity * 100)}
+                      onChange={event => handleCapacityChange(member.id, event.target.value)}
+                      className="w-24"
+                    />
+                  </td>
+                  {setup.capabilities.map(capability => (
+                    <td key={capability.id} className="px-3 py-2 text-center">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                        checked={member.capabilityIds.includes(capability.id)}
+                        onChange={event =>
+                          handleCapabilityToggle(member.id, capability.id, event.target.checked)
+                        }
+                        aria-label={`${member.name || member.code} holds ${capability.code}`}
+                      />
+                    </td>
+                  ))}
+                  <td className="px-3 py-2 text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button type="button" variant="outline" size="sm" onClick={() => handleDuplicateMember(member)}>
+                        Duplicate
+                      </Button>
+                      <Button type="button" variant="ghost" size="sm" onClick={() => handleRemoveMember(member.id)}>
+                        Remove
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="grid grid-cols-1 gap-3 text-sm sm:grid-cols-3">
+          {setup.templates.map(template => (
+            <div key={template.key} className="flex flex-col gap-1">
+              <span className="font-medium">{template.title} arrivals</span>
+              {renderArrivalInput(template.key)}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ScenarioComparison({
+  teamName,
+  baseline,
+  scenarios,
+  setScenarios,
+  onBack,
+}: ScenarioComparisonProps) {
+  const [outcomes, setOutcomes] = React.useState<ScenarioOutcome[] | null>(null);
+  const [comparedScenarios, setComparedScenarios] = React.useState<Scenario[] | null>(null);
+  const [progress, setProgress] = React.useState<{ completed: number; total: number } | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const workerRef = React.useRef<Worker | null>(null);
+  const isStale = outcomes !== null && comparedScenarios !== scenarios;
+  const isRunning = progress !== null;
+
+  React.useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const stopWorker = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  };
+
+  const handleAddScenario = () => {
+    setScenarios(prev => [
+      ...prev,
+      createScenario(generateId(), `Scenario ${prev.length + 1}`, baseline),
+    ]);
+  };
+
+  const handleScenarioChange = (updated: Scenario) => {
+    setScenarios(prev => prev.map(scenario => (scenario.id === updated.id ? updated : scenario)));
+  };
+
+  const handleRemoveScenario = (scenarioId: string) => {
+    setScenarios(prev => prev.filter(scenario => scenario.id !== scenarioId));
+  };
+
+  const handleCompare = () => {
+    stopWorker();
+    setError(null);
+    setProgress({ completed: 0, total: scenarios.length + 1 });
+
+    const worker = new Worker(new URL("../lib/simulation/forecast.worker.ts", import.meta.url));
+    workerRef.current = worker;
+    worker.onmessage = (event: MessageEvent<ForecastWorkerMessage>) => {
+      if (event.data.type === "progress") {
+        setProgress({ completed: event.data.completed, total: event.data.total });
+        return;
+      }
+      if (event.data.type === "comparison") {
+        setOutcomes(event.data.outcomes);
+        setComparedScenarios(scenarios);
+        stopWorker();
+      }
+    };
+    worker.onerror = event => {
+      console.error("Scenario comparison worker failed", event);
+      setError("The comparison could not be completed.");
+      stopWorker();
+    };
+    worker.postMessage({ type: "scenarios", baseline, scenarios } satisfies ForecastWorkerRequest);
+  };
+
+  const colorOf = (outcome: ScenarioOutcome, index: number) =>
+    outcome.scenarioId === BASELINE_SCENARIO_ID
+      ? BASELINE_COLOR
+      : SERIES_COLORS[(index - 1) % SERIES_COLORS.length];
+
+  const weekCount = Math.max(0, ...(outcomes ?? []).map(outcome => outcome.metrics.throughput.length));
+  const weekLabels = Array.from({ length: weekCount }, (_, index) => `W${index + 1}`);
+  const baselineSummary = outcomes?.[0]?.summary ?? null;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="mx-auto flex max-w-6xl flex-col gap-8">
+        <div>
+          <h1 className="text-3xl font-semibold text-gray-900">
+            Scenario Comparison for <span className="text-primary">{teamName}</span>
+          </h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Each scenario starts as a copy of the current team, templates and arrivals. Every run
+            uses seed {baseline.settings.seed}, so the differences come from your changes.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-3">
+          {onBack ? (
+            <Button type="button" variant="outline" onClick={onBack}>
+              Back to Work Arrival Setup
+            </Button>
+          ) : null}
+          <Button type="button" variant="secondary" onClick={handleAddScenario}>
+            Add Scenario
+          </Button>
+          {isRunning ? (
+            <Button type="button" variant="secondary" onClick={stopWorker}>
+              Cancel
+            </Button>
+          ) : (
+            <Button type="button" onClick={handleCompare}>
+              Run Comparison
+            </Button>
+          )}
+        </div>
+
+        {progress ? (
+          <div className="flex flex-col gap-1 text-sm" role="status" aria-live="polite">
+            <span>
+              Simulated {progress.completed} of {progress.total} runs&hellip;
+            </span>
+            <div className="h-2 overflow-hidden rounded bg-gray-100">
+              <div
+                className="h-full bg-primary"
+                style={{ width: `${(progress.completed / Math.max(1, progress.total)) * 100}%` }}
+              />
+            </div>
+          </div>
+        ) : null}
+
+        {error ? (
+          <div
+            className="rounded-md border border-red-200 bg-red-50 px-4 py-2 text-sm text-red-700"
+            role="status"
+            aria-live="polite"
+          >
+            {error}
+          </div>
+        ) : null}
+
+        {scenarios.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No scenarios yet. Add one to try hiring, capacity or arrival changes against the baseline.
+          </p>
+        ) : null}
+
+        {scenarios.map(scenario => (
+          <ScenarioEditor
+            key={scenario.id}
+            scenario={scenario}
+            onChange={handleScenarioChange}
+            onRemove={() => handleRemoveScenario(scenario.id)}
+          />
+        ))}
+
+        {outcomes ? (
+          <>
+            {isStale ? (
+              <div className="rounded-md border border-amber-200 bg-amber-50 px-4 py-2 text-sm text-amber-800">
+                Scenarios changed since the last comparison. Run it again to update the results.
+              </div>
+            ) : null}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-xl">Key Metrics</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Differences are against the baseline; green is better, red is worse.
+                </p>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-100 text-xs uppercase tracking-wide text-gray-600">
+                    <tr>
+                      <th className="px-3 py-2 text-left">Metric</th>
+                      {outcomes.map(outcome => (
+                        <th key={outcome.scenarioId} className="px-3 py-2 text-right">
+                          {outcome.name || "Unnamed"}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 bg-white">
+                    {COMPARED_METRICS.map(metric => {
+                      const baselineValue = baselineSummary ? metric.value(baselineSummary) : null;
+                      return (
+                        <tr key={metric.label}>
+                          <td className="px-3 py-2">{metric.label}</td>
+                          {outcomes.map((outcome, index) =>
+                            index === 0 ? (
+                              <td key={outcome.scenarioId} className="px-3 py-2 text-right tabular-nums">
+                                {baselineValue === null ? "–" : metric.format(baselineValue)}
+                              </td>
+                            ) : (
+                              <DeltaCell
+                                key={outcome.scenarioId}
+                                metric={metric}
+                                baseline={baselineValue}
+                                value={metric.value(outcome.summary)}
+                              />
+                            )
+                          )}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                {outcomes.some(outcome => outcome.summary.unstaffedTasks > 0) ? (
+                  <p className="mt-3 text-xs text-amber-700">
+                    {outcomes
+                      .filter(outcome => outcome.summary.unstaffedTasks > 0)
+                      .map(outcome => `${outcome.name}: ${outcome.summary.unstaffedTasks} tasks nobody can pick up`)
+                      .join(" · ")}
+                  </p>
+                ) : null}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-xl">Throughput per Week</CardTitle>
+                <p className="text-sm text-muted-foreground">Work items completed each week.</p>
+              </CardHeader>
+              <CardContent>
+                <LineChart
+                  ariaLabel="Weekly throughput per scenario"
+                  labels={weekLabels}
+                  series={outcomes.map((outcome, index) => ({
+                    key: outcome.scenarioId,
+                    label: outcome.name || "Unnamed",
+                    color: colorOf(outcome, index),
+                    values: outcome.metrics.throughput.map(week => week.completed),
+                    dashed: index === 0,
+                  }))}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-xl">Lead Time P85 per Template</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  85% of completed work items of the template finished within this time.
+                </p>
+              </CardHeader>
+              <CardContent>
+                <LineChart
+                  ariaLabel="Lead time P85 per template and scenario"
+                  labels={baseline.templates.map(template => template.title)}
+                  formatValue={formatElapsed}
+                  series={outcomes.map((outcome, index) => ({
+                    key: outcome.scenarioId,
+                    label: outcome.name || "Unnamed",
+                    color: colorOf(outcome, index),
+                    values: baseline.templates.map(
+                      template =>
+                        outcome.metrics.templates.find(entry => entry.templateKey === template.key)
+                          ?.leadTime?.percentiles[85] ?? 0
+                    ),
+                    dashed: index === 0,
+                  }))}
+                />
+              </CardContent>
+            </Card>
+          </>
+        ) : null}
+      </div>
+    </div>
+  );
+}
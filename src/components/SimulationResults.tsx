@@ -0,0 +1,342 @@
+"use client";
+
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import BarChart, { SERIES_COLORS } from "@/components/BarChart";
+import CumulativeFlowChart from "@/components/CumulativeFlowChart";
+import type { Capability, StaffMember } from "@/lib/teamSetup";
+import type { WorkflowTemplate } from "@/lib/workflowTemplates";
+import { formatElapsed } from "@/lib/duration";
+import { toFileNameBase } from "@/lib/download";
+import type { ArrivalSettings } from "@/lib/simulation/arrivals";
+import { buildCumulativeFlow } from "@/lib/simulation/cumulativeFlow";
+import type { SimulationResult } from "@/lib/simulation/engine";
+import {
+  buildHistogram,
+  computeSimulationMetrics,
+  REPORTED_PERCENTILES,
+  type DurationStats,
+  type UtilisationEntry,
+} from "@/lib/simulation/metrics";
+import { ASSIGNMENT_POLICIES } from "@/lib/simulation/policies";
+
+interface SimulationResultsProps {
+  teamName: string;
+  teamCode?: string;
+  result: SimulationResult;
+  templates: WorkflowTemplate[];
+  capabilities: Capability[];
+  staffMembers: StaffMember[];
+  settings: ArrivalSettings;
+  onBack?: () => void;
+  onRerun?: () => void;
+}
+
+function formatPercent(value: number | null) {
+  return value === null ? "–" : `${Math.round(value * 100)}%`;
+}
+
+function DurationCells({ stats }: { stats: DurationStats | null }) {
+  return (
+    <>
+      {REPORTED_PERCENTILES.map(p => (
+        <td key={p} className="px-3 py-2 text-right tabular-nums">
+          {stats ? formatElapsed(stats.percentiles[p]) : "–"}
+        </td>
+      ))}
+    </>
+  );
+}
+
+function UtilisationBars({ entries }: { entries: UtilisationEntry[] }) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nothing to show.</p>;
+  }
+
+  return (
+    <ul className="flex flex-col gap-2">
+      {entries.map(entry => (
+        <li key={entry.id} className="grid grid-cols-[8rem_1fr_3rem] items-center gap-2 text-sm">
+          <span className="truncate" title={entry.label}>
+            {entry.label || "Unnamed"}
+          </span>
+          <div
+            className="h-3 overflow-hidden rounded bg-gray-100"
+            title={`${formatElapsed(entry.busy)} busy of ${formatElapsed(entry.available)} available`}
+          >
+            <div
+              className={`h-full ${(entry.utilisation ?? 0) > 0.85 ? "bg-red-500" : "bg-primary"}`}
+              style={{ width: `${Math.min(100, (entry.utilisation ?? 0) * 100)}%` }}
+            />
+          </div>
+          <span className="text-right tabular-nums">{formatPercent(entry.utilisation)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function SimulationResults({
+  teamName,
+  teamCode,
+  result,
+  templates,
+  capabilities,
+  staffMembers,
+  settings,
+  onBack,
+  onRerun,
+}: SimulationResultsProps) {
+  const metrics = React.useMemo(
+    () => computeSimulationMetrics(result, { templates, capabilities, staffMembers }),
+    [capabilities, result, staffMembers, templates]
+  );
+  const cumulativeFlow = React.useMemo(
+    () => buildCumulativeFlow(result, capabilities),
+    [capabilities, result]
+  );
+  const colorByTemplate = new Map(
+    templates.map((template, index) => [template.key, SERIES_COLORS[index % SERIES_COLORS.length]])
+  );
+  const arrived = result.workItems.length;
+  const completed = metrics.templates.reduce((total, entry) => total + entry.completed, 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="mx-auto flex max-w-6xl flex-col gap-8">
+        <div>
+          <h1 className="text-3xl font-semibold text-gray-900">
+            Simulation Results for <span className="text-primary">{teamName}</span>
+          </h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Seed {settings.seed} · {settings.horizonDays} days from {settings.startDate} ·{" "}
+            {ASSIGNMENT_POLICIES[settings.assignmentPolicy].label} · {completed} of {arrived} work
+            items completed
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-3">
+          {onBack ? (
+            <Button type="button" variant="outline" onClick={onBack}>
+              Back to Work Arrival Setup
+            </Button>
+          ) : null}
+          {onRerun ? (
+            <Button type="button" variant="secondary" onClick={onRerun}>
+              Run Again with a New Seed
+            </Button>
+          ) : null}
+        </div>
+
+        {result.unstaffedTaskIds.length > 0 ? (
+          <div className="rounded-md border border-amber-200 bg-amber-50 px-4 py-2 text-sm text-amber-800">
+            {result.unstaffedTaskIds.length} tasks could not be picked up because nobody holds their
+            capability.
+          </div>
+        ) : null}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Throughput per Week</CardTitle>
+            <p className="text-sm text-muted-foreground">Work items completed each week, by template.</p>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-3">
+            <BarChart
+              ariaLabel="Work items completed per week"
+              bars={metrics.throughput.map(week => ({
+                label: `W${week.week}`,
+                segments: templates.map(template => ({
+                  key: template.key,
+                  value: week.byTemplate[template.key] ?? 0,
+                  color: colorByTemplate.get(template.key) ?? SERIES_COLORS[0],
+                  label: template.title,
+                })),
+              }))}
+            />
+            <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+              {templates.map(template => (
+                <span key={template.key} className="flex items-center gap-1">
+                  <span
+                    className="inline-block h-3 w-3 rounded-sm"
+                    style={{ backgroundColor: colorByTemplate.get(template.key) }}
+                  />
+                  {template.title}
+                </span>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Cumulative Flow</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Tasks queued and in progress in each capability column, and tasks done, over simulated
+              time. Hover for the counts at a point in time.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <CumulativeFlowChart
+              flow={cumulativeFlow}
+              startDate={settings.startDate}
+              fileNameBase={toFileNameBase(teamCode, teamName)}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Cycle and Lead Time</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Cycle time runs from the first task starting to the last finishing; lead time from
+              arrival to completion. Only completed work items count.
+            </p>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-6">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-100 text-xs uppercase tracking-wide text-gray-600">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Template</th>
+                    <th className="px-3 py-2 text-right">Done</th>
+                    {REPORTED_PERCENTILES.map(p => (
+                      <th key={`cycle-${p}`} className="px-3 py-2 text-right">
+                        Cycle P{p}
+                      </th>
+                    ))}
+                    {REPORTED_PERCENTILES.map(p => (
+                      <th key={`lead-${p}`} className="px-3 py-2 text-right">
+                        Lead P{p}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 bg-white">
+                  {metrics.templates.map(entry => (
+                    <tr key={entry.templateKey}>
+                      <td className="px-3 py-2">{entry.title}</td>
+                      <td className="px-3 py-2 text-right tabular-nums">
+                        {entry.completed}/{entry.arrived}
+                      </td>
+                      <DurationCells stats={entry.cycleTime} />
+                      <DurationCells stats={entry.leadTime} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
+              {metrics.templates.map(entry => (
+                <div key={entry.templateKey} className="flex flex-col gap-1">
+                  <span className="text-sm font-medium">{entry.title} cycle time</span>
+                  {entry.cycleTimes.length > 0 ? (
+                    <BarChart
+                      ariaLabel={`${entry.title} cycle time distribution`}
+                      height={140}
+                      bars={buildHistogram(entry.cycleTimes).map(bin => ({
+                        label: formatElapsed(bin.start),
+                        segments: [
+                          {
+                            key: "count",
+                            value: bin.count,
+                            color: colorByTemplate.get(entry.templateKey) ?? SERIES_COLORS[0],
+                            label: `${formatElapsed(bin.start)}–${formatElapsed(bin.end)}`,
+                          },
+                        ],
+                      }))}
+                    />
+                  ) : (
+                    <p className="text-xs text-muted-foreground">No completed work items.</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Queue Time vs. Touch Time</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Average lead time of a completed work item split into time someone worked on it and
+              time it waited, off-hours included.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <ul className="flex flex-col gap-3">
+              {metrics.templates.map(entry => {
+                const total = entry.averageTouchTime + entry.averageQueueTime;
+                const touchShare = total > 0 ? entry.averageTouchTime / total : 0;
+                return (
+                  <li key={entry.templateKey} className="flex flex-col gap-1 text-sm">
+                    <div className="flex justify-between">
+                      <span>{entry.title}</span>
+                      <span className="text-muted-foreground">
+                        {entry.completed > 0
+                          ? `touch ${formatElapsed(entry.averageTouchTime)} · queue ${formatElapsed(entry.averageQueueTime)} · flow efficiency ${formatPercent(touchShare)}`
+                          : "no completed work items"}
+                      </span>
+                    </div>
+                    <div className="flex h-3 overflow-hidden rounded bg-gray-100">
+                      <div className="h-full bg-emerald-500" style={{ width: `${touchShare * 100}%` }} />
+                      <div
+                        className="h-full bg-amber-300"
+                        style={{ width: `${total > 0 ? (1 - touchShare) * 100 : 0}%` }}
+                      />
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-xl">Utilisation per Staff Member</CardTitle>
+              <p className="text-sm text-muted-foreground">Busy share of each person&rsquo;s working hours.</p>
+            </CardHeader>
+            <CardContent>
+              <UtilisationBars entries={metrics.staff} />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-xl">Utilisation per Capability</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Work done with each capability against the working hours of everyone holding it.
+              </p>
+            </CardHeader>
+            <CardContent className="flex flex-col gap-4">
+              <UtilisationBars entries={metrics.capabilities} />
+              <table className="min-w-full text-sm">
+                <thead className="text-xs uppercase tracking-wide text-gray-600">
+                  <tr>
+                    <th className="py-1 text-left">Queue</th>
+                    <th className="py-1 text-right">Average</th>
+                    <th className="py-1 text-right">Peak</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {capabilities.map(capability => (
+                    <tr key={capability.id}>
+                      <td className="py-1">{capability.code || capability.description}</td>
+                      <td className="py-1 text-right tabular-nums">
+                        {(result.queueLengths[capability.id]?.average ?? 0).toFixed(1)}
+                      </td>
+                      <td className="py-1 text-right tabular-nums">
+                        {result.queueLengths[capability.id]?.max ?? 0}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
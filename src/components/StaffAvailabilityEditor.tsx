@@ -0,0 +1,208 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { generateId } from "@/lib/ids";
+import type { LeavePeriod, StaffAvailability, WorkingHours } from "@/lib/teamSetup";
+
+interface StaffAvailabilityEditorProps {
+  availability: StaffAvailability;
+  onChange: (availability: StaffAvailability) => void;
+  memberLabel: string;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+/** Show the working week Monday first, as most teams plan it. */
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+function getTimeZones(): string[] {
+  try {
+    return Intl.supportedValuesOf("timeZone");
+  } catch {
+    return ["UTC"];
+  }
+}
+
+function toTimeValue(minutes: number) {
+  const clamped = Math.min(minutes, 24 * 60 - 1);
+  return `${String(Math.floor(clamped / 60)).padStart(2, "0")}:${String(clamped % 60).padStart(2, "0")}`;
+}
+
+function fromTimeValue(value: string): number | null {
+  const match = /^(\d{2}):(\d{2})$/.exec(value);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+function describeAvailability(availability: StaffAvailability) {
+  const workingMinutes = availability.weeklyHours.reduce(
+    (total, hours) => total + (hours ? hours.end - hours.start : 0),
+    0
+  );
+  const workingDays = availability.weeklyHours.filter(Boolean).length;
+  const leave = availability.leave.length
+    ? ` · ${availability.leave.length} leave period${availability.leave.length === 1 ? "" : "s"}`
+    : "";
+  return `${workingDays} days · ${Math.round((workingMinutes / 60) * 10) / 10}h/week · ${availability.timeZone}${leave}`;
+}
+
+export default function StaffAvailabilityEditor({
+  availability,
+  onChange,
+  memberLabel,
+}: StaffAvailabilityEditorProps) {
+  const timeZones = React.useMemo(() => {
+    const zones = getTimeZones();
+    return zones.includes(availability.timeZone) ? zones : [availability.timeZone, ...zones];
+  }, [availability.timeZone]);
+
+  const updateDay = (day: number, hours: WorkingHours | null) => {
+    onChange({
+      ...availability,
+      weeklyHours: availability.weeklyHours.map((current, index) => (index === day ? hours : current)),
+    });
+  };
+
+  const handleTimeChange = (day: number, key: keyof WorkingHours, value: string) => {
+    const minutes = fromTimeValue(value);
+    const current = availability.weeklyHours[day];
+    if (minutes === null || !current) {
+      return;
+    }
+
+    const next = { ...current, [key]: minutes };
+    if (next.start < next.end) {
+      updateDay(day, next);
+    }
+  };
+
+  const updateLeave = (leaveId: string, key: keyof Omit<LeavePeriod, "id">, value: string) => {
+    onChange({
+      ...availability,
+      leave: availability.leave.map(period =>
+        period.id === leaveId ? { ...period, [key]: value } : period
+      ),
+    });
+  };
+
+  const handleAddLeave = () => {
+    const today = new Date().toISOString().slice(0, 10);
+    onChange({
+      ...availability,
+      leave: [...availability.leave, { id: generateId(), start: today, end: today }],
+    });
+  };
+
+  const handleDeleteLeave = (leaveId: string) => {
+    onChange({
+      ...availability,
+      leave: availability.leave.filter(period => period.id !== leaveId),
+    });
+  };
+
+  return (
+    <details className="min-w-48 text-sm">
+      <summary className="cursor-pointer py-2 text-gray-700">{describeAvailability(availability)}</summary>
+      <div className="mt-1 flex flex-col gap-3 rounded-md border bg-white p-3">
+        <div>
+          <label className="text-xs font-medium">Time zone</label>
+          <select
+            className="mt-1 w-full rounded-md border border-input bg-background px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            value={availability.timeZone}
+            onChange={event => onChange({ ...availability, timeZone: event.target.value })}
+            aria-label={`${memberLabel} time zone`}
+          >
+            {timeZones.map(zone => (
+              <option key={zone} value={zone}>
+                {zone}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <span className="text-xs font-medium">Working hours</span>
+          {WEEKDAY_ORDER.map(day => {
+            const hours = availability.weeklyHours[day];
+            return (
+              <div key={day} className="flex items-center gap-2">
+                <label className="flex w-16 items-center gap-1 text-xs">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                    checked={hours !== null}
+                    onChange={() => updateDay(day, hours ? null : { start: 9 * 60, end: 17 * 60 })}
+                  />
+                  {WEEKDAYS[day]}
+                </label>
+                {hours ? (
+                  <>
+                    <Input
+                      type="time"
+                      className="h-8"
+                      value={toTimeValue(hours.start)}
+                      onChange={event => handleTimeChange(day, "start", event.target.value)}
+                      aria-label={`${memberLabel} ${WEEKDAYS[day]} start`}
+                    />
+                    <span className="text-xs text-muted-foreground">to</span>
+                    <Input
+                      type="time"
+                      className="h-8"
+                      value={toTimeValue(hours.end)}
+                      onChange={event => handleTimeChange(day, "end", event.target.value)}
+                      aria-label={`${memberLabel} ${WEEKDAYS[day]} end`}
+                    />
+                  </>
+                ) : (
+                  <span className="text-xs text-muted-foreground">Day off</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium">Planned leave</span>
+            <Button type="button" variant="outline" size="sm" onClick={handleAddLeave}>
+              Add Leave
+            </Button>
+          </div>
+          {availability.leave.length === 0 ? (
+            <span className="text-xs text-muted-foreground">No leave planned.</span>
+          ) : (
+            availability.leave.map(period => (
+              <div key={period.id} className="flex items-center gap-2">
+                <Input
+                  type="date"
+                  className="h-8"
+                  value={period.start}
+                  onChange={event => updateLeave(period.id, "start", event.target.value)}
+                  aria-label={`${memberLabel} leave start`}
+                />
+                <span className="text-xs text-muted-foreground">to</span>
+                <Input
+                  type="date"
+                  className="h-8"
+                  value={period.end}
+                  min={period.start}
+                  onChange={event => updateLeave(period.id, "end", event.target.value)}
+                  aria-label={`${memberLabel} leave end`}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="text-destructive"
+                  onClick={() => handleDeleteLeave(period.id)}
+                >
+                  Remove
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,232 @@
+"use client";
+
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import type { TeamSetupData } from "@/lib/teamSetup";
+import {
+  applyTeamMerge,
+  countUnresolved,
+  createMergeChoices,
+  diffTeams,
+  MERGE_STATUS_LABELS,
+  type MergeChoice,
+  type MergeChoices,
+  type MergeRow,
+  type MergeStatus,
+} from "@/lib/teamMerge";
+
+interface TeamMergePanelProps {
+  fileName: string;
+  current: TeamSetupData;
+  incoming: TeamSetupData;
+  onApply: (team: TeamSetupData) => void;
+  onCancel: () => void;
+}
+
+const STATUS_TONES: Record<MergeStatus, string> = {
+  added: "bg-emerald-100 text-emerald-800",
+  changed: "bg-sky-100 text-sky-800",
+  removed: "bg-gray-200 text-gray-700",
+  conflict: "bg-red-100 text-red-800",
+  unchanged: "bg-gray-100 text-gray-500",
+};
+
+/** Wording of the two choices, which reads differently for rows only one side has. */
+function choiceLabels(status: MergeStatus): Record<MergeChoice, string> {
+  if (status === "added") return { current: "Skip", incoming: "Add" };
+  if (status === "removed") return { current: "Keep", incoming: "Remove" };
+  return { current: "Keep current", incoming: "Use file" };
+}
+
+const UNRESOLVED_VALUE = "";
+
+function MergeTable<T>({
+  title,
+  rows,
+  choices,
+  showUnchanged,
+  onChoose,
+}: {
+  title: string;
+  rows: MergeRow<T>[];
+  choices: MergeChoices;
+  showUnchanged: boolean;
+  onChoose: (key: string, choice: MergeChoice) => void;
+}) {
+  const visibleRows = showUnchanged ? rows : rows.filter(row => row.status !== "unchanged");
+
+  return (
+    <div className="flex flex-col gap-2">
+      <h3 className="text-sm font-semibold text-gray-900">{title}</h3>
+      {visibleRows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No differences.</p>
+      ) : (
+        <div className="overflow-x-auto rounded-md border">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-100 text-xs uppercase tracking-wide text-gray-600">
+              <tr>
+                <th className="px-3 py-2 text-left">Code</th>
+                <th className="px-3 py-2 text-left">Status</th>
+                <th className="px-3 py-2 text-left">Differences</th>
+                <th className="px-3 py-2 text-left">Resolution</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 bg-white">
+              {visibleRows.map(row => {
+                const labels = choiceLabels(row.status);
+                const choice = choices[row.key];
+                return (
+                  <tr key={row.key} className={row.status === "conflict" && !choice ? "bg-red-50" : undefined}>
+                    <td className="px-3 py-2 font-medium">{row.code || "(no code)"}</td>
+                    <td className="px-3 py-2">
+                      <span className={`rounded px-2 py-0.5 text-xs font-medium ${STATUS_TONES[row.status]}`}>
+                        {MERGE_STATUS_LABELS[row.status]}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2">
+                      {row.changes.length > 0 ? (
+                        <ul className="flex flex-col gap-1">
+                          {row.changes.map(change => (
+                            <li key={change.field}>
+                              <span className="font-medium">{change.field}:</span>{" "}
+                              <span className="text-gray-600 line-through decoration-gray-400">
+                                {change.current || "blank"}
+                              </span>{" "}
+                              &rarr; {change.incoming || "blank"}
+                            </li>
+                          ))}
+                        </ul>
+                      ) : row.status === "added" ? (
+                        <span className="text-muted-foreground">Only in the file</span>
+                      ) : row.status === "removed" ? (
+                        <span className="text-muted-foreground">Not in the file</span>
+                      ) : (
+                        <span className="text-muted-foreground">&ndash;</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      {row.status === "unchanged" ? (
+                        <span className="text-muted-foreground">&ndash;</span>
+                      ) : (
+                        <select
+                          className="rounded-md border border-input bg-background px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                          value={choice ?? UNRESOLVED_VALUE}
+                          onChange={event => onChoose(row.key, event.target.value as MergeChoice)}
+                          aria-label={`Resolution for ${row.code || "record without code"}`}
+                        >
+                          {choice ? null : (
+                            <option value={UNRESOLVED_VALUE} disabled>
+                              Choose&hellip;
+                            </option>
+                          )}
+                          <option value="current">{labels.current}</option>
+                          <option value="incoming">{labels.incoming}</option>
+                        </select>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function TeamMergePanel({ fileName, current, incoming, onApply, onCancel }: TeamMergePanelProps) {
+  const diff = React.useMemo(() => diffTeams(current, incoming), [current, incoming]);
+  const [choices, setChoices] = React.useState<MergeChoices>(() => createMergeChoices(diff));
+  const [showUnchanged, setShowUnchanged] = React.useState(false);
+
+  const rows = [...diff.capabilities, ...diff.staffMembers];
+  const unresolved = countUnresolved(diff, choices);
+  const counts = rows.reduce<Partial<Record<MergeStatus, number>>>(
+    (total, row) => ({ ...total, [row.status]: (total[row.status] ?? 0) + 1 }),
+    {}
+  );
+
+  const handleChoose = (key: string, choice: MergeChoice) => {
+    setChoices(prev => ({ ...prev, [key]: choice }));
+  };
+
+  const resolveConflicts = (choice: MergeChoice) => {
+    setChoices(prev => ({
+      ...prev,
+      ...Object.fromEntries(rows.filter(row => row.status === "conflict").map(row => [row.key, choice])),
+    }));
+  };
+
+  return (
+    <Card className="border-primary/40">
+      <CardHeader>
+        <CardTitle className="text-lg">Merge {fileName} into the current team</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Capabilities and staff are matched by code.{" "}
+          {(Object.keys(MERGE_STATUS_LABELS) as MergeStatus[])
+            .filter(status => counts[status])
+            .map(status => `${counts[status]} ${MERGE_STATUS_LABELS[status].toLowerCase()}`)
+            .join(", ")}
+          . A conflict is a code both sides created separately; choose which version to keep.
+          Public holidays from the file are added where the date is new.
+        </p>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-6">
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+            checked={showUnchanged}
+            onChange={event => setShowUnchanged(event.target.checked)}
+          />
+          Show unchanged rows
+        </label>
+
+        <MergeTable
+          title="Capabilities"
+          rows={diff.capabilities}
+          choices={choices}
+          showUnchanged={showUnchanged}
+          onChoose={handleChoose}
+        />
+        <MergeTable
+          title="Staff"
+          rows={diff.staffMembers}
+          choices={choices}
+          showUnchanged={showUnchanged}
+          onChoose={handleChoose}
+        />
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Button
+            type="button"
+            onClick={() => onApply(applyTeamMerge(current, incoming, diff, choices))}
+            disabled={unresolved > 0}
+          >
+            Apply Merge
+          </Button>
+          {counts.conflict ? (
+            <>
+              <Button type="button" variant="outline" onClick={() => resolveConflicts("current")}>
+                Keep Current for All Conflicts
+              </Button>
+              <Button type="button" variant="outline" onClick={() => resolveConflicts("incoming")}>
+                Use File for All Conflicts
+              </Button>
+            </>
+          ) : null}
+          <Button type="button" variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+          {unresolved > 0 ? (
+            <span className="text-sm text-red-700">
+              {unresolved} {unresolved === 1 ? "conflict needs" : "conflicts need"} a resolution.
+            </span>
+          ) : null}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
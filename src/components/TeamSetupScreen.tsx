@@ -4,25 +4,32 @@ import React from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-
-export type Capability = {
-  id: string;
-  code: string;
-  description: string;
-};
-
-export type StaffMember = {
-  id: string;
-  code: string;
-  name: string;
-  capacity: number;
-  capabilityIds: string[];
-};
-
-export type TeamSetupData = {
-  capabilities: Capability[];
-  staffMembers: StaffMember[];
-};
+import ValidationChecklist from "@/components/ValidationChecklist";
+import StaffAvailabilityEditor from "@/components/StaffAvailabilityEditor";
+import LoadReportPanel from "@/components/LoadReportPanel";
+import TeamMergePanel from "@/components/TeamMergePanel";
+import { computeCapabilityCoverage, countSoleHoldings } from "@/lib/coverage";
+import { parseCsv, toCsv } from "@/lib/csv";
+import { type LoadFix, loadTeamSetupFile } from "@/lib/setupFileSchema";
+import { downloadFile } from "@/lib/download";
+import { generateId } from "@/lib/ids";
+import { getProficiency, PROFICIENCY_LEVELS, type ProficiencyLevel } from "@/lib/proficiency";
+import { buildSetupSheets, rowsToTeam, teamToRows } from "@/lib/setupSpreadsheets";
+import { buildXlsx, XLSX_MIME_TYPE } from "@/lib/xlsx";
+import type { ValidationIssue } from "@/lib/validation";
+import type { WorkflowTemplate } from "@/lib/workflowTemplates";
+import {
+  type Capability,
+  createDefaultAvailability,
+  getNextStaffCode,
+  normalizeWipLimit,
+  parseCapacityPercent,
+  type PublicHoliday,
+  type StaffAvailability,
+  type StaffMember,
+  type TeamSetupData,
+} from "@/lib/teamSetup";
+import { teamSetupStorageKey } from "@/lib/teamStorage";
 
 interface TeamSetupScreenProps {
   teamName: string;
@@ -31,67 +38,25 @@ interface TeamSetupScreenProps {
   setCapabilities: React.Dispatch<React.SetStateAction<Capability[]>>;
   staffMembers: StaffMember[];
   setStaffMembers: React.Dispatch<React.SetStateAction<StaffMember[]>>;
+  holidays: PublicHoliday[];
+  setHolidays: React.Dispatch<React.SetStateAction<PublicHoliday[]>>;
+  /** Used to flag thinly covered capabilities that workflow templates depend on. */
+  templates?: WorkflowTemplate[];
+  validationIssues?: ValidationIssue[];
   onContinue?: () => void;
+  onSaveProject?: () => void;
 }
 
-function generateId() {
-  return Math.random().toString(36).slice(2, 10);
+/** Heatmap colour for a capability held by `busFactor` people. */
+function coverageTone(busFactor: number) {
+  if (busFactor === 0) return "bg-red-100 text-red-800";
+  if (busFactor === 1) return "bg-amber-100 text-amber-800";
+  if (busFactor === 2) return "bg-yellow-50 text-yellow-800";
+  return "bg-emerald-100 text-emerald-800";
 }
 
-export function normalizeTeamSetupData(raw: unknown): TeamSetupData | null {
-  if (!raw || typeof raw !== "object") {
-    return null;
-  }
-
-  const maybeData = raw as Partial<TeamSetupData> & {
-    capabilities?: unknown;
-    staffMembers?: unknown;
-  };
-
-  if (!Array.isArray(maybeData.capabilities) || !Array.isArray(maybeData.staffMembers)) {
-    return null;
-  }
-
-  const capabilities: Capability[] = maybeData.capabilities.map(rawCapability => {
-    const capability = rawCapability as Partial<Capability> | undefined;
-    const id = capability?.id && typeof capability.id === "string" && capability.id.trim()
-      ? capability.id.trim()
-      : generateId();
-    return {
-      id,
-      code: typeof capability?.code === "string" ? capability.code : "",
-      description: typeof capability?.description === "string" ? capability.description : "",
-    } as Capability;
-  });
-
-  const validCapabilityIds = new Set(capabilities.map(capability => capability.id));
-
-  const staffMembers: StaffMember[] = maybeData.staffMembers.map(rawMember => {
-    const member = rawMember as Partial<StaffMember> | undefined;
-    const id = member?.id && typeof member.id === "string" && member.id.trim()
-      ? member.id.trim()
-      : generateId();
-
-    const rawCapacity =
-      typeof member?.capacity === "number" && Number.isFinite(member.capacity)
-        ? member.capacity
-        : 1;
-    const normalizedCapacity = Math.min(Math.max(rawCapacity, 0.5), 1.5);
-
-    return {
-      id,
-      code: typeof member?.code === "string" ? member.code : "",
-      name: typeof member?.name === "string" ? member.name : "",
-      capacity: normalizedCapacity,
-      capabilityIds: Array.isArray(member?.capabilityIds)
-        ? member.capabilityIds.filter(
-            capabilityId => typeof capabilityId === "string" && validCapabilityIds.has(capabilityId)
-          )
-        : [],
-    } as StaffMember;
-  });
-
-  return { capabilities, staffMembers } as TeamSetupData;
+function formatCapacity(capacity: number) {
+  return (Math.round(capacity * 100) / 100).toString();
 }
 
 export default function TeamSetupScreen({
@@ -101,13 +66,32 @@ export default function TeamSetupScreen({
   setCapabilities,
   staffMembers,
   setStaffMembers,
+  holidays,
+  setHolidays,
+  templates = [],
+  validationIssues = [],
   onContinue,
+  onSaveProject,
 }: TeamSetupScreenProps) {
   const [feedback, setFeedback] = React.useState<
-    | { type: "success" | "error"; message: string }
+    | { type: "success" | "warning" | "error"; message: string; details?: string[] }
     | null
   >(null);
+  const [pendingLoad, setPendingLoad] = React.useState<
+    { fileName: string; team: TeamSetupData; fixes: LoadFix[]; merging: boolean } | null
+  >(null);
+  const [showChecklist, setShowChecklist] = React.useState(false);
+  const blockingIssues = validationIssues.filter(issue => issue.scope === "team");
+  const coverage = computeCapabilityCoverage(capabilities, staffMembers, templates);
+  const soleHoldingsByMember = new Map(
+    staffMembers.map(member => [member.id, countSoleHoldings(member, coverage)])
+  );
+  const thinCapabilities = capabilities.filter((capability, index) => {
+    const entry = coverage[index];
+    return entry.usedByTemplates && entry.busFactor <= 1;
+  });
   const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const csvInputRef = React.useRef<HTMLInputElement>(null);
 
   const sanitizedTeamCode = React.useMemo(() => {
     const base = teamCode?.trim() || teamName?.trim() || "team";
@@ -125,14 +109,15 @@ export default function TeamSetupScreen({
         teamName,
         capabilities,
         staffMembers,
+        holidays,
         savedAt: new Date().toISOString(),
       },
       null,
       2
     );
 
-    window.localStorage.setItem(`team-setup-${teamCode}`, payload);
-  }, [capabilities, staffMembers, teamCode, teamName]);
+    window.localStorage.setItem(teamSetupStorageKey(teamCode), payload);
+  }, [capabilities, holidays, staffMembers, teamCode, teamName]);
 
   const getNextCapabilityCode = React.useCallback(() => {
     const numericValues = capabilities
@@ -142,14 +127,6 @@ export default function TeamSetupScreen({
     return `C${nextNumber}`;
   }, [capabilities]);
 
-  const getNextStaffCode = React.useCallback(() => {
-    const numericValues = staffMembers
-      .map(member => parseInt(member.code.replace(/\D/g, ""), 10))
-      .filter(num => !Number.isNaN(num));
-    const nextNumber = numericValues.length ? Math.max(...numericValues) + 1 : 1;
-    return `S${nextNumber}`;
-  }, [staffMembers]);
-
   const handleCapabilityChange = (
     capabilityId: string,
     key: keyof Pick<Capability, "code" | "description">,
@@ -160,13 +137,24 @@ export default function TeamSetupScreen({
     );
   };
 
+  const handleCapabilityWipLimitChange = (capabilityId: string, rawValue: string) => {
+    setCapabilities(prev =>
+      prev.map(cap => (cap.id === capabilityId ? { ...cap, wipLimit: normalizeWipLimit(rawValue) } : cap))
+    );
+  };
+
   const handleDeleteCapability = (capabilityId: string) => {
     setCapabilities(prev => prev.filter(cap => cap.id !== capabilityId));
     setStaffMembers(prev =>
-      prev.map(member => ({
-        ...member,
-        capabilityIds: member.capabilityIds.filter(id => id !== capabilityId),
-      }))
+      prev.map(member => {
+        const proficiency = { ...member.proficiency };
+        delete proficiency[capabilityId];
+        return {
+          ...member,
+          capabilityIds: member.capabilityIds.filter(id => id !== capabilityId),
+          proficiency,
+        };
+      })
     );
   };
 
@@ -176,6 +164,7 @@ export default function TeamSetupScreen({
       id: generateId(),
       code: nextCode,
       description: `Capability ${nextCode.replace(/\D/g, "") || ""}`.trim(),
+      wipLimit: null,
     };
     setCapabilities(prev => [...prev, newCapability]);
   };
@@ -195,53 +184,84 @@ export default function TeamSetupScreen({
   };
 
   const handleAddStaffMember = () => {
-    const nextCode = getNextStaffCode();
+    const nextCode = getNextStaffCode(staffMembers);
     const newMember: StaffMember = {
       id: generateId(),
       code: nextCode,
       name: `Staff ${nextCode.replace(/\D/g, "") || ""}`.trim(),
       capacity: 1,
       capabilityIds: [],
+      proficiency: {},
+      wipLimit: null,
+      availability: createDefaultAvailability(),
     };
     setStaffMembers(prev => [...prev, newMember]);
   };
 
-  const handleStaffCapacityChange = (staffId: string, rawValue: string) => {
-    const numericValue = Number(rawValue);
+  const handleStaffWipLimitChange = (staffId: string, rawValue: string) => {
+    setStaffMembers(prev =>
+      prev.map(member =>
+        member.id === staffId ? { ...member, wipLimit: normalizeWipLimit(rawValue) } : member
+      )
+    );
+  };
 
+  const handleStaffCapacityChange = (staffId: string, rawValue: string) => {
     setStaffMembers(prev =>
-      prev.map(member => {
-        if (member.id !== staffId) {
-          return member;
-        }
+      prev.map(member => (member.id === staffId ? { ...member, capacity: parseCapacityPercent(rawValue) } : member))
+    );
+  };
 
-        if (rawValue.trim() === "") {
-          return { ...member, capacity: 1 };
-        }
+  const handleStaffAvailabilityChange = (staffId: string, availability: StaffAvailability) => {
+    setStaffMembers(prev =>
+      prev.map(member => (member.id === staffId ? { ...member, availability } : member))
+    );
+  };
 
-        if (Number.isNaN(numericValue)) {
-          return { ...member, capacity: 1 };
-        }
+  const handleAddHoliday = () => {
+    setHolidays(prev => [
+      ...prev,
+      { id: generateId(), date: new Date().toISOString().slice(0, 10), name: "" },
+    ]);
+  };
 
-        const normalized = Math.min(Math.max(numericValue / 100, 0.5), 1.5);
-        return {
-          ...member,
-          capacity: Math.round(normalized * 100) / 100,
-        };
-      })
+  const handleHolidayChange = (
+    holidayId: string,
+    key: keyof Pick<PublicHoliday, "date" | "name">,
+    value: string
+  ) => {
+    setHolidays(prev =>
+      prev.map(holiday => (holiday.id === holidayId ? { ...holiday, [key]: value } : holiday))
     );
   };
 
-  const toggleStaffCapability = (staffId: string, capabilityId: string) => {
+  const handleDeleteHoliday = (holidayId: string) => {
+    setHolidays(prev => prev.filter(holiday => holiday.id !== holidayId));
+  };
+
+  const setStaffCapabilityLevel = (
+    staffId: string,
+    capabilityId: string,
+    level: ProficiencyLevel | null
+  ) => {
     setStaffMembers(prev =>
       prev.map(member => {
         if (member.id !== staffId) return member;
-        const hasCapability = member.capabilityIds.includes(capabilityId);
+        if (level) {
+          return {
+            ...member,
+            capabilityIds: member.capabilityIds.includes(capabilityId)
+              ? member.capabilityIds
+              : [...member.capabilityIds, capabilityId],
+            proficiency: { ...member.proficiency, [capabilityId]: level },
+          };
+        }
+        const proficiency = { ...member.proficiency };
+        delete proficiency[capabilityId];
         return {
           ...member,
-          capabilityIds: hasCapability
-            ? member.capabilityIds.filter(id => id !== capabilityId)
-            : [...member.capabilityIds, capabilityId],
+          capabilityIds: member.capabilityIds.filter(id => id !== capabilityId),
+          proficiency,
         };
       })
     );
@@ -254,20 +274,12 @@ export default function TeamSetupScreen({
         teamName,
         capabilities,
         staffMembers,
+        holidays,
         savedAt: new Date().toISOString(),
       };
 
       const fileName = `${sanitizedTeamCode || "team"}_Team_Setup.json`;
-      const blob = new Blob([JSON.stringify(payload, null, 2)], {
-        type: "application/json",
-      });
-      const link = document.createElement("a");
-      link.href = URL.createObjectURL(blob);
-      link.download = fileName;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(link.href);
+      downloadFile(fileName, JSON.stringify(payload, null, 2), "application/json");
 
       setFeedback({ type: "success", message: `Team setup saved as ${fileName}.` });
     } catch (error) {
@@ -290,30 +302,104 @@ export default function TeamSetupScreen({
 
     const reader = new FileReader();
     reader.onload = () => {
-      try {
-        const parsed = JSON.parse(String(reader.result));
-        const normalized = normalizeTeamSetupData(parsed);
-
-        if (!normalized) {
-          throw new Error("Invalid team setup file structure");
-        }
-
-        setCapabilities(normalized.capabilities);
-        setStaffMembers(normalized.staffMembers);
-        setFeedback({ type: "success", message: `Team setup loaded from ${file.name}.` });
-      } catch (error) {
-        console.error("Failed to load team setup", error);
+      const result = loadTeamSetupFile(String(reader.result));
+      if (!result.ok) {
+        setPendingLoad(null);
         setFeedback({
           type: "error",
-          message: "Unable to load the selected team setup file.",
+          message: `${file.name} is not a valid team setup file.`,
+          details: result.errors,
         });
+        return;
       }
+
+      setFeedback(null);
+      setPendingLoad({ fileName: file.name, team: result.value, fixes: result.fixes, merging: false });
     };
 
     reader.readAsText(file);
   };
 
+  const handleAcceptLoad = () => {
+    if (!pendingLoad) {
+      return;
+    }
+
+    const { team, fileName, fixes } = pendingLoad;
+    setCapabilities(team.capabilities);
+    setStaffMembers(team.staffMembers);
+    setHolidays(team.holidays);
+    setPendingLoad(null);
+    setFeedback({
+      type: "success",
+      message:
+        fixes.length > 0
+          ? `Team setup loaded from ${fileName} with ${fixes.length} repairs.`
+          : `Team setup loaded from ${fileName}.`,
+    });
+  };
+
+  const handleExportCsv = () => {
+    const fileName = `${sanitizedTeamCode || "team"}_Team_Matrix.csv`;
+    downloadFile(fileName, toCsv(teamToRows({ capabilities, staffMembers, holidays })), "text/csv");
+    setFeedback({ type: "success", message: `Staff capability matrix exported as ${fileName}.` });
+  };
+
+  const handleExportExcel = () => {
+    const fileName = `${sanitizedTeamCode || "team"}_Setup.xlsx`;
+    downloadFile(fileName, buildXlsx(buildSetupSheets({ capabilities, staffMembers, templates })), XLSX_MIME_TYPE);
+    setFeedback({ type: "success", message: `Team and templates exported as ${fileName}.` });
+  };
+
+  const handleImportCsv: React.ChangeEventHandler<HTMLInputElement> = async event => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    try {
+      const result = rowsToTeam(parseCsv((await file.text()).replace(/^\uFEFF/, "")), {
+        capabilities,
+        staffMembers,
+        holidays,
+      });
+      if (!result.ok) {
+        setFeedback({ type: "error", message: `Unable to import ${file.name}: ${result.error}` });
+        return;
+      }
+
+      setCapabilities(result.value.capabilities);
+      setStaffMembers(result.value.staffMembers);
+      setFeedback({
+        type: result.warnings.length > 0 ? "warning" : "success",
+        message: `Imported ${result.value.staffMembers.length} staff members from ${file.name}.`,
+        details: result.warnings,
+      });
+    } catch (error) {
+      console.error("Failed to import team matrix", error);
+      setFeedback({ type: "error", message: "Unable to read the selected CSV file." });
+    }
+  };
+
+  const handleApplyMerge = (team: TeamSetupData) => {
+    if (!pendingLoad) {
+      return;
+    }
+
+    setCapabilities(team.capabilities);
+    setStaffMembers(team.staffMembers);
+    setHolidays(team.holidays);
+    setFeedback({ type: "success", message: `Merged ${pendingLoad.fileName} into the team setup.` });
+    setPendingLoad(null);
+  };
+
   const handleContinue = () => {
+    if (blockingIssues.length > 0) {
+      setShowChecklist(true);
+      return;
+    }
+
     if (onContinue) {
       onContinue();
     }
@@ -339,6 +425,20 @@ export default function TeamSetupScreen({
             <Button type="button" variant="outline" onClick={handleSaveTeam}>
               Save Team
             </Button>
+            {onSaveProject ? (
+              <Button type="button" variant="outline" onClick={onSaveProject}>
+                Save Project
+              </Button>
+            ) : null}
+            <Button type="button" variant="ghost" onClick={() => csvInputRef.current?.click()}>
+              Import CSV
+            </Button>
+            <Button type="button" variant="ghost" onClick={handleExportCsv}>
+              Export CSV
+            </Button>
+            <Button type="button" variant="ghost" onClick={handleExportExcel}>
+              Export Excel
+            </Button>
             <input
               ref={fileInputRef}
               type="file"
@@ -346,6 +446,13 @@ export default function TeamSetupScreen({
               className="hidden"
               onChange={handleLoadTeam}
             />
+            <input
+              ref={csvInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={handleImportCsv}
+            />
           </div>
           <Button type="button" variant="default" onClick={handleContinue}>
             Continue
@@ -357,21 +464,55 @@ export default function TeamSetupScreen({
             className={`rounded-md border px-4 py-2 text-sm ${
               feedback.type === "success"
                 ? "border-emerald-200 bg-emerald-50 text-emerald-700"
-                : "border-red-200 bg-red-50 text-red-700"
+                : feedback.type === "warning"
+                  ? "border-amber-200 bg-amber-50 text-amber-800"
+                  : "border-red-200 bg-red-50 text-red-700"
             }`}
             role="status"
             aria-live="polite"
           >
             {feedback.message}
+            {feedback.details && feedback.details.length > 0 ? (
+              <ul className="mt-1 list-disc pl-5">
+                {feedback.details.map((detail, index) => (
+                  <li key={index}>{detail}</li>
+                ))}
+              </ul>
+            ) : null}
           </div>
         ) : null}
 
+        {pendingLoad?.merging ? (
+          <TeamMergePanel
+            key={pendingLoad.fileName}
+            fileName={pendingLoad.fileName}
+            current={{ capabilities, staffMembers, holidays }}
+            incoming={pendingLoad.team}
+            onApply={handleApplyMerge}
+            onCancel={() => setPendingLoad(null)}
+          />
+        ) : pendingLoad ? (
+          <LoadReportPanel
+            fileName={pendingLoad.fileName}
+            summary={`${pendingLoad.team.capabilities.length} capabilities, ${
+              pendingLoad.team.staffMembers.length
+            } staff members and ${pendingLoad.team.holidays.length} public holidays`}
+            fixes={pendingLoad.fixes}
+            onAccept={handleAcceptLoad}
+            onCancel={() => setPendingLoad(null)}
+            onMerge={() => setPendingLoad(prev => (prev ? { ...prev, merging: true } : prev))}
+          />
+        ) : null}
+
+        {showChecklist ? <ValidationChecklist issues={blockingIssues} /> : null}
+
         <Card>
           <CardHeader className="flex flex-row items-center justify-between gap-4">
             <div>
               <CardTitle className="text-xl">Capabilities</CardTitle>
               <p className="text-sm text-muted-foreground">
-                Manage the list of capabilities available to your team.
+                Manage the list of capabilities available to your team. A WIP limit caps how many
+                tasks of a capability can be in progress at once.
               </p>
             </div>
             <Button type="button" onClick={handleAddCapability}>
@@ -389,6 +530,9 @@ export default function TeamSetupScreen({
                     <th className="px-4 py-2 text-left text-sm font-semibold text-gray-700">
                       Capability Description
                     </th>
+                    <th className="px-4 py-2 text-left text-sm font-semibold text-gray-700">
+                      WIP Limit
+                    </th>
                     <th className="px-4 py-2 text-right text-sm font-semibold text-gray-700">
                       Actions
                     </th>
@@ -399,7 +543,7 @@ export default function TeamSetupScreen({
                     <tr>
                       <td
                         className="px-4 py-6 text-center text-sm text-gray-500"
-                        colSpan={3}
+                        colSpan={4}
                       >
                         No capabilities added yet.
                       </td>
@@ -433,6 +577,20 @@ export default function TeamSetupScreen({
                             placeholder="Capability description"
                           />
                         </td>
+                        <td className="px-4 py-3">
+                          <Input
+                            type="number"
+                            min={1}
+                            step={1}
+                            value={capability.wipLimit ?? ""}
+                            onChange={event =>
+                              handleCapabilityWipLimitChange(capability.id, event.target.value)
+                            }
+                            placeholder="No limit"
+                            className="w-28"
+                            aria-label={`${capability.description || capability.code} WIP limit`}
+                          />
+                        </td>
                         <td className="px-4 py-3 text-right">
                           <Button
                             type="button"
@@ -457,7 +615,8 @@ export default function TeamSetupScreen({
             <div>
               <CardTitle className="text-xl">Team Members</CardTitle>
               <p className="text-sm text-muted-foreground">
-                Assign capabilities to each staff member on your team.
+                Assign capabilities to each staff member and how proficient they are. Learning
+                takes 1.5&times; as long as competent; experts take 0.75&times;.
               </p>
             </div>
             <Button type="button" onClick={handleAddStaffMember}>
@@ -478,6 +637,12 @@ export default function TeamSetupScreen({
                     <th className="px-4 py-2 text-left text-sm font-semibold text-gray-700">
                       Capacity (%)
                     </th>
+                    <th className="px-4 py-2 text-left text-sm font-semibold text-gray-700">
+                      WIP Limit
+                    </th>
+                    <th className="px-4 py-2 text-left text-sm font-semibold text-gray-700">
+                      Availability
+                    </th>
                     {capabilities.map(capability => (
                       <th
                         key={capability.id}
@@ -493,6 +658,9 @@ export default function TeamSetupScreen({
                         </div>
                       </th>
                     ))}
+                    <th className="px-4 py-2 text-center text-sm font-semibold text-gray-700">
+                      Coverage
+                    </th>
                     <th className="px-4 py-2 text-center text-sm font-semibold text-gray-700">
                       Actions
                     </th>
@@ -503,7 +671,7 @@ export default function TeamSetupScreen({
                     <tr>
                       <td
                         className="px-4 py-6 text-center text-sm text-gray-500"
-                        colSpan={capabilities.length + 4}
+                        colSpan={capabilities.length + 7}
                       >
                         No staff members added yet.
                       </td>
@@ -550,20 +718,63 @@ export default function TeamSetupScreen({
                             aria-label={`${member.name || member.code} capacity in percent`}
                           />
                         </td>
+                        <td className="px-4 py-3">
+                          <Input
+                            type="number"
+                            min={1}
+                            step={1}
+                            value={member.wipLimit ?? ""}
+                            onChange={event => handleStaffWipLimitChange(member.id, event.target.value)}
+                            placeholder="No limit"
+                            className="w-24"
+                            aria-label={`${member.name || member.code} WIP limit`}
+                          />
+                        </td>
+                        <td className="px-4 py-3 align-top">
+                          <StaffAvailabilityEditor
+                            availability={member.availability}
+                            onChange={availability =>
+                              handleStaffAvailabilityChange(member.id, availability)
+                            }
+                            memberLabel={member.name || member.code}
+                          />
+                        </td>
                         {capabilities.map(capability => {
-                          const isChecked = member.capabilityIds.includes(capability.id);
+                          const level = member.capabilityIds.includes(capability.id)
+                            ? getProficiency(member, capability.id)
+                            : "";
                           return (
                             <td key={capability.id} className="px-4 py-3 text-center">
-                              <input
-                                type="checkbox"
-                                className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
-                                checked={isChecked}
-                                onChange={() => toggleStaffCapability(member.id, capability.id)}
-                                aria-label={`Assign ${capability.description || capability.code} to ${member.name}`}
-                              />
+                              <select
+                                className="rounded-md border border-input bg-background px-2 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                                value={level}
+                                onChange={event =>
+                                  setStaffCapabilityLevel(
+                                    member.id,
+                                    capability.id,
+                                    (event.target.value || null) as ProficiencyLevel | null
+                                  )
+                                }
+                                aria-label={`${capability.description || capability.code} proficiency for ${member.name}`}
+                              >
+                                <option value="">&mdash;</option>
+                                {PROFICIENCY_LEVELS.map(entry => (
+                                  <option key={entry.level} value={entry.level}>
+                                    {entry.label}
+                                  </option>
+                                ))}
+                              </select>
                             </td>
                           );
                         })}
+                        <td className="px-4 py-3 text-center text-xs text-muted-foreground">
+                          <div>{member.capabilityIds.length} held</div>
+                          {soleHoldingsByMember.get(member.id) ? (
+                            <div className="text-amber-700">
+                              sole holder of {soleHoldingsByMember.get(member.id)}
+                            </div>
+                          ) : null}
+                        </td>
                         <td className="px-4 py-3 text-center">
                           <Button
                             type="button"
@@ -578,6 +789,144 @@ export default function TeamSetupScreen({
                     ))
                   )}
                 </tbody>
+                {capabilities.length > 0 ? (
+                  <tfoot className="border-t-2 border-gray-300 bg-gray-50 text-sm">
+                    <tr>
+                      <th colSpan={5} className="px-4 py-2 text-left font-semibold text-gray-700">
+                        Total capacity (FTE)
+                      </th>
+                      {coverage.map(entry => (
+                        <td
+                          key={entry.capabilityId}
+                          className={`px-4 py-2 text-center font-medium ${coverageTone(entry.busFactor)}`}
+                        >
+                          {formatCapacity(entry.totalCapacity)}
+                        </td>
+                      ))}
+                      <td className="px-4 py-2 text-center text-gray-700">
+                        {formatCapacity(staffMembers.reduce((total, member) => total + member.capacity, 0))}
+                      </td>
+                      <td />
+                    </tr>
+                    <tr>
+                      <th colSpan={5} className="px-4 py-2 text-left font-semibold text-gray-700">
+                        Bus factor (people)
+                      </th>
+                      {coverage.map(entry => (
+                        <td
+                          key={entry.capabilityId}
+                          className={`px-4 py-2 text-center font-medium ${coverageTone(entry.busFactor)}`}
+                        >
+                          {entry.busFactor}
+                        </td>
+                      ))}
+                      <td className="px-4 py-2 text-center text-gray-700">{staffMembers.length}</td>
+                      <td />
+                    </tr>
+                  </tfoot>
+                ) : null}
+              </table>
+            </div>
+            {thinCapabilities.length > 0 ? (
+              <div
+                className="mt-4 rounded-md border border-amber-200 bg-amber-50 px-4 py-2 text-sm text-amber-800"
+                role="status"
+              >
+                <p className="font-medium">Thin coverage for capabilities your workflow templates use:</p>
+                <ul className="list-disc pl-5">
+                  {thinCapabilities.map(capability => {
+                    const holders = staffMembers.filter(member =>
+                      member.capabilityIds.includes(capability.id)
+                    );
+                    return (
+                      <li key={capability.id}>
+                        {capability.code || capability.description || "Unnamed capability"}:{" "}
+                        {holders.length === 0
+                          ? "nobody holds it."
+                          : `only ${holders[0].name || holders[0].code || "one person"} holds it.`}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            ) : null}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-4">
+            <div>
+              <CardTitle className="text-xl">Public Holidays</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Days nobody on the team works, on top of each member&rsquo;s own leave.
+              </p>
+            </div>
+            <Button type="button" onClick={handleAddHoliday}>
+              Add Holiday
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-100">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-sm font-semibold text-gray-700">
+                      Date
+                    </th>
+                    <th className="px-4 py-2 text-left text-sm font-semibold text-gray-700">
+                      Holiday
+                    </th>
+                    <th className="px-4 py-2 text-right text-sm font-semibold text-gray-700">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 bg-white">
+                  {holidays.length === 0 ? (
+                    <tr>
+                      <td
+                        className="px-4 py-6 text-center text-sm text-gray-500"
+                        colSpan={3}
+                      >
+                        No public holidays added yet.
+                      </td>
+                    </tr>
+                  ) : (
+                    holidays.map(holiday => (
+                      <tr key={holiday.id}>
+                        <td className="px-4 py-3">
+                          <Input
+                            type="date"
+                            value={holiday.date}
+                            onChange={event =>
+                              handleHolidayChange(holiday.id, "date", event.target.value)
+                            }
+                            aria-label="Holiday date"
+                          />
+                        </td>
+                        <td className="px-4 py-3">
+                          <Input
+                            value={holiday.name}
+                            onChange={event =>
+                              handleHolidayChange(holiday.id, "name", event.target.value)
+                            }
+                            placeholder="e.g. New Year's Day"
+                          />
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            className="text-destructive"
+                            onClick={() => handleDeleteHoliday(holiday.id)}
+                          >
+                            Delete
+                          </Button>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
               </table>
             </div>
           </CardContent>
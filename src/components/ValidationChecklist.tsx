@@ -0,0 +1,36 @@
+"use client";
+
+import React from "react";
+import { AlertCircle } from "lucide-react";
+import type { ValidationIssue } from "@/lib/validation";
+
+interface ValidationChecklistProps {
+  issues: ValidationIssue[];
+  title?: string;
+}
+
+export default function ValidationChecklist({
+  issues,
+  title = "Resolve these issues before continuing",
+}: ValidationChecklistProps) {
+  if (issues.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      className="rounded-md border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700"
+      role="alert"
+    >
+      <p className="font-semibold">{title}</p>
+      <ul className="mt-2 flex flex-col gap-1">
+        {issues.map(issue => (
+          <li key={issue.id} className="flex items-start gap-2">
+            <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+            <span>{issue.message}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
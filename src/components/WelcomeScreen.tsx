@@ -5,41 +5,85 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { motion, AnimatePresence } from "framer-motion";
-import TeamSetupScreen, {
+import TeamSetupScreen from "@/components/TeamSetupScreen";
+import WorkflowTemplateSetup from "@/components/WorkflowTemplateSetup";
+import ArrivalModelSetup from "@/components/ArrivalModelSetup";
+import BacklogImport from "@/components/BacklogImport";
+import SavedTeamsList from "@/components/SavedTeamsList";
+import MonteCarloForecast from "@/components/MonteCarloForecast";
+import ScenarioComparison from "@/components/ScenarioComparison";
+import SimulationResults from "@/components/SimulationResults";
+import {
+  type ArrivalSettings,
+  type BacklogItem,
+  DEFAULT_ARRIVAL_SETTINGS,
+  normalizeArrivalSettings,
+} from "@/lib/simulation/arrivals";
+import type { SimulationResult } from "@/lib/simulation/engine";
+import { randomSeed } from "@/lib/simulation/random";
+import { runProjectSimulation } from "@/lib/simulation/run";
+import type { Scenario } from "@/lib/simulation/scenarios";
+import { createProjectFile, type Project, readProjectFile } from "@/lib/projectFile";
+import { downloadFile, toFileNameBase } from "@/lib/download";
+import { validateProject } from "@/lib/validation";
+import {
   type Capability,
-  type StaffMember,
+  createDefaultTeamSetup,
   normalizeTeamSetupData,
-} from "@/components/TeamSetupScreen";
-import WorkflowTemplateSetup from "@/components/WorkflowTemplateSetup";
+  type PublicHoliday,
+  type StaffMember,
+} from "@/lib/teamSetup";
+import {
+  arrivalSetupStorageKey,
+  type SavedTeamSummary,
+  teamSetupStorageKey,
+  templateSetupStorageKey,
+} from "@/lib/teamStorage";
+import {
+  createDefaultTemplates,
+  sanitizeTemplates,
+  type TemplateKey,
+  type WorkflowTemplate,
+} from "@/lib/workflowTemplates";
 
 export default function WelcomeScreen() {
   const [teamId, setTeamId] = React.useState("");
   const [teamName, setTeamName] = React.useState("");
   const [stage, setStage] = React.useState<
-    "welcome" | "team-setup" | "workflow-setup"
+    "welcome" | "team-setup" | "workflow-setup" | "arrival-setup" | "results" | "forecast" | "scenarios" | "backlog-import"
   >("welcome");
-  const [capabilities, setCapabilities] = React.useState<Capability[]>([
-    { id: "default-capability", code: "C1", description: "Capability 1" },
-  ]);
-  const [staffMembers, setStaffMembers] = React.useState<StaffMember[]>([
-    {
-      id: "default-staff",
-      code: "S1",
-      name: "Staff one",
-      capacity: 1,
-      capabilityIds: [],
-    },
-  ]);
+  const [capabilities, setCapabilities] = React.useState<Capability[]>(
+    () => createDefaultTeamSetup().capabilities
+  );
+  const [staffMembers, setStaffMembers] = React.useState<StaffMember[]>(
+    () => createDefaultTeamSetup().staffMembers
+  );
+  const [holidays, setHolidays] = React.useState<PublicHoliday[]>([]);
+  const [templates, setTemplates] = React.useState<WorkflowTemplate[]>(createDefaultTemplates);
+  const [arrivalSettings, setArrivalSettings] =
+    React.useState<ArrivalSettings>(DEFAULT_ARRIVAL_SETTINGS);
+  const [simulationResult, setSimulationResult] = React.useState<SimulationResult | null>(null);
+  const [scenarios, setScenarios] = React.useState<Scenario[]>([]);
+  const [importFeedback, setImportFeedback] = React.useState<
+    | { type: "success" | "error"; message: string }
+    | null
+  >(null);
+  const projectInputRef = React.useRef<HTMLInputElement>(null);
 
   const isValid = teamId.trim() && teamName.trim();
 
+  const validationIssues = React.useMemo(
+    () => validateProject({ capabilities, staffMembers, templates }),
+    [capabilities, staffMembers, templates]
+  );
+
   React.useEffect(() => {
     if (stage !== "team-setup" || !teamId || typeof window === "undefined") {
       return;
     }
 
     try {
-      const saved = window.localStorage.getItem(`team-setup-${teamId}`);
+      const saved = window.localStorage.getItem(teamSetupStorageKey(teamId));
       if (!saved) {
         return;
       }
@@ -52,17 +96,87 @@ export default function WelcomeScreen() {
 
       setCapabilities(normalized.capabilities);
       setStaffMembers(normalized.staffMembers);
+      setHolidays(normalized.holidays);
     } catch (error) {
       console.error("Unable to restore saved team setup", error);
     }
   }, [stage, teamId]);
 
+  React.useEffect(() => {
+    if (
+      (stage !== "team-setup" && stage !== "workflow-setup") ||
+      !teamId ||
+      typeof window === "undefined"
+    ) {
+      return;
+    }
+
+    try {
+      const saved = window.localStorage.getItem(templateSetupStorageKey(teamId));
+      if (!saved) {
+        return;
+      }
+
+      const parsed = JSON.parse(saved) as { templates?: unknown } | null;
+      setTemplates(sanitizeTemplates(parsed?.templates));
+    } catch (error) {
+      console.error("Unable to restore saved workflow templates", error);
+    }
+  }, [stage, teamId]);
+
+  React.useEffect(() => {
+    if (
+      (stage !== "team-setup" && stage !== "workflow-setup") ||
+      !teamId ||
+      typeof window === "undefined"
+    ) {
+      return;
+    }
+
+    try {
+      const saved = window.localStorage.getItem(arrivalSetupStorageKey(teamId));
+      if (!saved) {
+        return;
+      }
+
+      const parsed = JSON.parse(saved) as { arrivals?: unknown } | null;
+      setArrivalSettings(normalizeArrivalSettings(parsed?.arrivals));
+    } catch (error) {
+      console.error("Unable to restore saved arrival settings", error);
+    }
+  }, [stage, teamId]);
+
   function onSubmit(e: React.FormEvent) {
     e.preventDefault();
     if (!isValid) return;
     setStage("team-setup");
   }
 
+  // Everything below the team code belongs to one team. The stages restore
+  // what was saved for the team they open with, and save back under its code
+  // as soon as they mount, so start from defaults or another team's data would
+  // be stored under this one's code.
+  const resetProject = React.useCallback(() => {
+    const team = createDefaultTeamSetup();
+    setCapabilities(team.capabilities);
+    setStaffMembers(team.staffMembers);
+    setHolidays(team.holidays);
+    setTemplates(createDefaultTemplates());
+    setArrivalSettings(DEFAULT_ARRIVAL_SETTINGS);
+    setSimulationResult(null);
+    setScenarios([]);
+  }, []);
+
+  const handleOpenSavedTeam = React.useCallback(
+    (team: SavedTeamSummary) => {
+      resetProject();
+      setTeamId(team.teamCode);
+      setTeamName(team.teamName || team.teamCode);
+      setStage("team-setup");
+    },
+    [resetProject]
+  );
+
   const handleContinue = React.useCallback(() => {
     setStage("workflow-setup");
   }, []);
@@ -71,12 +185,194 @@ export default function WelcomeScreen() {
     setStage("team-setup");
   }, []);
 
+  const handleContinueToArrivals = React.useCallback(() => {
+    setStage("arrival-setup");
+  }, []);
+
+  const handleBackToWorkflowSetup = React.useCallback(() => {
+    setStage("workflow-setup");
+  }, []);
+
+  const handleBackToArrivalSetup = React.useCallback(() => {
+    setStage("arrival-setup");
+  }, []);
+
+  const runWithSettings = (settings: ArrivalSettings) => {
+    setSimulationResult(
+      runProjectSimulation({ capabilities, staffMembers, holidays, templates, settings })
+    );
+    setStage("results");
+  };
+
+  const handleRunSimulation = () => {
+    runWithSettings(arrivalSettings);
+  };
+
+  const handleRerunWithNewSeed = () => {
+    const settings = { ...arrivalSettings, seed: randomSeed() };
+    setArrivalSettings(settings);
+    runWithSettings(settings);
+  };
+
+  const handleApplyArrivalRate = (templateKey: TemplateKey, ratePerWeek: number) => {
+    setArrivalSettings(prev => ({
+      ...prev,
+      processes: { ...prev.processes, [templateKey]: { kind: "poisson", ratePerWeek } },
+    }));
+  };
+
+  const handleTemplateDeleted = (templateKey: TemplateKey) => {
+    setArrivalSettings(prev => ({
+      ...prev,
+      processes: Object.fromEntries(Object.entries(prev.processes).filter(([key]) => key !== templateKey)),
+      backlog: prev.backlog.filter(item => item.templateKey !== templateKey),
+    }));
+  };
+
+  const handleOpenForecast = () => {
+    setStage("forecast");
+  };
+
+  const handleOpenScenarios = () => {
+    setStage("scenarios");
+  };
+
+  const handleOpenBacklogImport = () => {
+    setStage("backlog-import");
+  };
+
+  const handleApplyBacklog = (backlog: BacklogItem[]) => {
+    setArrivalSettings(prev => ({ ...prev, backlog }));
+    setStage("arrival-setup");
+  };
+
+  const handleSaveProject = React.useCallback(() => {
+    const projectFile = createProjectFile({
+      teamCode: teamId,
+      teamName,
+      capabilities,
+      staffMembers,
+      holidays,
+      templates,
+      simulation: { arrivals: arrivalSettings },
+    });
+    downloadFile(
+      `${toFileNameBase(teamId, teamName)}_Project.json`,
+      JSON.stringify(projectFile, null, 2),
+      "application/json"
+    );
+  }, [arrivalSettings, capabilities, holidays, staffMembers, teamId, teamName, templates]);
+
+  const handleImportProjectClick = () => {
+    projectInputRef.current?.click();
+  };
+
+  const handleImportProject: React.ChangeEventHandler<HTMLInputElement> = async event => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+
+    if (files.length === 0) {
+      return;
+    }
+
+    const imported: Partial<Project> = {};
+    const errors: string[] = [];
+
+    for (const file of files) {
+      try {
+        const result = readProjectFile(JSON.parse(await file.text()));
+        if (result.ok) {
+          Object.assign(imported, result.project);
+        } else {
+          errors.push(`${file.name}: ${result.error}`);
+        }
+      } catch (error) {
+        console.error("Failed to import project file", error);
+        errors.push(`${file.name}: not a valid JSON file.`);
+      }
+    }
+
+    if (errors.length > 0) {
+      setImportFeedback({ type: "error", message: errors.join(" ") });
+      return;
+    }
+
+    // What the files leave out starts from defaults rather than carrying
+    // over from the project that was open before.
+    const nextTeamId = imported.teamCode ?? teamId;
+    const nextTeamName = imported.teamName ?? teamName;
+    const nextTemplates = imported.templates ?? createDefaultTemplates();
+    const nextArrivals = imported.simulation?.arrivals ?? DEFAULT_ARRIVAL_SETTINGS;
+    resetProject();
+    setTeamId(nextTeamId);
+    setTeamName(nextTeamName);
+    if (imported.capabilities && imported.staffMembers) {
+      setCapabilities(imported.capabilities);
+      setStaffMembers(imported.staffMembers);
+      setHolidays(imported.holidays ?? []);
+    }
+    setTemplates(nextTemplates);
+    setArrivalSettings(nextArrivals);
+
+    // The stages restore from localStorage when they open, so store the
+    // imported data there first or it would be replaced by an older save.
+    if (nextTeamId) {
+      const savedAt = new Date().toISOString();
+      if (imported.capabilities && imported.staffMembers) {
+        window.localStorage.setItem(
+          teamSetupStorageKey(nextTeamId),
+          JSON.stringify(
+            {
+              teamCode: nextTeamId,
+              teamName: nextTeamName,
+              capabilities: imported.capabilities,
+              staffMembers: imported.staffMembers,
+              holidays: imported.holidays ?? [],
+              savedAt,
+            },
+            null,
+            2
+          )
+        );
+      }
+      window.localStorage.setItem(
+        templateSetupStorageKey(nextTeamId),
+        JSON.stringify(
+          { teamCode: nextTeamId, teamName: nextTeamName, templates: nextTemplates, savedAt },
+          null,
+          2
+        )
+      );
+      window.localStorage.setItem(
+        arrivalSetupStorageKey(nextTeamId),
+        JSON.stringify(
+          { teamCode: nextTeamId, teamName: nextTeamName, arrivals: nextArrivals, savedAt },
+          null,
+          2
+        )
+      );
+    }
+
+    if (nextTeamId.trim() && nextTeamName.trim()) {
+      setImportFeedback(null);
+      setStage("team-setup");
+    } else {
+      setImportFeedback({
+        type: "success",
+        message: "Project imported. Enter the Team ID and Team Name to continue.",
+      });
+    }
+  };
+
   const handleFinishWorkflow = React.useCallback(() => {
     if (typeof window !== "undefined") {
       window.close();
     }
+    resetProject();
+    setTeamId("");
+    setTeamName("");
     setStage("welcome");
-  }, []);
+  }, [resetProject]);
 
   return (
     <AnimatePresence mode="wait">
@@ -95,7 +391,12 @@ export default function WelcomeScreen() {
             setCapabilities={setCapabilities}
             staffMembers={staffMembers}
             setStaffMembers={setStaffMembers}
+            holidays={holidays}
+            setHolidays={setHolidays}
+            templates={templates}
+            validationIssues={validationIssues}
             onContinue={handleContinue}
+            onSaveProject={handleSaveProject}
           />
         </motion.div>
       ) : stage === "workflow-setup" ? (
@@ -110,14 +411,109 @@ export default function WelcomeScreen() {
             teamName={teamName}
             teamCode={teamId}
             capabilities={capabilities}
+            templates={templates}
+            setTemplates={setTemplates}
+            validationIssues={validationIssues}
             onBack={handleBackToTeamSetup}
+            onContinue={handleContinueToArrivals}
+            onSaveProject={handleSaveProject}
+            onApplyArrivalRate={handleApplyArrivalRate}
+            onDeleteTemplate={handleTemplateDeleted}
+          />
+        </motion.div>
+      ) : stage === "arrival-setup" ? (
+        <motion.div
+          key="arrival-setup"
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -30 }}
+          transition={{ duration: 0.4 }}
+        >
+          <ArrivalModelSetup
+            teamName={teamName}
+            teamCode={teamId}
+            templates={templates}
+            settings={arrivalSettings}
+            setSettings={setArrivalSettings}
+            validationIssues={validationIssues}
+            onBack={handleBackToWorkflowSetup}
+            onRun={handleRunSimulation}
+            onForecast={handleOpenForecast}
+            onCompareScenarios={handleOpenScenarios}
+            onImportBacklog={handleOpenBacklogImport}
             onFinish={handleFinishWorkflow}
+            onSaveProject={handleSaveProject}
+          />
+        </motion.div>
+      ) : stage === "results" && simulationResult ? (
+        <motion.div
+          key="results"
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -30 }}
+          transition={{ duration: 0.4 }}
+        >
+          <SimulationResults
+            teamName={teamName}
+            teamCode={teamId}
+            result={simulationResult}
+            templates={templates}
+            capabilities={capabilities}
+            staffMembers={staffMembers}
+            settings={arrivalSettings}
+            onBack={handleBackToArrivalSetup}
+            onRerun={handleRerunWithNewSeed}
+          />
+        </motion.div>
+      ) : stage === "forecast" ? (
+        <motion.div
+          key="forecast"
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -30 }}
+          transition={{ duration: 0.4 }}
+        >
+          <MonteCarloForecast
+            teamName={teamName}
+            setup={{ capabilities, staffMembers, holidays, templates, settings: arrivalSettings }}
+            onBack={handleBackToArrivalSetup}
+          />
+        </motion.div>
+      ) : stage === "backlog-import" ? (
+        <motion.div
+          key="backlog-import"
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -30 }}
+          transition={{ duration: 0.4 }}
+        >
+          <BacklogImport
+            teamName={teamName}
+            templates={templates}
+            onApply={handleApplyBacklog}
+            onCancel={handleBackToArrivalSetup}
+          />
+        </motion.div>
+      ) : stage === "scenarios" ? (
+        <motion.div
+          key="scenarios"
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -30 }}
+          transition={{ duration: 0.4 }}
+        >
+          <ScenarioComparison
+            teamName={teamName}
+            baseline={{ capabilities, staffMembers, holidays, templates, settings: arrivalSettings }}
+            scenarios={scenarios}
+            setScenarios={setScenarios}
+            onBack={handleBackToArrivalSetup}
           />
         </motion.div>
       ) : (
         <motion.div
           key="welcome"
-          className="flex min-h-screen items-center justify-center bg-gray-50 p-4"
+          className="flex min-h-screen flex-col items-center justify-center gap-6 bg-gray-50 p-4"
           initial={{ opacity: 0, y: 30 }}
           animate={{ opacity: 1, y: 0 }}
           exit={{ opacity: 0, y: -30 }}
@@ -152,8 +548,38 @@ export default function WelcomeScreen() {
                   Continue
                 </Button>
               </form>
+              <div className="flex flex-col gap-2 border-t pt-4">
+                <Button type="button" variant="outline" onClick={handleImportProjectClick}>
+                  Import Project
+                </Button>
+                <p className="text-center text-xs text-muted-foreground">
+                  Accepts a project file, or a team setup and template setup file together.
+                </p>
+                <input
+                  ref={projectInputRef}
+                  type="file"
+                  accept="application/json"
+                  multiple
+                  className="hidden"
+                  onChange={handleImportProject}
+                />
+                {importFeedback ? (
+                  <div
+                    className={`rounded-md border px-4 py-2 text-sm ${
+                      importFeedback.type === "success"
+                        ? "border-emerald-200 bg-emerald-50 text-emerald-700"
+                        : "border-red-200 bg-red-50 text-red-700"
+                    }`}
+                    role="status"
+                    aria-live="polite"
+                  >
+                    {importFeedback.message}
+                  </div>
+                ) : null}
+              </div>
             </CardContent>
           </Card>
+          <SavedTeamsList onOpen={handleOpenSavedTeam} />
         </motion.div>
       )}
     </AnimatePresence>
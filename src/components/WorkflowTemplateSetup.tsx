@@ -4,120 +4,408 @@ import React from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { ArrowDown, ArrowUp, Trash2 } from "lucide-react";
-import type { Capability } from "@/components/TeamSetupScreen";
-
-const TEMPLATE_DEFINITIONS = [
-  { key: "enhancement", title: "Enhancement Template" },
-  { key: "defect", title: "Defect Template" },
-  { key: "incident", title: "Incident Template" },
-] as const;
-
-type TemplateKey = (typeof TEMPLATE_DEFINITIONS)[number]["key"];
-
-type TemplateTask = {
-  id: string;
-  seqNumber: number;
-  task: string;
-  estimate: string;
-  capabilityId: string;
-};
+import { ArrowDown, ArrowRight, ArrowUp, Copy, Trash2 } from "lucide-react";
+import LoadReportPanel from "@/components/LoadReportPanel";
+import ValidationChecklist from "@/components/ValidationChecklist";
+import { calibrateFromHistory, type Calibration, type TaskCalibration } from "@/lib/calibration";
+import { parseCsv, toCsv } from "@/lib/csv";
+import { downloadFile, toFileNameBase } from "@/lib/download";
+import { formatDuration, parseDuration } from "@/lib/duration";
+import { generateId } from "@/lib/ids";
+import { type LoadFix, loadTemplateSetupFile } from "@/lib/setupFileSchema";
+import { buildSetupSheets, rowsToTemplates, templatesToRows } from "@/lib/setupSpreadsheets";
+import type { EstimateDistribution } from "@/lib/simulation/distributions";
+import { layoutTaskGraph, resolveTaskGraph, type TaskGraph } from "@/lib/taskGraph";
+import type { Capability } from "@/lib/teamSetup";
+import type { ValidationIssue } from "@/lib/validation";
+import { templateSetupStorageKey } from "@/lib/teamStorage";
+import {
+  createTemplateKey,
+  getDefaultScheduling,
+  normalizeSequence,
+  type TemplateKey,
+  type TemplateScheduling,
+  type TemplateTask,
+  type ThreePointEstimate,
+  type WorkflowTemplate,
+} from "@/lib/workflowTemplates";
+import { buildXlsx, XLSX_MIME_TYPE } from "@/lib/xlsx";
 
 interface WorkflowTemplateSetupProps {
   teamName: string;
   teamCode?: string;
   capabilities: Capability[];
+  templates: WorkflowTemplate[];
+  setTemplates: React.Dispatch<React.SetStateAction<WorkflowTemplate[]>>;
+  validationIssues?: ValidationIssue[];
   onBack?: () => void;
+  onContinue?: () => void;
   onFinish?: () => void;
+  onSaveProject?: () => void;
+  /** Takes a calibrated arrival rate over as the template's Poisson arrivals. */
+  onApplyArrivalRate?: (templateKey: TemplateKey, ratePerWeek: number) => void;
+  /** Called after a template is deleted, to drop the arrivals and backlog items that point at it. */
+  onDeleteTemplate?: (templateKey: TemplateKey) => void;
 }
 
-function generateId() {
-  return Math.random().toString(36).slice(2, 10);
+function describeUncertaintyProblem(task: TemplateTask): string | null {
+  const { uncertainty, estimateMinutes } = task;
+  if (!uncertainty) {
+    return null;
+  }
+
+  const { optimisticMinutes, pessimisticMinutes } = uncertainty;
+  if (optimisticMinutes === null || pessimisticMinutes === null || estimateMinutes === null) {
+    return "Enter min, likely and max estimates.";
+  }
+
+  if (optimisticMinutes > estimateMinutes || estimateMinutes > pessimisticMinutes) {
+    return "Expected min ≤ likely ≤ max.";
+  }
+
+  return null;
 }
 
-function normalizeSequence(tasks: TemplateTask[]): TemplateTask[] {
-  return tasks
-    .map((task, index) => ({
-      ...task,
-      seqNumber: (index + 1) * 10,
-    }))
-    .sort((a, b) => a.seqNumber - b.seqNumber);
+/**
+ * Duration field that keeps the text as typed. The draft only follows `value`
+ * when the parent changes it, so a null the parent ignores does not wipe the
+ * field; the value is shown again on blur.
+ */
+function EstimateInput({
+  value,
+  onChange,
+  placeholder = "e.g. 01:30",
+  label = "Estimated effort in hours and minutes",
+}: {
+  value: number | null;
+  onChange: (minutes: number | null) => void;
+  placeholder?: string;
+  label?: string;
+}) {
+  const format = (minutes: number | null) => (minutes === null ? "" : formatDuration(minutes));
+  const [draft, setDraft] = React.useState(() => format(value));
+  const [previousValue, setPreviousValue] = React.useState(value);
+
+  const parsed = parseDuration(draft);
+  const draftMinutes = parsed.ok ? parsed.minutes : null;
+  const error = draft.trim() && !parsed.ok ? parsed.error : null;
+
+  if (value !== previousValue) {
+    setPreviousValue(value);
+    if (value !== draftMinutes) {
+      setDraft(format(value));
+    }
+  }
+
+  const handleChange = (text: string) => {
+    const result = parseDuration(text);
+    setDraft(text);
+    onChange(result.ok ? result.minutes : null);
+  };
+
+  const handleBlur = () => {
+    if (draftMinutes !== value) {
+      setDraft(format(value));
+    } else if (parsed.ok) {
+      setDraft(formatDuration(parsed.minutes));
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-1">
+      <Input
+        value={draft}
+        onChange={event => handleChange(event.target.value)}
+        onBlur={handleBlur}
+        placeholder={placeholder}
+        aria-label={label}
+        aria-invalid={error ? true : undefined}
+      />
+      {error ? <p className="text-xs text-red-600">{error}</p> : null}
+    </div>
+  );
 }
 
-function sanitizeTasks(input: unknown): TemplateTask[] {
-  if (!Array.isArray(input)) {
-    return [];
+/** Estimate fitted from completed work, shown under the current one. */
+function CalibrationHint({
+  suggestion,
+  onApply,
+}: {
+  suggestion: TaskCalibration | undefined;
+  onApply: (suggestion: TaskCalibration) => void;
+}) {
+  if (!suggestion) {
+    return null;
   }
 
-  const sanitized = input
-    .map(item => {
-      if (!item || typeof item !== "object") {
-        return null;
-      }
+  const { estimateMinutes, uncertainty, samples } = suggestion;
+  return (
+    <p className="mt-1 flex items-center gap-1 text-xs text-blue-700">
+      History: {formatDuration(estimateMinutes)}
+      {uncertainty
+        ? ` (${formatDuration(uncertainty.optimisticMinutes ?? 0)}–${formatDuration(uncertainty.pessimisticMinutes ?? 0)})`
+        : ""}
+      , {samples} {samples === 1 ? "sample" : "samples"}
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="h-6 px-2"
+        onClick={() => onApply(suggestion)}
+      >
+        Apply
+      </Button>
+    </p>
+  );
+}
+
+function UncertaintyEditor({
+  task,
+  onChange,
+}: {
+  task: TemplateTask;
+  onChange: (uncertainty: ThreePointEstimate | null) => void;
+}) {
+  const { uncertainty } = task;
+  const problem = describeUncertaintyProblem(task);
+
+  const handleDistributionChange = (value: string) => {
+    if (value === "none") {
+      onChange(null);
+      return;
+    }
+
+    onChange({
+      optimisticMinutes: task.estimateMinutes,
+      pessimisticMinutes: task.estimateMinutes,
+      ...uncertainty,
+      distribution: value as EstimateDistribution,
+    });
+  };
 
-      const candidate = item as Partial<TemplateTask>;
-      return {
-        id:
-          typeof candidate.id === "string" && candidate.id.trim().length > 0
-            ? candidate.id
-            : generateId(),
-        seqNumber:
-          typeof candidate.seqNumber === "number" ? candidate.seqNumber : 0,
-        task: typeof candidate.task === "string" ? candidate.task : "",
-        estimate:
-          typeof candidate.estimate === "string" ? candidate.estimate : "",
-        capabilityId:
-          typeof candidate.capabilityId === "string"
-            ? candidate.capabilityId
-            : "",
-      } satisfies TemplateTask;
-    })
-    .filter((task): task is TemplateTask => task !== null)
-    .sort((a, b) => a.seqNumber - b.seqNumber);
-
-  return normalizeSequence(sanitized);
+  return (
+    <div className="flex min-w-40 flex-col gap-1">
+      <select
+        className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        value={uncertainty?.distribution ?? "none"}
+        onChange={event => handleDistributionChange(event.target.value)}
+        aria-label="Estimate distribution"
+      >
+        <option value="none">Single estimate</option>
+        <option value="pert">PERT (min / likely / max)</option>
+        <option value="triangular">Triangular (min / likely / max)</option>
+      </select>
+      {uncertainty ? (
+        <div className="grid grid-cols-2 gap-1">
+          <EstimateInput
+            value={uncertainty.optimisticMinutes}
+            onChange={minutes => onChange({ ...uncertainty, optimisticMinutes: minutes })}
+            placeholder="Min"
+            label="Optimistic estimate"
+          />
+          <EstimateInput
+            value={uncertainty.pessimisticMinutes}
+            onChange={minutes => onChange({ ...uncertainty, pessimisticMinutes: minutes })}
+            placeholder="Max"
+            label="Pessimistic estimate"
+          />
+        </div>
+      ) : null}
+      {problem ? <p className="text-xs text-amber-600">{problem}</p> : null}
+    </div>
+  );
+}
+
+function DependencyEditor({
+  task,
+  tasks,
+  graph,
+  onChange,
+}: {
+  task: TemplateTask;
+  tasks: TemplateTask[];
+  graph: TaskGraph;
+  onChange: (predecessorIds: string[] | null) => void;
+}) {
+  const index = tasks.findIndex(candidate => candidate.id === task.id);
+  const sequenceDefault = index > 0 ? [tasks[index - 1].id] : [];
+  const selected = task.predecessorIds ?? sequenceDefault;
+  const resolved = graph.predecessors.get(task.id) ?? [];
+  const summary = resolved.length
+    ? `After ${tasks
+        .filter(candidate => resolved.includes(candidate.id))
+        .map(candidate => candidate.seqNumber)
+        .join(", ")}`
+    : "Starts immediately";
+
+  const togglePredecessor = (predecessorId: string) => {
+    onChange(
+      selected.includes(predecessorId)
+        ? selected.filter(id => id !== predecessorId)
+        : [...selected, predecessorId]
+    );
+  };
+
+  return (
+    <details className="min-w-36 text-sm">
+      <summary className="cursor-pointer py-2 text-gray-700">
+        {summary}
+        {task.predecessorIds === null ? (
+          <span className="text-xs text-muted-foreground"> (sequence)</span>
+        ) : null}
+      </summary>
+      <div className="mt-1 flex flex-col gap-1 rounded-md border bg-white p-2">
+        {tasks
+          .filter(candidate => candidate.id !== task.id)
+          .map(candidate => (
+            <label key={candidate.id} className="flex items-center gap-2 text-xs">
+              <input
+                type="checkbox"
+                className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                checked={selected.includes(candidate.id)}
+                onChange={() => togglePredecessor(candidate.id)}
+              />
+              <span>
+                {candidate.seqNumber} {candidate.task || "Untitled task"}
+              </span>
+            </label>
+          ))}
+        {task.predecessorIds !== null ? (
+          <Button
+            type="button"
+            variant="link"
+            size="sm"
+            className="h-auto justify-start px-0 text-xs"
+            onClick={() => onChange(null)}
+          >
+            Use sequence order
+          </Button>
+        ) : null}
+      </div>
+    </details>
+  );
+}
+
+function TaskGraphPreview({ tasks, graph }: { tasks: TemplateTask[]; graph: TaskGraph }) {
+  const columns = layoutTaskGraph(tasks, graph);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      {columns.map((column, columnIndex) => (
+        <React.Fragment key={columnIndex}>
+          {columnIndex > 0 ? <ArrowRight className="h-4 w-4 text-gray-400" /> : null}
+          <div className="flex flex-col gap-1">
+            {column.map(task => (
+              <span key={task.id} className="rounded-md border bg-gray-50 px-2 py-1 text-gray-700">
+                <span className="font-semibold">{task.seqNumber}</span> {task.task || "Untitled task"}
+              </span>
+            ))}
+          </div>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+}
+
+function summarizeEstimates(tasks: TemplateTask[], capabilities: Capability[]) {
+  const byCapability = new Map<string, number>();
+  let total = 0;
+  let optimistic = 0;
+  let pessimistic = 0;
+  let missing = 0;
+
+  tasks.forEach(task => {
+    if (task.estimateMinutes === null) {
+      missing += 1;
+      return;
+    }
+    total += task.estimateMinutes;
+    const range = describeUncertaintyProblem(task) ? null : task.uncertainty;
+    optimistic += range?.optimisticMinutes ?? task.estimateMinutes;
+    pessimistic += range?.pessimisticMinutes ?? task.estimateMinutes;
+    byCapability.set(task.capabilityId, (byCapability.get(task.capabilityId) ?? 0) + task.estimateMinutes);
+  });
+
+  const perCapability = capabilities
+    .filter(capability => byCapability.has(capability.id))
+    .map(capability => ({
+      id: capability.id,
+      label: capability.code || capability.description || "Capability",
+      minutes: byCapability.get(capability.id) ?? 0,
+    }));
+
+  return { total, optimistic, pessimistic, missing, perCapability };
 }
 
 export default function WorkflowTemplateSetup({
   teamName,
   teamCode,
   capabilities,
+  templates,
+  setTemplates,
+  validationIssues = [],
   onBack,
+  onContinue,
   onFinish,
+  onSaveProject,
+  onApplyArrivalRate,
+  onDeleteTemplate,
 }: WorkflowTemplateSetupProps) {
-  const [templates, setTemplates] = React.useState<Record<TemplateKey, TemplateTask[]>>({
-    enhancement: [],
-    defect: [],
-    incident: [],
-  });
-
   const fileInputRef = React.useRef<HTMLInputElement | null>(null);
+  const historyInputRef = React.useRef<HTMLInputElement | null>(null);
+  const csvInputRef = React.useRef<HTMLInputElement | null>(null);
+  const [spreadsheetNotice, setSpreadsheetNotice] = React.useState<
+    { type: "success" | "warning" | "error"; message: string; details: string[] } | null
+  >(null);
+  const [pendingLoad, setPendingLoad] = React.useState<
+    { fileName: string; templates: WorkflowTemplate[]; fixes: LoadFix[] } | null
+  >(null);
+  const [showChecklist, setShowChecklist] = React.useState(false);
+  const [calibration, setCalibration] = React.useState<Calibration | null>(null);
+  const [calibrationError, setCalibrationError] = React.useState<string | null>(null);
+
+  const taskSuggestions = new Map(calibration?.tasks.map(entry => [entry.taskId, entry]) ?? []);
+  const arrivalSuggestions = new Map(
+    calibration?.arrivals.map(entry => [entry.templateKey, entry]) ?? []
+  );
 
   const hasCapabilities = capabilities.length > 0;
 
+  React.useEffect(() => {
+    if (typeof window === "undefined" || !teamCode) {
+      return;
+    }
+
+    const payload = JSON.stringify(
+      {
+        teamCode,
+        teamName,
+        templates,
+        savedAt: new Date().toISOString(),
+      },
+      null,
+      2
+    );
+
+    window.localStorage.setItem(templateSetupStorageKey(teamCode), payload);
+  }, [teamCode, teamName, templates]);
+
   const handleSaveTemplates = React.useCallback(() => {
     if (typeof window === "undefined") {
       return;
     }
 
-    const filenameBase = (teamCode || teamName || "team").trim() || "team";
     const payload = {
       teamName,
       teamCode,
       templates,
     };
 
-    const blob = new Blob([JSON.stringify(payload, null, 2)], {
-      type: "application/json",
-    });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = `${filenameBase}_Template_Setup.json`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadFile(
+      `${toFileNameBase(teamCode, teamName)}_Template_Setup.json`,
+      JSON.stringify(payload, null, 2),
+      "application/json"
+    );
   }, [teamCode, teamName, templates]);
 
   const handleLoadTemplatesFromFile = React.useCallback(
@@ -129,55 +417,202 @@ export default function WorkflowTemplateSetup({
 
       const reader = new FileReader();
       reader.onload = () => {
-        try {
-          const text = typeof reader.result === "string" ? reader.result : "";
-          if (!text) {
-            return;
-          }
-
-          const parsed = JSON.parse(text) as unknown;
-          const rawTemplates =
-            parsed && typeof parsed === "object" && "templates" in parsed
-              ? (parsed as { templates: Record<string, unknown> }).templates
-              : (parsed as Record<string, unknown> | null);
-
-          const templateSource: Record<string, unknown> =
-            rawTemplates && typeof rawTemplates === "object"
-              ? (rawTemplates as Record<string, unknown>)
-              : {};
-
-          const next: Record<TemplateKey, TemplateTask[]> = TEMPLATE_DEFINITIONS.reduce(
-            (acc, definition) => {
-              const raw = templateSource[definition.key];
-              acc[definition.key] = sanitizeTasks(raw);
-              return acc;
-            },
-            {
-              enhancement: [] as TemplateTask[],
-              defect: [] as TemplateTask[],
-              incident: [] as TemplateTask[],
-            }
-          );
-
-          setTemplates(next);
-        } catch (error) {
-          console.error("Unable to load workflow templates", error);
-        } finally {
-          event.target.value = "";
+        event.target.value = "";
+        const result = loadTemplateSetupFile(
+          typeof reader.result === "string" ? reader.result : "",
+          capabilities
+        );
+        if (!result.ok) {
+          setPendingLoad(null);
+          setSpreadsheetNotice({
+            type: "error",
+            message: `${file.name} is not a valid template setup file.`,
+            details: result.errors,
+          });
+          return;
         }
+
+        setSpreadsheetNotice(null);
+        setPendingLoad({ fileName: file.name, templates: result.value, fixes: result.fixes });
       };
       reader.readAsText(file);
     },
-    []
+    [capabilities]
   );
 
+  const handleAcceptLoad = () => {
+    if (!pendingLoad) {
+      return;
+    }
+    setTemplates(pendingLoad.templates);
+    setPendingLoad(null);
+  };
+
   const handleLoadButtonClick = React.useCallback(() => {
     fileInputRef.current?.click();
   }, []);
 
-  const handleAddTask = (templateKey: TemplateKey) => {
+  const handleExportCsv = () => {
+    const fileName = `${toFileNameBase(teamCode, teamName)}_Templates.csv`;
+    downloadFile(fileName, toCsv(templatesToRows(templates, capabilities)), "text/csv");
+  };
+
+  const handleExportExcel = () => {
+    const fileName = `${toFileNameBase(teamCode, teamName)}_Templates.xlsx`;
+    downloadFile(fileName, buildXlsx(buildSetupSheets({ capabilities, templates })), XLSX_MIME_TYPE);
+  };
+
+  const handleImportCsv: React.ChangeEventHandler<HTMLInputElement> = async event => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    try {
+      const result = rowsToTemplates(parseCsv((await file.text()).replace(/^\uFEFF/, "")), templates, capabilities);
+      if (!result.ok) {
+        setSpreadsheetNotice({ type: "error", message: `${file.name}: ${result.error}`, details: [] });
+        return;
+      }
+      setTemplates(result.value);
+      setSpreadsheetNotice({
+        type: result.warnings.length > 0 ? "warning" : "success",
+        message: `Templates imported from ${file.name}.`,
+        details: result.warnings,
+      });
+    } catch (error) {
+      console.error("Unable to import workflow templates", error);
+      setSpreadsheetNotice({ type: "error", message: `${file.name}: the file could not be read.`, details: [] });
+    }
+  };
+
+  const handleLoadHistory: React.ChangeEventHandler<HTMLInputElement> = async event => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    try {
+      const result = calibrateFromHistory(await file.text(), templates);
+      setCalibration(result.ok ? result.calibration : null);
+      setCalibrationError(result.ok ? null : `${file.name}: ${result.error}`);
+    } catch (error) {
+      console.error("Unable to read completed-work history", error);
+      setCalibrationError(`${file.name}: the file could not be read.`);
+    }
+  };
+
+  const applyTaskSuggestions = (suggestions: TaskCalibration[]) => {
+    const byTaskId = new Map(suggestions.map(entry => [entry.taskId, entry]));
+    setTemplates(prev =>
+      prev.map(template => ({
+        ...template,
+        tasks: template.tasks.map(task => {
+          const suggestion = byTaskId.get(task.id);
+          return suggestion
+            ? { ...task, estimateMinutes: suggestion.estimateMinutes, uncertainty: suggestion.uncertainty }
+            : task;
+        }),
+      }))
+    );
+  };
+
+  const handleApplyAllSuggestions = () => {
+    if (!calibration) {
+      return;
+    }
+    applyTaskSuggestions(calibration.tasks);
+    calibration.arrivals.forEach(entry => {
+      if (entry.ratePerWeek !== null) {
+        onApplyArrivalRate?.(entry.templateKey, entry.ratePerWeek);
+      }
+    });
+  };
+
+  const proceedWhenValid = (proceed: () => void) => {
+    if (validationIssues.length > 0) {
+      setShowChecklist(true);
+      return;
+    }
+    proceed();
+  };
+
+  const updateTasks = (
+    templateKey: TemplateKey,
+    update: (tasks: TemplateTask[]) => TemplateTask[]
+  ) => {
+    setTemplates(prev =>
+      prev.map(template =>
+        template.key === templateKey ? { ...template, tasks: update(template.tasks) } : template
+      )
+    );
+  };
+
+  const handleAddTemplate = () => {
+    setTemplates(prev => {
+      const title = `Template ${prev.length + 1}`;
+      const key = createTemplateKey(title, prev);
+      return [...prev, { key, title, ...getDefaultScheduling(key), tasks: [] }];
+    });
+  };
+
+  const handleRenameTemplate = (templateKey: TemplateKey, title: string) => {
+    setTemplates(prev =>
+      prev.map(template => (template.key === templateKey ? { ...template, title } : template))
+    );
+  };
+
+  const handleSchedulingChange = (templateKey: TemplateKey, scheduling: Partial<TemplateScheduling>) => {
+    setTemplates(prev =>
+      prev.map(template => (template.key === templateKey ? { ...template, ...scheduling } : template))
+    );
+  };
+
+  const handleDuplicateTemplate = (templateKey: TemplateKey) => {
     setTemplates(prev => {
-      const current = prev[templateKey] ?? [];
+      const index = prev.findIndex(template => template.key === templateKey);
+      if (index === -1) {
+        return prev;
+      }
+
+      const source = prev[index];
+      const idMap = new Map(source.tasks.map(task => [task.id, generateId()]));
+      const title = `${source.title} (copy)`;
+      const copy: WorkflowTemplate = {
+        ...source,
+        key: createTemplateKey(title, prev),
+        title,
+        tasks: source.tasks.map(task => ({
+          ...task,
+          id: idMap.get(task.id) ?? generateId(),
+          predecessorIds:
+            task.predecessorIds?.map(id => idMap.get(id)).filter((id): id is string => !!id) ??
+            null,
+        })),
+      };
+      return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+    });
+  };
+
+  const handleDeleteTemplate = (template: WorkflowTemplate) => {
+    const taskCount = template.tasks.length;
+    if (
+      !window.confirm(
+        `Delete "${template.title || "Untitled template"}"${
+          taskCount > 0 ? ` and its ${taskCount} ${taskCount === 1 ? "task" : "tasks"}` : ""
+        }? Its arrival settings and backlog items are removed too.`
+      )
+    ) {
+      return;
+    }
+    setTemplates(prev => prev.filter(candidate => candidate.key !== template.key));
+    onDeleteTemplate?.(template.key);
+  };
+
+  const handleAddTask = (templateKey: TemplateKey) => {
+    updateTasks(templateKey, current => {
       const nextCapabilityId = current.length
         ? current[current.length - 1].capabilityId
         : capabilities[0]?.id ?? "";
@@ -186,74 +621,69 @@ export default function WorkflowTemplateSetup({
         id: generateId(),
         seqNumber: (current.length + 1) * 10,
         task: "",
-        estimate: "",
+        estimateMinutes: null,
+        uncertainty: null,
         capabilityId: nextCapabilityId,
+        predecessorIds: null,
       };
 
-      return {
-        ...prev,
-        [templateKey]: [...current, newTask],
-      };
+      return [...current, newTask];
     });
   };
 
-  const handleTaskChange = <K extends keyof Pick<TemplateTask, "task" | "estimate" | "capabilityId">>(
+  const handleTaskChange = <K extends keyof Pick<TemplateTask, "task" | "estimateMinutes" | "uncertainty" | "capabilityId" | "predecessorIds">>(
     templateKey: TemplateKey,
     taskId: string,
     key: K,
     value: TemplateTask[K]
   ) => {
-    setTemplates(prev => {
-      const current = prev[templateKey] ?? [];
-      const updated = current.map(task =>
-        task.id === taskId
-          ? {
-              ...task,
-              [key]: value,
-            }
-          : task
-      );
-      return {
-        ...prev,
-        [templateKey]: normalizeSequence(updated),
-      };
-    });
+    updateTasks(templateKey, current =>
+      normalizeSequence(
+        current.map(task =>
+          task.id === taskId
+            ? {
+                ...task,
+                [key]: value,
+              }
+            : task
+        )
+      )
+    );
   };
 
   const handleMoveTask = (templateKey: TemplateKey, taskId: string, direction: "up" | "down") => {
-    setTemplates(prev => {
-      const current = prev[templateKey] ?? [];
+    updateTasks(templateKey, current => {
       const list = [...current];
       const index = list.findIndex(task => task.id === taskId);
       if (index === -1) {
-        return prev;
+        return current;
       }
 
       const swapIndex = direction === "up" ? index - 1 : index + 1;
       if (swapIndex < 0 || swapIndex >= list.length) {
-        return prev;
+        return current;
       }
 
       const temp = list[index];
       list[index] = list[swapIndex];
       list[swapIndex] = temp;
 
-      return {
-        ...prev,
-        [templateKey]: normalizeSequence(list),
-      };
+      return normalizeSequence(list);
     });
   };
 
   const handleDeleteTask = (templateKey: TemplateKey, taskId: string) => {
-    setTemplates(prev => {
-      const current = prev[templateKey] ?? [];
-      const filtered = current.filter(task => task.id !== taskId);
-      return {
-        ...prev,
-        [templateKey]: normalizeSequence(filtered),
-      };
-    });
+    updateTasks(templateKey, current =>
+      normalizeSequence(
+        current
+          .filter(task => task.id !== taskId)
+          .map(task =>
+            task.predecessorIds?.includes(taskId)
+              ? { ...task, predecessorIds: task.predecessorIds.filter(id => id !== taskId) }
+              : task
+          )
+      )
+    );
   };
 
   return (
@@ -280,13 +710,40 @@ export default function WorkflowTemplateSetup({
           <Button type="button" variant="secondary" onClick={handleLoadButtonClick}>
             Load Templates
           </Button>
+          <Button type="button" variant="secondary" onClick={() => historyInputRef.current?.click()}>
+            Calibrate from History
+          </Button>
+          <Button type="button" variant="ghost" onClick={() => csvInputRef.current?.click()}>
+            Import CSV
+          </Button>
+          <Button type="button" variant="ghost" onClick={handleExportCsv}>
+            Export CSV
+          </Button>
+          <Button type="button" variant="ghost" onClick={handleExportExcel}>
+            Export Excel
+          </Button>
+          {onSaveProject ? (
+            <Button type="button" variant="secondary" onClick={onSaveProject}>
+              Save Project
+            </Button>
+          ) : null}
+          <Button type="button" variant="outline" onClick={handleAddTemplate}>
+            Add Template
+          </Button>
+          {onContinue ? (
+            <Button type="button" onClick={() => proceedWhenValid(onContinue)}>
+              Continue
+            </Button>
+          ) : null}
           {onFinish ? (
-            <Button type="button" onClick={onFinish}>
+            <Button type="button" onClick={() => proceedWhenValid(onFinish)}>
               Finish
             </Button>
           ) : null}
         </div>
 
+        {showChecklist ? <ValidationChecklist issues={validationIssues} /> : null}
+
         <input
           ref={fileInputRef}
           type="file"
@@ -294,17 +751,248 @@ export default function WorkflowTemplateSetup({
           className="hidden"
           onChange={handleLoadTemplatesFromFile}
         />
+        <input
+          ref={historyInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={handleLoadHistory}
+        />
+        <input
+          ref={csvInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={handleImportCsv}
+        />
+
+        {pendingLoad ? (
+          <LoadReportPanel
+            fileName={pendingLoad.fileName}
+            summary={`${pendingLoad.templates.length} templates with ${pendingLoad.templates.reduce(
+              (total, template) => total + template.tasks.length,
+              0
+            )} tasks`}
+            fixes={pendingLoad.fixes}
+            onAccept={handleAcceptLoad}
+            onCancel={() => setPendingLoad(null)}
+          />
+        ) : null}
+
+        {spreadsheetNotice ? (
+          <div
+            className={`rounded-md border px-4 py-2 text-sm ${
+              spreadsheetNotice.type === "success"
+                ? "border-emerald-200 bg-emerald-50 text-emerald-700"
+                : spreadsheetNotice.type === "warning"
+                  ? "border-amber-200 bg-amber-50 text-amber-800"
+                  : "border-red-200 bg-red-50 text-red-700"
+            }`}
+            role="status"
+            aria-live="polite"
+          >
+            {spreadsheetNotice.message}
+            {spreadsheetNotice.details.length > 0 ? (
+              <ul className="mt-1 list-disc pl-5">
+                {spreadsheetNotice.details.map((detail, index) => (
+                  <li key={index}>{detail}</li>
+                ))}
+              </ul>
+            ) : null}
+          </div>
+        ) : null}
+
+        {calibrationError ? (
+          <div
+            className="rounded-md border border-red-200 bg-red-50 px-4 py-2 text-sm text-red-700"
+            role="status"
+            aria-live="polite"
+          >
+            {calibrationError}
+          </div>
+        ) : null}
+
+        {calibration ? (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Calibration from Completed Work</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                {calibration.steps} steps of {calibration.workItems} work items matched. Suggested
+                estimates are the median working time per step, with the 10th to 90th percentile as
+                the range once a task has three or more samples. They appear next to each estimate below.
+              </p>
+            </CardHeader>
+            <CardContent className="flex flex-col gap-3 text-sm">
+              {calibration.unmatched.length > 0 ? (
+                <p className="text-amber-700">
+                  Not matched to a template task:{" "}
+                  {calibration.unmatched
+                    .map(entry => `${entry.template} / ${entry.task} (${entry.count})`)
+                    .join(", ")}
+                </p>
+              ) : null}
+              {calibration.errors.length > 0 ? (
+                <ul className="flex flex-col gap-1 text-red-700">
+                  {calibration.errors.map((error, index) => (
+                    <li key={`${error.row}-${index}`}>
+                      Row {error.row}: {error.message}
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+              <div className="flex flex-wrap gap-3">
+                <Button
+                  type="button"
+                  onClick={handleApplyAllSuggestions}
+                  disabled={calibration.tasks.length === 0 && calibration.arrivals.length === 0}
+                >
+                  Apply All Suggestions
+                </Button>
+                <Button type="button" variant="ghost" onClick={() => setCalibration(null)}>
+                  Dismiss
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ) : null}
 
         <div className="grid grid-cols-1 gap-6">
-          {TEMPLATE_DEFINITIONS.map(template => {
-            const tasks = templates[template.key];
+          {templates.length === 0 ? (
+            <p className="rounded-md border border-dashed bg-white px-4 py-6 text-center text-sm text-gray-500">
+              No templates defined. Click &ldquo;Add Template&rdquo; to create one.
+            </p>
+          ) : null}
+          {templates.map(template => {
+            const tasks = template.tasks;
+            const summary = summarizeEstimates(tasks, capabilities);
+            const graph = resolveTaskGraph(tasks);
+            const seqNumberById = new Map(tasks.map(task => [task.id, task.seqNumber]));
+            const arrivalSuggestion = arrivalSuggestions.get(template.key);
             return (
               <Card key={template.key} className="flex flex-col">
                 <CardHeader className="flex flex-row items-center justify-between gap-3">
-                  <CardTitle className="text-lg">{template.title}</CardTitle>
-                  <Button type="button" size="sm" onClick={() => handleAddTask(template.key)}>
-                    Add Task
-                  </Button>
+                  <div className="flex flex-1 flex-col gap-1">
+                    <CardTitle className="text-lg">
+                      <Input
+                        value={template.title}
+                        onChange={event => handleRenameTemplate(template.key, event.target.value)}
+                        placeholder="Template name"
+                        aria-label="Template name"
+                        className="max-w-sm text-lg font-semibold"
+                      />
+                    </CardTitle>
+                    <p className="text-xs text-muted-foreground">
+                      Total {formatDuration(summary.total)}
+                      {summary.optimistic !== summary.pessimistic ? (
+                        <span>
+                          {" "}
+                          (range {formatDuration(summary.optimistic)}–{formatDuration(summary.pessimistic)})
+                        </span>
+                      ) : null}
+                      {summary.perCapability.map(entry => (
+                        <span key={entry.id}>
+                          {" · "}
+                          {entry.label} {formatDuration(entry.minutes)}
+                        </span>
+                      ))}
+                      {summary.missing > 0 ? (
+                        <span className="text-amber-600">
+                          {" · "}
+                          {summary.missing} without estimate
+                        </span>
+                      ) : null}
+                    </p>
+                    {arrivalSuggestion ? (
+                      <p className="flex items-center gap-2 text-xs text-blue-700">
+                        History: {arrivalSuggestion.workItems} work items
+                        {arrivalSuggestion.ratePerWeek !== null
+                          ? `, ${arrivalSuggestion.ratePerWeek} arrivals per week`
+                          : ""}
+                        {arrivalSuggestion.ratePerWeek !== null && onApplyArrivalRate ? (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-2"
+                            onClick={() =>
+                              onApplyArrivalRate(template.key, arrivalSuggestion.ratePerWeek ?? 0)
+                            }
+                          >
+                            Apply
+                          </Button>
+                        ) : null}
+                      </p>
+                    ) : null}
+                    <div className="flex flex-wrap items-start gap-3 text-xs">
+                      <label className="flex items-center gap-1 pt-2">
+                        Priority
+                        <Input
+                          type="number"
+                          step={1}
+                          value={template.priority}
+                          onChange={event => {
+                            const priority = Number(event.target.value);
+                            if (Number.isFinite(priority)) {
+                              handleSchedulingChange(template.key, { priority: Math.round(priority) });
+                            }
+                          }}
+                          className="h-8 w-16"
+                          aria-label={`${template.title} priority`}
+                        />
+                      </label>
+                      <label className="flex items-center gap-1 pt-2">
+                        <input
+                          type="checkbox"
+                          className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                          checked={template.preempts}
+                          onChange={event =>
+                            handleSchedulingChange(template.key, { preempts: event.target.checked })
+                          }
+                        />
+                        Interrupts lower-priority work
+                      </label>
+                      {template.preempts ? (
+                        <div className="flex items-start gap-1">
+                          <span className="pt-2">Context switch</span>
+                          <EstimateInput
+                            value={template.contextSwitchMinutes}
+                            onChange={minutes => {
+                              if (minutes !== null) {
+                                handleSchedulingChange(template.key, { contextSwitchMinutes: minutes });
+                              }
+                            }}
+                            placeholder="e.g. 00:15"
+                            label="Context switch penalty added when interrupted work resumes"
+                          />
+                        </div>
+                      ) : null}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button type="button" size="sm" onClick={() => handleAddTask(template.key)}>
+                      Add Task
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => handleDuplicateTemplate(template.key)}
+                      aria-label="Duplicate template"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive"
+                      onClick={() => handleDeleteTemplate(template)}
+                      aria-label="Delete template"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
                 </CardHeader>
                 <CardContent className="flex flex-1 flex-col gap-4">
                   <div className="overflow-x-auto">
@@ -313,15 +1001,17 @@ export default function WorkflowTemplateSetup({
                         <tr>
                           <th className="px-3 py-2 text-left">Seq #</th>
                           <th className="px-3 py-2 text-left">Task</th>
-                          <th className="px-3 py-2 text-left">Estimate (hh:mm)</th>
+                          <th className="px-3 py-2 text-left">Estimate (hh:mm, 1.5, 2h 30m)</th>
+                          <th className="px-3 py-2 text-left">Uncertainty</th>
                           <th className="px-3 py-2 text-left">Capability</th>
+                          <th className="px-3 py-2 text-left">Depends on</th>
                           <th className="px-3 py-2 text-center">Actions</th>
                         </tr>
                       </thead>
                       <tbody className="divide-y divide-gray-200 bg-white">
                         {tasks.length === 0 ? (
                           <tr>
-                            <td className="px-3 py-6 text-center text-xs text-gray-500" colSpan={5}>
+                            <td className="px-3 py-6 text-center text-xs text-gray-500" colSpan={7}>
                               No tasks defined. Click &ldquo;Add Task&rdquo; to create one.
                             </td>
                           </tr>
@@ -341,13 +1031,23 @@ export default function WorkflowTemplateSetup({
                                 />
                               </td>
                               <td className="px-3 py-2 align-top">
-                                <Input
-                                  value={task.estimate}
-                                  onChange={event =>
-                                    handleTaskChange(template.key, task.id, "estimate", event.target.value)
+                                <EstimateInput
+                                  value={task.estimateMinutes}
+                                  onChange={minutes =>
+                                    handleTaskChange(template.key, task.id, "estimateMinutes", minutes)
+                                  }
+                                />
+                                <CalibrationHint
+                                  suggestion={taskSuggestions.get(task.id)}
+                                  onApply={suggestion => applyTaskSuggestions([suggestion])}
+                                />
+                              </td>
+                              <td className="px-3 py-2 align-top">
+                                <UncertaintyEditor
+                                  task={task}
+                                  onChange={uncertainty =>
+                                    handleTaskChange(template.key, task.id, "uncertainty", uncertainty)
                                   }
-                                  placeholder="e.g. 01:30"
-                                  aria-label="Estimated effort in hours and minutes"
                                 />
                               </td>
                               <td className="px-3 py-2 align-top">
@@ -369,6 +1069,16 @@ export default function WorkflowTemplateSetup({
                                   ))}
                                 </select>
                               </td>
+                              <td className="px-3 py-2 align-top">
+                                <DependencyEditor
+                                  task={task}
+                                  tasks={tasks}
+                                  graph={graph}
+                                  onChange={predecessorIds =>
+                                    handleTaskChange(template.key, task.id, "predecessorIds", predecessorIds)
+                                  }
+                                />
+                              </td>
                               <td className="px-3 py-2 align-top text-center">
                                 <div className="flex items-center justify-center gap-1">
                                   <Button
@@ -411,6 +1121,13 @@ export default function WorkflowTemplateSetup({
                       </tbody>
                     </table>
                   </div>
+                  {graph.cycle ? (
+                    <p className="text-xs text-red-600">
+                      Dependency cycle: {graph.cycle.map(id => seqNumberById.get(id)).join(" → ")}. Tasks
+                      run in sequence order until the cycle is removed.
+                    </p>
+                  ) : null}
+                  {tasks.length > 1 ? <TaskGraphPreview tasks={tasks} graph={graph} /> : null}
                   {!hasCapabilities ? (
                     <p className="text-xs text-amber-600">
                       Define at least one capability in the team setup to assign it here.
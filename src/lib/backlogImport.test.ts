@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyBacklogMapping,
+  collectSourceValues,
+  parseBacklogFile,
+  suggestBacklogMapping,
+  toBacklogItems,
+  type ImportedIssue,
+} from "@/lib/backlogImport";
+import { createDefaultTemplates } from "@/lib/workflowTemplates";
+
+function issue(sourceId: string, type: string | null, labels: string[] = [], row = 1): ImportedIssue {
+  return { row, sourceId, title: `${sourceId} title`, type, labels };
+}
+
+describe("parseBacklogFile", () => {
+  it("reads a CSV export, repeated label columns included", () => {
+    const result = parseBacklogFile(
+      "\uFEFFIssue key,Summary,Issue Type,Labels,Labels\r\nAPP-1,Login fails,Bug,urgent,web\r\nAPP-2,,Story,,\r\n,,,,\r\n"
+    );
+
+    expect(result).toEqual({
+      ok: true,
+      format: "csv",
+      issues: [{ row: 2, sourceId: "APP-1", title: "Login fails", type: "Bug", labels: ["urgent", "web"] }],
+      errors: [{ row: 3, message: "The title is empty." }],
+    });
+  });
+
+  it("numbers CSV rows without an id column", () => {
+    const result = parseBacklogFile("Title,Tags\nTidy up,chore;docs\n");
+
+    expect(result.ok && result.issues).toEqual([
+      { row: 2, sourceId: "row-2", title: "Tidy up", type: null, labels: ["chore", "docs"] },
+    ]);
+  });
+
+  it("rejects a CSV without a title or a way to pick templates", () => {
+    expect(parseBacklogFile("Key,Type\nA-1,Bug\n")).toEqual({
+      ok: false,
+      error: "The CSV needs a Title or Summary column.",
+    });
+    expect(parseBacklogFile("Key,Title\nA-1,Thing\n")).toEqual({
+      ok: false,
+      error: "The CSV needs a Type or Labels column to pick templates from.",
+    });
+  });
+
+  it("reads a Jira search export", () => {
+    const result = parseBacklogFile(
+      JSON.stringify({
+        issues: [
+          { key: "APP-7", fields: { summary: "Checkout slow", issuetype: { name: "Incident" }, labels: ["perf"] } },
+          { key: "APP-8", fields: {} },
+        ],
+      })
+    );
+
+    expect(result).toEqual({
+      ok: true,
+      format: "jira",
+      issues: [{ row: 1, sourceId: "APP-7", title: "Checkout slow", type: "Incident", labels: ["perf"] }],
+      errors: [{ row: 2, message: "The issue has no key or summary." }],
+    });
+  });
+
+  it("reads open GitHub issues and skips pull requests and closed issues", () => {
+    const result = parseBacklogFile(
+      JSON.stringify([
+        { number: 12, title: "Crash on save", state: "open", labels: [{ name: "bug" }, "ui"] },
+        { number: 13, title: "Add export", pull_request: {} },
+        { number: 14, title: "Old", state: "closed" },
+      ])
+    );
+
+    expect(result).toEqual({
+      ok: true,
+      format: "github",
+      issues: [{ row: 1, sourceId: "#12", title: "Crash on save", type: null, labels: ["bug", "ui"] }],
+      errors: [
+        { row: 2, message: "#13 is a pull request, not an issue." },
+        { row: 3, message: "#14 is already closed." },
+      ],
+    });
+  });
+
+  it("explains JSON it cannot read", () => {
+    expect(parseBacklogFile("{ nope")).toEqual({ ok: false, error: "The file is not valid JSON." });
+    expect(parseBacklogFile("[]")).toEqual({ ok: false, error: "The export contains no issues." });
+    expect(parseBacklogFile('{"items": []}')).toEqual({
+      ok: false,
+      error: "The JSON does not contain a list of issues.",
+    });
+  });
+});
+
+describe("mapping issues to templates", () => {
+  const issues = [
+    issue("A-1", "Bug", ["Urgent"], 2),
+    issue("A-2", "Story", [], 3),
+    issue("A-3", null, ["urgent", "outage"], 4),
+    issue("A-4", "Spike", [], 5),
+    issue("A-2", "Bug", [], 6),
+  ];
+
+  it("counts each type or label once per issue, ignoring case", () => {
+    expect(collectSourceValues(issues)).toEqual([
+      { value: "bug", count: 2 },
+      { value: "urgent", count: 2 },
+      { value: "outage", count: 1 },
+      { value: "spike", count: 1 },
+      { value: "story", count: 1 },
+    ]);
+  });
+
+  it("suggests templates by key, title or common synonym", () => {
+    const templates = createDefaultTemplates();
+
+    expect(suggestBacklogMapping(issues, templates)).toEqual({
+      bug: "defect",
+      urgent: null,
+      outage: "incident",
+      spike: null,
+      story: "enhancement",
+    });
+    expect(suggestBacklogMapping([issue("A-9", "Defect Template")], templates)).toEqual({
+      "defect template": "defect",
+    });
+  });
+
+  it("lets the type decide before the labels and reports what cannot be imported", () => {
+    const mapping = { bug: "defect", urgent: null, outage: "incident", story: "enhancement" };
+    const mapped = applyBacklogMapping(issues, mapping);
+
+    expect(mapped.map(entry => entry.templateKey)).toEqual(["defect", "enhancement", "incident", null, "defect"]);
+    expect(toBacklogItems(mapped)).toEqual({
+      items: [
+        { id: "A-1", title: "A-1 title", templateKey: "defect" },
+        { id: "A-2", title: "A-2 title", templateKey: "enhancement" },
+        { id: "A-3", title: "A-3 title", templateKey: "incident" },
+      ],
+      errors: [
+        { row: 5, message: "A-4 does not map to a template." },
+        { row: 6, message: "A-2 appears more than once." },
+      ],
+    });
+  });
+});
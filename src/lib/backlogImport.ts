@@ -0,0 +1,283 @@
+import type { TemplateKey, WorkflowTemplate } from "@/lib/workflowTemplates";
+import { parseCsv } from "@/lib/csv";
+import type { BacklogItem } from "@/lib/simulation/arrivals";
+
+export type BacklogSourceFormat = "csv" | "jira" | "github";
+
+export type ImportedIssue = {
+  /** 1-based CSV line or position in the JSON export, for error messages. */
+  row: number;
+  sourceId: string;
+  title: string;
+  /** Issue type, e.g. Jira's `issuetype`; null when the source has none. */
+  type: string | null;
+  labels: string[];
+};
+
+export type ImportRowError = {
+  row: number;
+  message: string;
+};
+
+export type BacklogParseResult =
+  | { ok: true; format: BacklogSourceFormat; issues: ImportedIssue[]; errors: ImportRowError[] }
+  | { ok: false; error: string };
+
+/** Template per lower-cased issue type or label; null ignores the value. */
+export type BacklogMapping = Record<string, TemplateKey | null>;
+
+export type MappedIssue = ImportedIssue & {
+  templateKey: TemplateKey | null;
+};
+
+export const BACKLOG_FORMAT_LABELS: Record<BacklogSourceFormat, string> = {
+  csv: "CSV",
+  jira: "Jira export",
+  github: "GitHub issues export",
+};
+
+/** Common issue types and labels and the built-in template they usually mean. */
+const TEMPLATE_SYNONYMS: Record<string, TemplateKey> = {
+  story: "enhancement",
+  "user story": "enhancement",
+  feature: "enhancement",
+  improvement: "enhancement",
+  task: "enhancement",
+  epic: "enhancement",
+  bug: "defect",
+  defect: "defect",
+  incident: "incident",
+  outage: "incident",
+  hotfix: "incident",
+  "production issue": "incident",
+};
+
+const CSV_COLUMNS = {
+  id: ["id", "key", "issue key", "issue id", "number", "#"],
+  title: ["title", "summary", "name"],
+  type: ["type", "issue type", "issuetype", "kind"],
+  labels: ["labels", "label", "tags"],
+} as const;
+
+function asText(value: unknown) {
+  return typeof value === "string" ? value.trim() : typeof value === "number" ? String(value) : "";
+}
+
+function splitLabels(value: string) {
+  return value
+    .split(/[;,|]/)
+    .map(label => label.trim())
+    .filter(Boolean);
+}
+
+function parseCsvBacklog(text: string): BacklogParseResult {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return { ok: false, error: "The file is empty." };
+  }
+
+  const columns = header.map(cell => cell.trim().toLowerCase());
+  const findColumn = (names: readonly string[]) => columns.findIndex(column => names.includes(column));
+  const idColumn = findColumn(CSV_COLUMNS.id);
+  const titleColumn = findColumn(CSV_COLUMNS.title);
+  const typeColumn = findColumn(CSV_COLUMNS.type);
+  const labelColumns = columns.flatMap((column, index) =>
+    (CSV_COLUMNS.labels as readonly string[]).includes(column) ? [index] : []
+  );
+
+  if (titleColumn === -1) {
+    return { ok: false, error: "The CSV needs a Title or Summary column." };
+  }
+  if (typeColumn === -1 && labelColumns.length === 0) {
+    return { ok: false, error: "The CSV needs a Type or Labels column to pick templates from." };
+  }
+
+  const issues: ImportedIssue[] = [];
+  const errors: ImportRowError[] = [];
+  rows.forEach((cells, index) => {
+    const row = index + 2;
+    if (cells.every(cell => cell.trim() === "")) {
+      return;
+    }
+
+    const title = asText(cells[titleColumn]);
+    if (!title) {
+      errors.push({ row, message: "The title is empty." });
+      return;
+    }
+    issues.push({
+      row,
+      sourceId: (idColumn === -1 ? "" : asText(cells[idColumn])) || `row-${row}`,
+      title,
+      type: typeColumn === -1 ? null : asText(cells[typeColumn]) || null,
+      // Jira CSV exports repeat the Labels column once per label.
+      labels: labelColumns.flatMap(column => splitLabels(cells[column] ?? "")),
+    });
+  });
+
+  return { ok: true, format: "csv", issues, errors };
+}
+
+function parseJiraIssues(entries: unknown[]): { issues: ImportedIssue[]; errors: ImportRowError[] } {
+  const issues: ImportedIssue[] = [];
+  const errors: ImportRowError[] = [];
+  entries.forEach((entry, index) => {
+    const row = index + 1;
+    const candidate = (entry ?? {}) as Record<string, unknown>;
+    const fields = (candidate.fields ?? {}) as Record<string, unknown>;
+    const title = asText(fields.summary);
+    const sourceId = asText(candidate.key) || asText(candidate.id);
+    if (!sourceId || !title) {
+      errors.push({ row, message: "The issue has no key or summary." });
+      return;
+    }
+    const issueType = (fields.issuetype ?? {}) as Record<string, unknown>;
+    issues.push({
+      row,
+      sourceId,
+      title,
+      type: asText(issueType.name) || null,
+      labels: Array.isArray(fields.labels) ? fields.labels.map(asText).filter(Boolean) : [],
+    });
+  });
+  return { issues, errors };
+}
+
+function parseGitHubIssues(entries: unknown[]): { issues: ImportedIssue[]; errors: ImportRowError[] } {
+  const issues: ImportedIssue[] = [];
+  const errors: ImportRowError[] = [];
+  entries.forEach((entry, index) => {
+    const row = index + 1;
+    const candidate = (entry ?? {}) as Record<string, unknown>;
+    const number = asText(candidate.number);
+    const title = asText(candidate.title);
+    if (!number || !title) {
+      errors.push({ row, message: "The issue has no number or title." });
+      return;
+    }
+    if (candidate.pull_request) {
+      errors.push({ row, message: `#${number} is a pull request, not an issue.` });
+      return;
+    }
+    if (candidate.state === "closed") {
+      errors.push({ row, message: `#${number} is already closed.` });
+      return;
+    }
+    const labels = Array.isArray(candidate.labels)
+      ? candidate.labels
+          .map(label =>
+            typeof label === "string" ? label : asText((label as Record<string, unknown> | null)?.name)
+          )
+          .filter(Boolean)
+      : [];
+    const issueType = (candidate.type ?? null) as Record<string, unknown> | null;
+    issues.push({ row, sourceId: `#${number}`, title, type: asText(issueType?.name) || null, labels });
+  });
+  return { issues, errors };
+}
+
+function parseJsonBacklog(text: string): BacklogParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "The file is not valid JSON." };
+  }
+
+  // Jira's search API wraps issues in `{ issues: [...] }`; GitHub returns a bare array.
+  const entries = Array.isArray(raw)
+    ? raw
+    : raw && typeof raw === "object" && Array.isArray((raw as Record<string, unknown>).issues)
+      ? ((raw as Record<string, unknown>).issues as unknown[])
+      : null;
+  if (!entries) {
+    return { ok: false, error: "The JSON does not contain a list of issues." };
+  }
+
+  if (entries.length === 0) {
+    return { ok: false, error: "The export contains no issues." };
+  }
+
+  const first = (entries[0] ?? {}) as Record<string, unknown>;
+  if ("fields" in first) {
+    return { ok: true, format: "jira", ...parseJiraIssues(entries) };
+  }
+  if ("number" in first) {
+    return { ok: true, format: "github", ...parseGitHubIssues(entries) };
+  }
+  return { ok: false, error: "The issues are neither in Jira nor in GitHub export format." };
+}
+
+/** Reads a CSV, Jira or GitHub issue export; the format is detected from the content. */
+export function parseBacklogFile(text: string): BacklogParseResult {
+  const content = text.replace(/^\uFEFF/, "");
+  const trimmed = content.trimStart();
+  return trimmed.startsWith("{") || trimmed.startsWith("[")
+    ? parseJsonBacklog(content)
+    : parseCsvBacklog(content);
+}
+
+/** Issue types and labels that can pick a template, with how many issues carry each. */
+export function collectSourceValues(issues: ImportedIssue[]): { value: string; count: number }[] {
+  const counts = new Map<string, number>();
+  issues.forEach(issue => {
+    const values = new Set(
+      [issue.type, ...issue.labels].filter((value): value is string => !!value).map(value => value.toLowerCase())
+    );
+    values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  });
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
+
+/** Maps each source value onto the template whose key, title or usual synonym it names. */
+export function suggestBacklogMapping(issues: ImportedIssue[], templates: WorkflowTemplate[]): BacklogMapping {
+  const templateKeys = new Set(templates.map(template => template.key));
+  return Object.fromEntries(
+    collectSourceValues(issues).map(({ value }) => {
+      const direct = templates.find(
+        template => template.key.toLowerCase() === value || template.title.toLowerCase() === value
+      );
+      const synonym = TEMPLATE_SYNONYMS[value];
+      return [value, direct?.key ?? (synonym && templateKeys.has(synonym) ? synonym : null)];
+    })
+  );
+}
+
+/** The issue type decides first, then the labels in order. */
+export function applyBacklogMapping(issues: ImportedIssue[], mapping: BacklogMapping): MappedIssue[] {
+  return issues.map(issue => {
+    const templateKey =
+      [issue.type, ...issue.labels]
+        .filter((value): value is string => !!value)
+        .map(value => mapping[value.toLowerCase()] ?? null)
+        .find(key => key !== null) ?? null;
+    return { ...issue, templateKey };
+  });
+}
+
+/**
+ * Turns mapped issues into backlog items. Issues without a template and
+ * repeated ids are reported per row and left out.
+ */
+export function toBacklogItems(mapped: MappedIssue[]): { items: BacklogItem[]; errors: ImportRowError[] } {
+  const items: BacklogItem[] = [];
+  const errors: ImportRowError[] = [];
+  const seenIds = new Set<string>();
+
+  mapped.forEach(issue => {
+    if (!issue.templateKey) {
+      errors.push({ row: issue.row, message: `${issue.sourceId} does not map to a template.` });
+      return;
+    }
+    if (seenIds.has(issue.sourceId)) {
+      errors.push({ row: issue.row, message: `${issue.sourceId} appears more than once.` });
+      return;
+    }
+    seenIds.add(issue.sourceId);
+    items.push({ id: issue.sourceId, title: issue.title, templateKey: issue.templateKey });
+  });
+
+  return { items, errors };
+}
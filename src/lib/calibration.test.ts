@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { calibrateFromHistory } from "@/lib/calibration";
+import type { TemplateTask, WorkflowTemplate } from "@/lib/workflowTemplates";
+
+function task(id: string, name: string, seqNumber: number): TemplateTask {
+  return {
+    id,
+    seqNumber,
+    task: name,
+    estimateMinutes: 60,
+    uncertainty: null,
+    capabilityId: "dev",
+    predecessorIds: null,
+  };
+}
+
+const TEMPLATES: WorkflowTemplate[] = [
+  {
+    key: "defect",
+    title: "Defect Template",
+    priority: 0,
+    preempts: false,
+    contextSwitchMinutes: 15,
+    tasks: [task("fix", "Fix", 10), task("verify", "Verify", 20)],
+  },
+];
+
+const HISTORY = [
+  "Work Item,Template,Task,Started,Completed",
+  "D-1,defect,Fix,2026-01-05 09:00,2026-01-05 11:00",
+  "D-1,Defect Template,verify,2026-01-05 11:00,2026-01-05 11:30",
+  "D-2,defect,Fix,2026-01-07 16:00,2026-01-08T10:00:00Z",
+  "D-3,defect,Fix,2026-01-12 09:00,2026-01-12 13:00",
+  "D-3,defect,Review,2026-01-12 13:00,2026-01-12 14:00",
+  "D-4,defect,Fix,yesterday,2026-01-12 14:00",
+  "D-5,defect,Fix,2026-01-10 10:00,2026-01-10 10:45",
+  "D-6,defect,Fix,2026-01-06 10:00,2026-01-06 09:00",
+  ",defect,Fix,2026-01-06 10:00,2026-01-06 11:00",
+].join("\n");
+
+describe("calibrateFromHistory", () => {
+  it("fits estimates from working minutes per step", () => {
+    const result = calibrateFromHistory(HISTORY, TEMPLATES);
+
+    expect(result.ok && result.calibration.tasks).toEqual([
+      {
+        templateKey: "defect",
+        taskId: "fix",
+        // 120, 120 across the evening, 240, and 45 logged on a Saturday.
+        samples: 4,
+        estimateMinutes: 120,
+        uncertainty: { distribution: "pert", optimisticMinutes: 45, pessimisticMinutes: 240 },
+      },
+      { templateKey: "defect", taskId: "verify", samples: 1, estimateMinutes: 30, uncertainty: null },
+    ]);
+    expect(result.ok && result.calibration.steps).toBe(5);
+  });
+
+  it("estimates arrival rates from when work items first started", () => {
+    const result = calibrateFromHistory(HISTORY, TEMPLATES);
+
+    expect(result.ok && result.calibration.workItems).toBe(4);
+    expect(result.ok && result.calibration.arrivals).toEqual([
+      { templateKey: "defect", workItems: 4, ratePerWeek: 3 },
+    ]);
+  });
+
+  it("reports rows it could not use", () => {
+    const result = calibrateFromHistory(HISTORY, TEMPLATES);
+
+    expect(result.ok && result.calibration.unmatched).toEqual([{ template: "defect", task: "Review", count: 1 }]);
+    expect(result.ok && result.calibration.errors).toEqual([
+      { row: 7, message: "The start or completion time is not a YYYY-MM-DD hh:mm timestamp." },
+      { row: 9, message: "The step completes before it starts." },
+      { row: 10, message: "The work item, template or task is empty." },
+    ]);
+  });
+
+  it("prefers an arrival column over the first start", () => {
+    const result = calibrateFromHistory(
+      [
+        "item_id,type,step,started_at,finished_at,created_at",
+        "D-1,defect,Fix,2026-01-05 09:00,2026-01-05 10:00,2026-01-01 09:00",
+        "D-2,defect,Fix,2026-01-06 09:00,2026-01-06 10:00,2026-01-15 09:00",
+      ].join("\n"),
+      TEMPLATES
+    );
+
+    expect(result.ok && result.calibration.arrivals).toEqual([
+      { templateKey: "defect", workItems: 2, ratePerWeek: 0.5 },
+    ]);
+  });
+
+  it("names the columns it cannot find", () => {
+    expect(calibrateFromHistory("Item,Task,Started\n", TEMPLATES)).toEqual({
+      ok: false,
+      error: "The CSV is missing these columns: Template, Completed.",
+    });
+    expect(calibrateFromHistory("", TEMPLATES)).toEqual({ ok: false, error: "The file is empty." });
+  });
+});
@@ -0,0 +1,234 @@
+import { createDefaultAvailability } from "@/lib/teamSetup";
+import type { TemplateKey, ThreePointEstimate, WorkflowTemplate } from "@/lib/workflowTemplates";
+import type { ImportRowError } from "@/lib/backlogImport";
+import { parseCsv } from "@/lib/csv";
+import { MINUTES_PER_WEEK } from "@/lib/simulation/arrivals";
+import { createStaffCalendar, DEFAULT_START_DATE, parseIsoDate, toIsoDate } from "@/lib/simulation/calendar";
+import { percentile } from "@/lib/simulation/metrics";
+
+/** Fewest recorded steps before a range is suggested alongside the estimate. */
+const MIN_SAMPLES_FOR_RANGE = 3;
+
+export type TaskCalibration = {
+  templateKey: TemplateKey;
+  taskId: string;
+  samples: number;
+  /** Median working minutes per recorded step. */
+  estimateMinutes: number;
+  /** 10th to 90th percentile, once there are enough samples. */
+  uncertainty: ThreePointEstimate | null;
+};
+
+export type ArrivalCalibration = {
+  templateKey: TemplateKey;
+  workItems: number;
+  /** Null when the history holds too few arrivals to tell. */
+  ratePerWeek: number | null;
+};
+
+export type UnmatchedStep = {
+  template: string;
+  task: string;
+  count: number;
+};
+
+export type Calibration = {
+  workItems: number;
+  steps: number;
+  tasks: TaskCalibration[];
+  arrivals: ArrivalCalibration[];
+  unmatched: UnmatchedStep[];
+  errors: ImportRowError[];
+};
+
+type HistoryStep = {
+  templateKey: TemplateKey;
+  taskId: string;
+  start: number;
+  end: number;
+};
+
+export type CalibrationResult = { ok: true; calibration: Calibration } | { ok: false; error: string };
+
+const HISTORY_COLUMNS = {
+  item: ["work item", "item", "item id", "work item id", "id", "key", "issue key"],
+  template: ["template", "type", "issue type", "workflow"],
+  task: ["task", "step", "stage", "status"],
+  started: ["start", "started", "started at", "start time"],
+  ended: ["end", "ended", "completed", "completed at", "finished", "finished at", "end time"],
+  arrived: ["arrived", "arrived at", "created", "created at"],
+} as const;
+
+const TIMESTAMP_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?/;
+
+/**
+ * Reads the wall-clock part of an ISO-like timestamp as UTC milliseconds. Any
+ * zone suffix is ignored so exports in local time line up with office hours.
+ */
+function parseWallClock(value: string): number | null {
+  const match = TIMESTAMP_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hour = "0", minute = "0", second = "0"] = match;
+  const time = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+  return Number.isNaN(time) ? null : time;
+}
+
+function roundToFive(minutes: number) {
+  return Math.max(5, Math.round(minutes / 5) * 5);
+}
+
+/**
+ * Fits task estimates and arrival rates from a CSV of completed work, one row
+ * per step with its start and end. Step durations count working minutes on a
+ * 09:00–17:00 weekday calendar. Rows are matched to templates by key or title
+ * and to tasks by name, ignoring case.
+ */
+export function calibrateFromHistory(text: string, templates: WorkflowTemplate[]): CalibrationResult {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header) {
+    return { ok: false, error: "The file is empty." };
+  }
+
+  const columns = header.map(cell => cell.trim().toLowerCase().replace(/_/g, " "));
+  const findColumn = (names: readonly string[]) => columns.findIndex(column => names.includes(column));
+  const itemColumn = findColumn(HISTORY_COLUMNS.item);
+  const templateColumn = findColumn(HISTORY_COLUMNS.template);
+  const taskColumn = findColumn(HISTORY_COLUMNS.task);
+  const startedColumn = findColumn(HISTORY_COLUMNS.started);
+  const endedColumn = findColumn(HISTORY_COLUMNS.ended);
+  const arrivedColumn = findColumn(HISTORY_COLUMNS.arrived);
+
+  const missing = [
+    itemColumn === -1 ? "Work Item" : null,
+    templateColumn === -1 ? "Template" : null,
+    taskColumn === -1 ? "Task" : null,
+    startedColumn === -1 ? "Started" : null,
+    endedColumn === -1 ? "Completed" : null,
+  ].filter((name): name is string => name !== null);
+  if (missing.length > 0) {
+    return { ok: false, error: `The CSV is missing these columns: ${missing.join(", ")}.` };
+  }
+
+  const findTemplate = (name: string) => {
+    const needle = name.toLowerCase();
+    return templates.find(
+      template => template.key.toLowerCase() === needle || template.title.toLowerCase() === needle
+    );
+  };
+
+  const errors: ImportRowError[] = [];
+  const steps: HistoryStep[] = [];
+  const arrivedByItem = new Map<string, { templateKey: TemplateKey; time: number }>();
+  const unmatched = new Map<string, UnmatchedStep>();
+
+  rows.forEach((cells, index) => {
+    const row = index + 2;
+    if (cells.every(cell => cell.trim() === "")) {
+      return;
+    }
+
+    const item = (cells[itemColumn] ?? "").trim();
+    const templateName = (cells[templateColumn] ?? "").trim();
+    const taskName = (cells[taskColumn] ?? "").trim();
+    const start = parseWallClock(cells[startedColumn] ?? "");
+    const end = parseWallClock(cells[endedColumn] ?? "");
+    if (!item || !templateName || !taskName) {
+      errors.push({ row, message: "The work item, template or task is empty." });
+      return;
+    }
+    if (start === null || end === null) {
+      errors.push({ row, message: "The start or completion time is not a YYYY-MM-DD hh:mm timestamp." });
+      return;
+    }
+    if (end < start) {
+      errors.push({ row, message: "The step completes before it starts." });
+      return;
+    }
+
+    const template = findTemplate(templateName);
+    const task = template?.tasks.find(
+      candidate => candidate.task.trim().toLowerCase() === taskName.toLowerCase()
+    );
+    if (!template || !task) {
+      const key = `${templateName.toLowerCase()}\u0000${taskName.toLowerCase()}`;
+      const entry = unmatched.get(key) ?? { template: templateName, task: taskName, count: 0 };
+      unmatched.set(key, { ...entry, count: entry.count + 1 });
+      return;
+    }
+
+    steps.push({ templateKey: template.key, taskId: task.id, start, end });
+    const arrived = arrivedColumn === -1 ? null : parseWallClock(cells[arrivedColumn] ?? "");
+    const previous = arrivedByItem.get(item);
+    const arrivalTime = Math.min(arrived ?? start, previous?.time ?? Infinity);
+    arrivedByItem.set(item, { templateKey: template.key, time: arrivalTime });
+  });
+
+  const startDate =
+    steps.length > 0
+      ? toIsoDate(steps.reduce((earliest, step) => Math.min(earliest, step.start), Infinity))
+      : DEFAULT_START_DATE;
+  const calendar = createStaffCalendar(createDefaultAvailability(), [], startDate);
+  const origin = parseIsoDate(startDate) ?? 0;
+  const toMinutes = (time: number) => (time - origin) / 60_000;
+
+  const samplesByTask = new Map<string, { templateKey: TemplateKey; minutes: number[] }>();
+  steps.forEach(step => {
+    const from = toMinutes(step.start);
+    const to = toMinutes(step.end);
+    // Work logged entirely outside office hours still took its elapsed time.
+    const minutes = calendar.workingMinutesBetween(from, to) || to - from;
+    const entry = samplesByTask.get(step.taskId) ?? { templateKey: step.templateKey, minutes: [] };
+    entry.minutes.push(minutes);
+    samplesByTask.set(step.taskId, entry);
+  });
+
+  const tasks: TaskCalibration[] = [...samplesByTask.entries()].map(([taskId, { templateKey, minutes }]) => {
+    const sorted = [...minutes].sort((a, b) => a - b);
+    return {
+      templateKey,
+      taskId,
+      samples: sorted.length,
+      estimateMinutes: roundToFive(percentile(sorted, 50)),
+      uncertainty:
+        sorted.length >= MIN_SAMPLES_FOR_RANGE
+          ? {
+              distribution: "pert",
+              optimisticMinutes: roundToFive(percentile(sorted, 10)),
+              pessimisticMinutes: roundToFive(percentile(sorted, 90)),
+            }
+          : null,
+    };
+  });
+
+  const arrivals: ArrivalCalibration[] = templates.flatMap(template => {
+    const times = [...arrivedByItem.values()]
+      .filter(entry => entry.templateKey === template.key)
+      .map(entry => entry.time)
+      .sort((a, b) => a - b);
+    if (times.length === 0) {
+      return [];
+    }
+    const spanWeeks = (times[times.length - 1] - times[0]) / 60_000 / MINUTES_PER_WEEK;
+    return [
+      {
+        templateKey: template.key,
+        workItems: times.length,
+        ratePerWeek: spanWeeks > 0 ? Math.round(((times.length - 1) / spanWeeks) * 10) / 10 : null,
+      },
+    ];
+  });
+
+  return {
+    ok: true,
+    calibration: {
+      workItems: arrivedByItem.size,
+      steps: steps.length,
+      tasks,
+      arrivals,
+      unmatched: [...unmatched.values()].sort((a, b) => b.count - a.count),
+      errors,
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { computeCapabilityCoverage, countSoleHoldings } from "@/lib/coverage";
+import type { Capability, StaffMember } from "@/lib/teamSetup";
+import type { WorkflowTemplate } from "@/lib/workflowTemplates";
+
+const capabilities: Capability[] = [
+  { id: "dev", code: "DEV", description: "Development", wipLimit: null },
+  { id: "qa", code: "QA", description: "Testing", wipLimit: null },
+  { id: "ops", code: "OPS", description: "Operations", wipLimit: null },
+];
+
+function staff(id: string, capacity: number, capabilityIds: string[]): StaffMember {
+  return {
+    id,
+    code: id.toUpperCase(),
+    name: id,
+    capacity,
+    capabilityIds,
+    proficiency: {},
+    wipLimit: null,
+    availability: { timeZone: "UTC", weeklyHours: [], leave: [] },
+  };
+}
+
+const templates: WorkflowTemplate[] = [
+  {
+    key: "feature",
+    title: "Feature",
+    priority: 0,
+    preempts: false,
+    contextSwitchMinutes: 0,
+    tasks: [
+      {
+        id: "build",
+        seqNumber: 10,
+        task: "Build",
+        estimateMinutes: 60,
+        uncertainty: null,
+        capabilityId: "dev",
+        predecessorIds: null,
+      },
+    ],
+  },
+];
+
+describe("computeCapabilityCoverage", () => {
+  it("sums capacity and counts holders per capability", () => {
+    const coverage = computeCapabilityCoverage(
+      capabilities,
+      [staff("s1", 1, ["dev", "qa"]), staff("s2", 0.5, ["dev"])],
+      templates
+    );
+
+    expect(coverage).toEqual([
+      { capabilityId: "dev", totalCapacity: 1.5, busFactor: 2, usedByTemplates: true },
+      { capabilityId: "qa", totalCapacity: 1, busFactor: 1, usedByTemplates: false },
+      { capabilityId: "ops", totalCapacity: 0, busFactor: 0, usedByTemplates: false },
+    ]);
+  });
+});
+
+describe("countSoleHoldings", () => {
+  it("counts the capabilities only this member holds", () => {
+    const members = [staff("s1", 1, ["dev", "qa", "ops"]), staff("s2", 1, ["dev"])];
+    const coverage = computeCapabilityCoverage(capabilities, members, templates);
+
+    expect(countSoleHoldings(members[0], coverage)).toBe(2);
+    expect(countSoleHoldings(members[1], coverage)).toBe(0);
+  });
+});
@@ -0,0 +1,38 @@
+import type { Capability, StaffMember } from "@/lib/teamSetup";
+import type { WorkflowTemplate } from "@/lib/workflowTemplates";
+
+export type CapabilityCoverage = {
+  capabilityId: string;
+  /** Summed capacity of the members holding the capability, 1 being one full-time person. */
+  totalCapacity: number;
+  /** Number of people holding the capability. */
+  busFactor: number;
+  usedByTemplates: boolean;
+};
+
+export function computeCapabilityCoverage(
+  capabilities: Capability[],
+  staffMembers: StaffMember[],
+  templates: WorkflowTemplate[]
+): CapabilityCoverage[] {
+  const usedCapabilityIds = new Set(
+    templates.flatMap(template => template.tasks.map(task => task.capabilityId))
+  );
+
+  return capabilities.map(capability => {
+    const holders = staffMembers.filter(member => member.capabilityIds.includes(capability.id));
+    return {
+      capabilityId: capability.id,
+      totalCapacity: holders.reduce((total, member) => total + member.capacity, 0),
+      busFactor: holders.length,
+      usedByTemplates: usedCapabilityIds.has(capability.id),
+    };
+  });
+}
+
+/** Number of capabilities for which the member is the only holder. */
+export function countSoleHoldings(member: StaffMember, coverage: CapabilityCoverage[]) {
+  return coverage.filter(
+    entry => entry.busFactor === 1 && member.capabilityIds.includes(entry.capabilityId)
+  ).length;
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, toCsv } from "@/lib/csv";
+
+describe("toCsv", () => {
+  it("quotes only the cells that need it", () => {
+    expect(toCsv([["plain", 'say "hi"', "a,b", "two\nlines"], [1, null, undefined, 2.5]])).toBe(
+      'plain,"say ""hi""","a,b","two\nlines"\r\n1,,,2.5'
+    );
+  });
+
+  it("neutralises text a spreadsheet would run as a formula", () => {
+    expect(toCsv([["=SUM(A1:A2)", "+1", "-x", "@cmd", "\tTab"]])).toBe("'=SUM(A1:A2),'+1,'-x,'@cmd,'\tTab");
+  });
+
+  it("leaves negative numbers alone", () => {
+    expect(toCsv([[-5, "-5"]])).toBe("-5,'-5");
+  });
+});
+
+describe("parseCsv", () => {
+  it("reads quoted cells with commas, quotes and line breaks", () => {
+    expect(parseCsv('a,"b,c","say ""hi"""\r\n"two\r\nlines",,x\n')).toEqual([
+      ["a", "b,c", 'say "hi"'],
+      ["two\r\nlines", "", "x"],
+    ]);
+  });
+
+  it("adds no row for a trailing line break", () => {
+    expect(parseCsv("a,b\n")).toEqual([["a", "b"]]);
+    expect(parseCsv("")).toEqual([]);
+  });
+
+  it("gives back exactly what was written, formula-like text included", () => {
+    const rows = [
+      ["=1+1", "'=already quoted", "'plain quote", "@home", "-note"],
+      ["a,b", 'q"uote', "multi\nline", "", "-5"],
+    ];
+
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
@@ -0,0 +1,74 @@
+export type CsvValue = string | number | null | undefined;
+
+/**
+ * Text a spreadsheet would run as a formula, behind any quotes already added
+ * to neutralise it, so that a quote the user typed survives the round trip.
+ */
+const FORMULA_PATTERN = /^'*[=+\-@\t\r]/;
+
+function escapeCsvValue(value: CsvValue) {
+  const raw = value === null || value === undefined ? "" : String(value);
+  // Only text is neutralised; numbers such as -5 are left for the spreadsheet to read as numbers.
+  const text = typeof value === "string" && FORMULA_PATTERN.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function unescapeCsvValue(cell: string) {
+  return FORMULA_PATTERN.test(cell) && cell.startsWith("'") ? cell.slice(1) : cell;
+}
+
+/**
+ * Serializes rows as RFC 4180 CSV, quoting only the cells that need it. Text
+ * starting with =, +, -, @ or a tab gets a leading ' so spreadsheets show it
+ * instead of running it as a formula.
+ */
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map(row => row.map(escapeCsvValue).join(",")).join("\r\n");
+}
+
+/**
+ * Parses RFC 4180 CSV into rows of cells. Quoted cells may contain commas,
+ * doubled quotes and line breaks; a trailing line break adds no empty row.
+ * The ' that `toCsv` puts before formula-like text is removed again.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(unescapeCsvValue(cell));
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(unescapeCsvValue(cell));
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(unescapeCsvValue(cell));
+    rows.push(row);
+  }
+  return rows;
+}
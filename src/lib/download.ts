@@ -0,0 +1,16 @@
+export function downloadFile(fileName: string, content: BlobPart, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export function toFileNameBase(...candidates: (string | undefined)[]) {
+  const base = candidates.map(candidate => candidate?.trim()).find(Boolean) || "team";
+  return base.replace(/[^a-z0-9_-]/gi, "_");
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { formatDuration, formatElapsed, parseDuration } from "@/lib/duration";
+
+describe("parseDuration", () => {
+  it.each([
+    ["1:30", 90],
+    ["0:05", 5],
+    ["1.5", 90],
+    [".25", 15],
+    ["2h 30m", 150],
+    ["2h", 120],
+    ["45m", 45],
+    ["1.5 hours", 90],
+    ["90 minutes", 90],
+    ["  3H  ", 180],
+  ])("reads %j as %i minutes", (text, minutes) => {
+    expect(parseDuration(text)).toEqual({ ok: true, minutes });
+  });
+
+  it.each(["", "   ", "1:75", "abc", "-1", "2d"])("rejects %j", text => {
+    expect(parseDuration(text).ok).toBe(false);
+  });
+});
+
+describe("formatDuration", () => {
+  it("writes whole minutes as hh:mm", () => {
+    expect(formatDuration(90)).toBe("01:30");
+    expect(formatDuration(0)).toBe("00:00");
+    expect(formatDuration(600.4)).toBe("10:00");
+  });
+
+  it("round-trips through parseDuration", () => {
+    [0, 1, 59, 61, 1439].forEach(minutes => {
+      expect(parseDuration(formatDuration(minutes))).toEqual({ ok: true, minutes });
+    });
+  });
+});
+
+describe("formatElapsed", () => {
+  it("shows hours below a day and days above", () => {
+    expect(formatElapsed(90)).toBe("1.5h");
+    expect(formatElapsed(36 * 60)).toBe("1.5d");
+  });
+});
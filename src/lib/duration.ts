@@ -0,0 +1,53 @@
+export type DurationParseResult =
+  | { ok: true; minutes: number }
+  | { ok: false; error: string };
+
+const CLOCK_PATTERN = /^(\d+):([0-5]\d)$/;
+const DECIMAL_HOURS_PATTERN = /^\d+(?:\.\d+)?$|^\.\d+$/;
+const UNIT_PATTERN = /^(?:(\d+(?:\.\d+)?)\s*h(?:ours?|rs?)?)?\s*(?:(\d+)\s*m(?:in(?:ute)?s?)?)?$/i;
+
+/**
+ * Parses a task estimate into whole minutes. Accepts `hh:mm` (`1:30`),
+ * decimal hours (`1.5`) and unit notation (`2h 30m`, `2h`, `45m`).
+ */
+export function parseDuration(text: string): DurationParseResult {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return { ok: false, error: "Enter an estimate." };
+  }
+
+  const clock = CLOCK_PATTERN.exec(trimmed);
+  if (clock) {
+    return { ok: true, minutes: Number(clock[1]) * 60 + Number(clock[2]) };
+  }
+
+  if (DECIMAL_HOURS_PATTERN.test(trimmed)) {
+    return { ok: true, minutes: Math.round(Number(trimmed) * 60) };
+  }
+
+  const units = UNIT_PATTERN.exec(trimmed);
+  if (units && (units[1] !== undefined || units[2] !== undefined)) {
+    const hours = units[1] !== undefined ? Number(units[1]) : 0;
+    const minutes = units[2] !== undefined ? Number(units[2]) : 0;
+    return { ok: true, minutes: Math.round(hours * 60 + minutes) };
+  }
+
+  return { ok: false, error: `"${trimmed}" is not a duration. Use hh:mm, 1.5 or 2h 30m.` };
+}
+
+/** Formats minutes as `hh:mm`, the notation shown in the template tables. */
+export function formatDuration(minutes: number): string {
+  const total = Math.max(0, Math.round(minutes));
+  const hours = Math.floor(total / 60);
+  const remainder = total % 60;
+  return `${String(hours).padStart(2, "0")}:${String(remainder).padStart(2, "0")}`;
+}
+
+/** Elapsed calendar time for results: hours below a day, days above. */
+export function formatElapsed(minutes: number): string {
+  const hours = minutes / 60;
+  if (hours < 24) {
+    return `${Math.round(hours * 10) / 10}h`;
+  }
+  return `${Math.round((hours / 24) * 10) / 10}d`;
+}
@@ -0,0 +1,4 @@
+/** Short random id for capabilities, staff, tasks and other records created in the app. */
+export function generateId() {
+  return Math.random().toString(36).slice(2, 10);
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { getDurationFactor, getProficiency } from "@/lib/proficiency";
+import type { StaffMember } from "@/lib/teamSetup";
+
+const member: StaffMember = {
+  id: "s1",
+  code: "S1",
+  name: "Sam",
+  capacity: 1,
+  capabilityIds: ["dev", "qa", "ops"],
+  proficiency: { dev: "expert", qa: "learning" },
+  wipLimit: null,
+  availability: { timeZone: "UTC", weeklyHours: [], leave: [] },
+};
+
+describe("proficiency", () => {
+  it("treats capabilities without a level as competent", () => {
+    expect(getProficiency(member, "dev")).toBe("expert");
+    expect(getProficiency(member, "ops")).toBe("competent");
+  });
+
+  it("maps each level to its duration factor", () => {
+    expect(getDurationFactor(member, "dev")).toBe(0.75);
+    expect(getDurationFactor(member, "qa")).toBe(1.5);
+    expect(getDurationFactor(member, "ops")).toBe(1);
+  });
+});
@@ -0,0 +1,21 @@
+import type { StaffMember } from "@/lib/teamSetup";
+
+export type ProficiencyLevel = "learning" | "competent" | "expert";
+
+/** Levels in display order; `durationFactor` scales how long a task takes. */
+export const PROFICIENCY_LEVELS: { level: ProficiencyLevel; label: string; durationFactor: number }[] = [
+  { level: "learning", label: "Learning", durationFactor: 1.5 },
+  { level: "competent", label: "Competent", durationFactor: 1 },
+  { level: "expert", label: "Expert", durationFactor: 0.75 },
+];
+
+export const DEFAULT_PROFICIENCY: ProficiencyLevel = "competent";
+
+export function getProficiency(member: StaffMember, capabilityId: string): ProficiencyLevel {
+  return member.proficiency[capabilityId] ?? DEFAULT_PROFICIENCY;
+}
+
+export function getDurationFactor(member: StaffMember, capabilityId: string): number {
+  const level = getProficiency(member, capabilityId);
+  return PROFICIENCY_LEVELS.find(entry => entry.level === level)?.durationFactor ?? 1;
+}
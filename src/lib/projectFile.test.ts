@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import { createProjectFile, PROJECT_SCHEMA_VERSION, readProjectFile } from "@/lib/projectFile";
+import { DEFAULT_ARRIVAL_SETTINGS } from "@/lib/simulation/arrivals";
+
+const capabilities = [{ id: "dev", code: "DEV", description: "Development", wipLimit: null }];
+const staffMembers = [
+  {
+    id: "s1",
+    code: "S1",
+    name: "Sam",
+    capacity: 1,
+    capabilityIds: ["dev"],
+    proficiency: { dev: "expert" as const },
+    wipLimit: null,
+    availability: { timeZone: "UTC", weeklyHours: Array(7).fill({ start: 540, end: 1020 }), leave: [] },
+  },
+];
+const holidays = [{ id: "h1", date: "2026-12-25", name: "Christmas" }];
+const templates = [
+  {
+    key: "feature",
+    title: "Feature",
+    priority: 0,
+    preempts: false,
+    contextSwitchMinutes: 0,
+    tasks: [
+      {
+        id: "build",
+        seqNumber: 10,
+        task: "Build",
+        estimateMinutes: 60,
+        uncertainty: null,
+        capabilityId: "dev",
+        predecessorIds: null,
+      },
+    ],
+  },
+];
+
+describe("createProjectFile", () => {
+  it("stamps the current schema version and save time", () => {
+    const file = createProjectFile({
+      teamCode: "T1",
+      teamName: "Team",
+      capabilities,
+      staffMembers,
+      holidays,
+      templates,
+      simulation: { arrivals: DEFAULT_ARRIVAL_SETTINGS },
+    });
+
+    expect(file.schemaVersion).toBe(PROJECT_SCHEMA_VERSION);
+    expect(Number.isNaN(Date.parse(file.savedAt))).toBe(false);
+    expect(file.teamCode).toBe("T1");
+  });
+});
+
+describe("readProjectFile", () => {
+  it("round-trips a saved project", () => {
+    const arrivals = {
+      ...DEFAULT_ARRIVAL_SETTINGS,
+      seed: 7,
+      horizonDays: 14,
+      processes: { feature: { kind: "poisson" as const, ratePerWeek: 3 } },
+    };
+    const file = createProjectFile({
+      teamCode: "T1",
+      teamName: "Team",
+      capabilities,
+      staffMembers,
+      holidays,
+      templates,
+      simulation: { arrivals },
+    });
+
+    const result = readProjectFile(JSON.parse(JSON.stringify(file)));
+
+    expect(result.ok && result.kind).toBe("project");
+    expect(result.ok && result.project).toMatchObject({
+      teamCode: "T1",
+      teamName: "Team",
+      capabilities,
+      staffMembers,
+      holidays,
+      simulation: { arrivals },
+    });
+    expect(result.ok && result.project.templates?.map((template) => template.key)).toEqual(["feature"]);
+  });
+
+  it("rejects versions newer than the app supports", () => {
+    const result = readProjectFile({ schemaVersion: PROJECT_SCHEMA_VERSION + 1, capabilities, staffMembers });
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error).toContain("newer than this app supports");
+  });
+
+  it("rejects an invalid schemaVersion", () => {
+    expect(readProjectFile({ schemaVersion: "1", capabilities, staffMembers }).ok).toBe(false);
+    expect(readProjectFile({ schemaVersion: 0, capabilities, staffMembers }).ok).toBe(false);
+  });
+
+  it("falls back to default arrivals when the project has no simulation settings", () => {
+    const result = readProjectFile({ schemaVersion: 1, capabilities, staffMembers, templates });
+
+    expect(result.ok && result.project.simulation).toEqual({ arrivals: DEFAULT_ARRIVAL_SETTINGS });
+  });
+
+  it("migrates a legacy team setup file", () => {
+    const result = readProjectFile({ teamCode: "T1", teamName: "Team", capabilities, staffMembers });
+
+    expect(result.ok && result.kind).toBe("legacy-team");
+    expect(result.ok && result.project).toEqual({
+      teamCode: "T1",
+      teamName: "Team",
+      capabilities,
+      staffMembers,
+      holidays: [],
+    });
+  });
+
+  it("migrates a legacy template setup file", () => {
+    const result = readProjectFile({ teamCode: "T1", templates });
+
+    expect(result.ok && result.kind).toBe("legacy-templates");
+    expect(result.ok && result.project.teamCode).toBe("T1");
+    expect(result.ok && result.project.templates?.map((template) => template.key)).toEqual(["feature"]);
+    expect(result.ok && "capabilities" in result.project).toBe(false);
+  });
+
+  it("rejects files that match no known shape", () => {
+    expect(readProjectFile(null).ok).toBe(false);
+    expect(readProjectFile([]).ok).toBe(false);
+    expect(readProjectFile({ something: "else" }).ok).toBe(false);
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  type Capability,
+  type PublicHoliday,
+  type StaffMember,
+  normalizeTeamSetupData,
+} from "@/lib/teamSetup";
+import { type WorkflowTemplate, sanitizeTemplates } from "@/lib/workflowTemplates";
+import { type ArrivalSettings, normalizeArrivalSettings } from "@/lib/simulation/arrivals";
+
+export const PROJECT_SCHEMA_VERSION = 1;
+
+export type SimulationSettings = {
+  arrivals: ArrivalSettings;
+};
+
+export type Project = {
+  teamCode: string;
+  teamName: string;
+  capabilities: Capability[];
+  staffMembers: StaffMember[];
+  holidays: PublicHoliday[];
+  templates: WorkflowTemplate[];
+  simulation: SimulationSettings;
+};
+
+export type ProjectFile = Project & {
+  schemaVersion: number;
+  savedAt: string;
+};
+
+export type ProjectFileKind = "project" | "legacy-team" | "legacy-templates";
+
+export type ProjectFileReadResult =
+  | { ok: true; kind: ProjectFileKind; project: Partial<Project> }
+  | { ok: false; error: string };
+
+export function createProjectFile(project: Project): ProjectFile {
+  return {
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    ...project,
+    savedAt: new Date().toISOString(),
+  };
+}
+
+function readTeamIdentity(raw: Record<string, unknown>): Partial<Project> {
+  return {
+    ...(typeof raw.teamCode === "string" && raw.teamCode.trim() ? { teamCode: raw.teamCode } : {}),
+    ...(typeof raw.teamName === "string" && raw.teamName.trim() ? { teamName: raw.teamName } : {}),
+  };
+}
+
+/**
+ * Reads a project file, or migrates one of the two legacy shapes: the
+ * `_Team_Setup.json` file (capabilities and staff) and the
+ * `_Template_Setup.json` file (templates only). Legacy files yield a partial
+ * project holding just the parts they contain.
+ */
+export function readProjectFile(raw: unknown): ProjectFileReadResult {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { ok: false, error: "The file does not contain a project." };
+  }
+
+  const candidate = raw as Record<string, unknown>;
+
+  if ("schemaVersion" in candidate) {
+    const version = candidate.schemaVersion;
+    if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+      return { ok: false, error: "The project file has an invalid schemaVersion." };
+    }
+    if (version > PROJECT_SCHEMA_VERSION) {
+      return {
+        ok: false,
+        error: `The project file uses schema version ${version}, which is newer than this app supports.`,
+      };
+    }
+
+    const team = normalizeTeamSetupData(candidate);
+    if (!team) {
+      return { ok: false, error: "The project file is missing capabilities or staff members." };
+    }
+
+    const simulation =
+      candidate.simulation && typeof candidate.simulation === "object"
+        ? (candidate.simulation as Record<string, unknown>)
+        : {};
+
+    return {
+      ok: true,
+      kind: "project",
+      project: {
+        ...readTeamIdentity(candidate),
+        ...team,
+        templates: sanitizeTemplates(candidate.templates),
+        simulation: { arrivals: normalizeArrivalSettings(simulation.arrivals) },
+      },
+    };
+  }
+
+  const team = normalizeTeamSetupData(candidate);
+  if (team) {
+    return { ok: true, kind: "legacy-team", project: { ...readTeamIdentity(candidate), ...team } };
+  }
+
+  if ("templates" in candidate) {
+    return {
+      ok: true,
+      kind: "legacy-templates",
+      project: { ...readTeamIdentity(candidate), templates: sanitizeTemplates(candidate.templates) },
+    };
+  }
+
+  return { ok: false, error: "The file is not a project, team setup or template setup file." };
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import { loadTeamSetupFile, loadTemplateSetupFile } from "@/lib/setupFileSchema";
+import type { Capability } from "@/lib/teamSetup";
+
+const capabilities: Capability[] = [{ id: "c1", code: "DEV", description: "Development", wipLimit: null }];
+
+describe("loadTeamSetupFile", () => {
+  it("repairs what it can and lists every repair", () => {
+    const result = loadTeamSetupFile(
+      JSON.stringify({
+        teamName: "Platform",
+        capabilities: [{ id: "c1", code: "DEV", description: "Development", wipLimit: null, colour: "red" }],
+        staffMembers: [
+          { id: "s1", code: "S1", name: "Sam", capacity: 2, capabilityIds: ["c1", "ghost"], wipLimit: "2" },
+        ],
+      })
+    );
+
+    expect(result.ok && result.fixes).toEqual([
+      { action: "dropped", subject: "DEV", message: 'Field "colour" is not part of the file format.' },
+      { action: "clamped", subject: "S1", message: "Capacity 2 clamped to 1.5." },
+      { action: "dropped", subject: "S1", message: "Capability id ghost is unknown." },
+      {
+        action: "defaulted",
+        subject: "S1",
+        message: "No proficiency levels; every held capability set to competent.",
+      },
+      { action: "defaulted", subject: "S1", message: "No availability; set to Monday to Friday, 09:00–17:00 UTC." },
+    ]);
+    expect(result.ok && result.value.staffMembers[0]).toMatchObject({
+      capacity: 1.5,
+      capabilityIds: ["c1"],
+      proficiency: { c1: "competent" },
+      wipLimit: 2,
+    });
+    expect(result.ok && result.value.holidays).toEqual([]);
+  });
+
+  it("loads a well-formed file without repairs", () => {
+    const file = {
+      capabilities: [{ id: "c1", code: "DEV", description: "Development", wipLimit: 3 }],
+      staffMembers: [],
+      holidays: [{ id: "h1", date: "2026-12-25", name: "Christmas" }],
+    };
+
+    expect(loadTeamSetupFile(JSON.stringify(file))).toEqual({ ok: true, value: file, fixes: [] });
+  });
+
+  it("refuses files whose top level does not match the format", () => {
+    expect(loadTeamSetupFile(JSON.stringify({ capabilities: {} }))).toEqual({
+      ok: false,
+      errors: ['"capabilities" should be array, but is object.', '"staffMembers" is missing.'],
+    });
+    expect(loadTeamSetupFile('"team"')).toEqual({ ok: false, errors: ["The file holds a string, not an object."] });
+    expect(loadTeamSetupFile("{oops")).toMatchObject({
+      ok: false,
+      errors: [expect.stringMatching(/^The file is not valid JSON/)],
+    });
+  });
+});
+
+describe("loadTemplateSetupFile", () => {
+  it("reports clamped estimates and entries that are not tasks", () => {
+    const result = loadTemplateSetupFile(
+      JSON.stringify({
+        templates: [
+          {
+            key: "defect",
+            title: "Defect",
+            tasks: [{ id: "t1", seqNumber: 10, task: "Fix", estimateMinutes: -5, capabilityId: "c1" }, "junk"],
+          },
+        ],
+      }),
+      capabilities
+    );
+
+    expect(result.ok && result.fixes).toEqual([
+      { action: "clamped", subject: "Defect / Fix", message: "Estimate -5 minutes clamped to 0." },
+      { action: "dropped", subject: "Defect / Task 2", message: "The entry is not a task." },
+    ]);
+    expect(result.ok && result.value[0].tasks.map(task => task.estimateMinutes)).toEqual([0]);
+  });
+
+  it("reads the older file keyed by the built-in templates", () => {
+    const result = loadTemplateSetupFile(
+      JSON.stringify({ defect: [{ id: "t1", seqNumber: 10, task: "Fix", estimate: "1h", capabilityId: "c1" }] }),
+      capabilities
+    );
+
+    expect(result.ok && result.value.map(template => [template.key, template.tasks.length])).toEqual([
+      ["enhancement", 0],
+      ["defect", 1],
+      ["incident", 0],
+    ]);
+    expect(result.ok && result.value[1].tasks[0].estimateMinutes).toBe(60);
+    expect(result.ok && result.fixes).toEqual([]);
+  });
+
+  it("checks the fields of the older file saved with team details", () => {
+    const result = loadTemplateSetupFile(
+      JSON.stringify({
+        teamName: "Platform",
+        templates: {
+          incident: [{ id: "t1", seqNumber: 10, task: "Triage", capabilityId: "c1", owner: "Sam" }],
+          chores: [],
+        },
+      }),
+      capabilities
+    );
+
+    expect(result.ok && result.fixes).toEqual([
+      { action: "dropped", subject: "File templates", message: 'Field "chores" is not part of the file format.' },
+      {
+        action: "dropped",
+        subject: "Incident Template / Triage",
+        message: 'Field "owner" is not part of the file format.',
+      },
+    ]);
+    expect(result.ok && result.value[2].tasks.map(task => task.task)).toEqual(["Triage"]);
+  });
+
+  it("unassigns tasks whose capability the team does not have", () => {
+    const task = { id: "t1", seqNumber: 10, task: "Fix", capabilityId: "ghost" };
+    const current = loadTemplateSetupFile(
+      JSON.stringify({ templates: [{ key: "defect", title: "Defect", tasks: [task] }] }),
+      capabilities
+    );
+    const older = loadTemplateSetupFile(JSON.stringify({ defect: [task] }), capabilities);
+
+    expect(current.ok && current.fixes).toEqual([
+      { action: "dropped", subject: "Defect / Fix", message: "Capability id ghost is unknown." },
+    ]);
+    expect(current.ok && current.value[0].tasks[0].capabilityId).toBe("");
+    expect(older.ok && older.fixes).toEqual([
+      { action: "dropped", subject: "Defect Template / Fix", message: "Capability id ghost is unknown." },
+    ]);
+  });
+
+  it("refuses objects that hold no templates", () => {
+    expect(loadTemplateSetupFile(JSON.stringify({ other: 1 }), capabilities)).toEqual({
+      ok: false,
+      errors: ['"templates" is missing.'],
+    });
+  });
+});
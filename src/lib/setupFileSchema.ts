@@ -0,0 +1,299 @@
+import { type Capability, normalizeTeamSetupData, type TeamSetupData } from "@/lib/teamSetup";
+import {
+  sanitizeTemplates,
+  TEMPLATE_DEFINITIONS,
+  type WorkflowTemplate,
+} from "@/lib/workflowTemplates";
+
+export type LoadFixAction = "defaulted" | "clamped" | "dropped" | "regenerated";
+
+/** One repair made while reading a file, e.g. "S4: capacity 2 clamped to 1.5". */
+export type LoadFix = {
+  action: LoadFixAction;
+  subject: string;
+  message: string;
+};
+
+export const LOAD_FIX_LABELS: Record<LoadFixAction, string> = {
+  defaulted: "Defaulted",
+  clamped: "Clamped",
+  dropped: "Dropped",
+  regenerated: "Regenerated",
+};
+
+export type SetupFileLoadResult<T> =
+  | { ok: true; value: T; fixes: LoadFix[] }
+  | { ok: false; errors: string[] };
+
+type FieldType = "string" | "number" | "boolean" | "array" | "object" | "null";
+
+type FieldSchema = {
+  type: FieldType[];
+  /** Missing required fields make the file unreadable at the top level and are defaulted below it. */
+  required?: boolean;
+  /** Shape of each array entry, or of the nested object. */
+  record?: RecordSchema;
+};
+
+type RecordSchema = Record<string, FieldSchema>;
+
+/** What an entry of each record list is called when it has no code, title or date to go by. */
+const ENTRY_LABELS: Record<string, string> = {
+  capabilities: "Capability",
+  staffMembers: "Staff member",
+  holidays: "Holiday",
+  leave: "Leave",
+  templates: "Template",
+  tasks: "Task",
+};
+
+const CAPABILITY_SCHEMA: RecordSchema = {
+  id: { type: ["string"], required: true },
+  code: { type: ["string"], required: true },
+  description: { type: ["string"], required: true },
+  wipLimit: { type: ["number", "string", "null"] },
+};
+
+const AVAILABILITY_SCHEMA: RecordSchema = {
+  timeZone: { type: ["string"], required: true },
+  weeklyHours: { type: ["array"], required: true },
+  leave: {
+    type: ["array"],
+    record: {
+      id: { type: ["string"], required: true },
+      start: { type: ["string"], required: true },
+      end: { type: ["string"], required: true },
+    },
+  },
+};
+
+const STAFF_MEMBER_SCHEMA: RecordSchema = {
+  id: { type: ["string"], required: true },
+  code: { type: ["string"], required: true },
+  name: { type: ["string"], required: true },
+  capacity: { type: ["number"], required: true },
+  capabilityIds: { type: ["array"], required: true },
+  proficiency: { type: ["object"] },
+  wipLimit: { type: ["number", "string", "null"] },
+  availability: { type: ["object"], record: AVAILABILITY_SCHEMA },
+};
+
+const HOLIDAY_SCHEMA: RecordSchema = {
+  id: { type: ["string"], required: true },
+  date: { type: ["string"], required: true },
+  name: { type: ["string"] },
+};
+
+/** The `_Team_Setup.json` file written by Save Team. */
+export const TEAM_FILE_SCHEMA: RecordSchema = {
+  teamCode: { type: ["string"] },
+  teamName: { type: ["string"] },
+  savedAt: { type: ["string"] },
+  capabilities: { type: ["array"], required: true, record: CAPABILITY_SCHEMA },
+  staffMembers: { type: ["array"], required: true, record: STAFF_MEMBER_SCHEMA },
+  holidays: { type: ["array"], record: HOLIDAY_SCHEMA },
+};
+
+const TASK_SCHEMA: RecordSchema = {
+  id: { type: ["string"], required: true },
+  seqNumber: { type: ["number"], required: true },
+  task: { type: ["string"], required: true },
+  estimateMinutes: { type: ["number", "null"] },
+  // Written by versions that stored the estimate as free text.
+  estimate: { type: ["string"] },
+  uncertainty: { type: ["object", "null"] },
+  capabilityId: { type: ["string"], required: true },
+  predecessorIds: { type: ["array", "null"] },
+};
+
+const TEMPLATE_SCHEMA: RecordSchema = {
+  key: { type: ["string"], required: true },
+  title: { type: ["string"], required: true },
+  priority: { type: ["number"] },
+  preempts: { type: ["boolean"] },
+  contextSwitchMinutes: { type: ["number"] },
+  tasks: { type: ["array"], required: true, record: TASK_SCHEMA },
+};
+
+/** The `_Template_Setup.json` file written by Save Templates. */
+export const TEMPLATE_FILE_SCHEMA: RecordSchema = {
+  teamCode: { type: ["string"] },
+  teamName: { type: ["string"] },
+  savedAt: { type: ["string"] },
+  templates: { type: ["array"], required: true, record: TEMPLATE_SCHEMA },
+};
+
+/** The older file, whose templates are task lists keyed by the built-in templates. */
+const LEGACY_TEMPLATE_FILE_SCHEMA: RecordSchema = {
+  ...TEMPLATE_FILE_SCHEMA,
+  templates: {
+    type: ["object"],
+    required: true,
+    record: Object.fromEntries(TEMPLATE_DEFINITIONS.map(definition => [definition.key, { type: ["array"] }])),
+  },
+};
+
+function typeOf(value: unknown): FieldType {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value as FieldType;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeOf(value) === "object";
+}
+
+/** Names an entry the way the normalizers do: by code, title, task or date, else by position. */
+function describeEntry(record: Record<string, unknown>, field: string, index: number) {
+  const name = [record.code, record.title, record.task, record.date].find(
+    value => typeof value === "string" && value.trim()
+  );
+  return typeof name === "string" ? name.trim() : `${ENTRY_LABELS[field] ?? field} ${index + 1}`;
+}
+
+/**
+ * Reports fields the schema does not know, which are dropped on load. Missing
+ * and mistyped known fields, and list entries that are not objects, are left
+ * to the normalizers, which report what they put instead.
+ */
+function checkRecord(record: Record<string, unknown>, schema: RecordSchema, subject: string, fixes: LoadFix[]) {
+  Object.entries(record).forEach(([field, value]) => {
+    const fieldSchema = schema[field];
+    if (!fieldSchema) {
+      fixes.push({ action: "dropped", subject, message: `Field "${field}" is not part of the file format.` });
+      return;
+    }
+    if (!fieldSchema.record) {
+      return;
+    }
+
+    if (isRecord(value)) {
+      checkRecord(value, fieldSchema.record, `${subject} ${field}`, fixes);
+    } else if (Array.isArray(value)) {
+      value.forEach((entry, index) => {
+        if (isRecord(entry)) {
+          const name = describeEntry(entry, field, index);
+          const entrySubject = subject === "File" ? name : `${subject} / ${name}`;
+          checkRecord(entry, fieldSchema.record as RecordSchema, entrySubject, fixes);
+        }
+      });
+    }
+  });
+}
+
+/** Top-level fields decide whether the file can be read at all. */
+function checkFile(raw: unknown, schema: RecordSchema): string[] {
+  if (!isRecord(raw)) {
+    return [`The file holds a ${typeOf(raw)}, not an object.`];
+  }
+  return Object.entries(schema).flatMap(([field, fieldSchema]) => {
+    if (!(field in raw)) {
+      return fieldSchema.required ? [`"${field}" is missing.`] : [];
+    }
+    const actual = typeOf(raw[field]);
+    return fieldSchema.type.includes(actual)
+      ? []
+      : [`"${field}" should be ${fieldSchema.type.join(" or ")}, but is ${actual}.`];
+  });
+}
+
+function parseJson(text: string): { ok: true; value: unknown } | { ok: false; errors: string[] } {
+  try {
+    return { ok: true, value: JSON.parse(text.replace(/^\uFEFF/, "")) };
+  } catch (error) {
+    return { ok: false, errors: [`The file is not valid JSON: ${(error as Error).message}`] };
+  }
+}
+
+/** Reads a team setup file, listing every value that had to be repaired on the way. */
+export function loadTeamSetupFile(text: string): SetupFileLoadResult<TeamSetupData> {
+  const parsed = parseJson(text);
+  if (!parsed.ok) {
+    return parsed;
+  }
+
+  const errors = checkFile(parsed.value, TEAM_FILE_SCHEMA);
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  const fixes: LoadFix[] = [];
+  checkRecord(parsed.value as Record<string, unknown>, TEAM_FILE_SCHEMA, "File", fixes);
+  const team = normalizeTeamSetupData(parsed.value, fixes);
+  return team ? { ok: true, value: team, fixes } : { ok: false, errors: ["The file is not a team setup."] };
+}
+
+/** Checks the task lists of the older format under the same subjects `sanitizeTemplates` reports. */
+function checkLegacyTasks(source: Record<string, unknown>, fixes: LoadFix[]) {
+  TEMPLATE_DEFINITIONS.forEach(definition => {
+    const tasks = source[definition.key];
+    if (Array.isArray(tasks)) {
+      checkRecord({ tasks }, TEMPLATE_SCHEMA, definition.title, fixes);
+    }
+  });
+}
+
+/** Unassigns tasks whose capability is not in the team, which no one could work on. */
+function dropUnknownCapabilities(templates: WorkflowTemplate[], capabilities: Capability[], fixes: LoadFix[]) {
+  const known = new Set(capabilities.map(capability => capability.id));
+  return templates.map(template => ({
+    ...template,
+    tasks: template.tasks.map((task, index) => {
+      if (!task.capabilityId || known.has(task.capabilityId)) {
+        return task;
+      }
+      fixes.push({
+        action: "dropped",
+        subject: `${template.title.trim()} / ${task.task.trim() || `Task ${index + 1}`}`,
+        message: `Capability id ${task.capabilityId} is unknown.`,
+      });
+      return { ...task, capabilityId: "" };
+    }),
+  }));
+}
+
+/**
+ * Reads a template setup file for a team with the given capabilities. Besides
+ * the current format this accepts a bare list of templates and the older
+ * object keyed by the built-in templates, on its own or under `templates`.
+ */
+export function loadTemplateSetupFile(
+  text: string,
+  capabilities: Capability[]
+): SetupFileLoadResult<WorkflowTemplate[]> {
+  const parsed = parseJson(text);
+  if (!parsed.ok) {
+    return parsed;
+  }
+
+  const fixes: LoadFix[] = [];
+  const loaded = (templates: WorkflowTemplate[]): SetupFileLoadResult<WorkflowTemplate[]> => ({
+    ok: true,
+    value: dropUnknownCapabilities(templates, capabilities, fixes),
+    fixes,
+  });
+
+  const raw = parsed.value;
+  if (Array.isArray(raw)) {
+    checkRecord({ templates: raw }, TEMPLATE_FILE_SCHEMA, "File", fixes);
+    return loaded(sanitizeTemplates(raw, fixes));
+  }
+
+  const file = isRecord(raw) && !("templates" in raw) ? { templates: raw } : raw;
+  if (isRecord(file) && isRecord(file.templates)) {
+    const source = file.templates;
+    if (!TEMPLATE_DEFINITIONS.some(definition => definition.key in source)) {
+      return { ok: false, errors: ['"templates" is missing.'] };
+    }
+    checkRecord(file, LEGACY_TEMPLATE_FILE_SCHEMA, "File", fixes);
+    checkLegacyTasks(source, fixes);
+    return loaded(sanitizeTemplates(source, fixes));
+  }
+
+  const errors = checkFile(raw, TEMPLATE_FILE_SCHEMA);
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+  checkRecord(raw as Record<string, unknown>, TEMPLATE_FILE_SCHEMA, "File", fixes);
+  return loaded(sanitizeTemplates((raw as Record<string, unknown>).templates, fixes));
+}
@@ -0,0 +1,228 @@
+import { describe, expect, it } from "vitest";
+import { buildSetupSheets, rowsToTeam, rowsToTemplates, teamToRows, templatesToRows } from "@/lib/setupSpreadsheets";
+import type { Capability, StaffMember, TeamSetupData } from "@/lib/teamSetup";
+import type { WorkflowTemplate } from "@/lib/workflowTemplates";
+
+const capabilities: Capability[] = [
+  { id: "dev", code: "DEV", description: "Development", wipLimit: null },
+  { id: "qa", code: "QA", description: "Testing", wipLimit: null },
+];
+
+const workday = { start: 540, end: 1020 };
+const availability = {
+  timeZone: "Europe/Berlin",
+  weeklyHours: [null, workday, workday, workday, workday, workday, null],
+  leave: [],
+};
+
+function staff(id: string, overrides: Partial<StaffMember> = {}): StaffMember {
+  return {
+    id,
+    code: id.toUpperCase(),
+    name: id,
+    capacity: 1,
+    capabilityIds: [],
+    proficiency: {},
+    wipLimit: null,
+    availability,
+    ...overrides,
+  };
+}
+
+const team: TeamSetupData = {
+  capabilities,
+  staffMembers: [
+    staff("s1", { capabilityIds: ["dev", "qa"], proficiency: { dev: "expert", qa: "learning" }, wipLimit: 2 }),
+    staff("s2", { capacity: 0.5, capabilityIds: ["qa"], proficiency: { qa: "competent" } }),
+  ],
+  holidays: [],
+};
+
+const templates: WorkflowTemplate[] = [
+  {
+    key: "feature",
+    title: "Feature",
+    priority: 0,
+    preempts: false,
+    contextSwitchMinutes: 15,
+    tasks: [
+      {
+        id: "build",
+        seqNumber: 10,
+        task: "Build",
+        estimateMinutes: 90,
+        uncertainty: { distribution: "pert", optimisticMinutes: 60, pessimisticMinutes: 180 },
+        capabilityId: "dev",
+        predecessorIds: [],
+      },
+      {
+        id: "test",
+        seqNumber: 20,
+        task: "Test",
+        estimateMinutes: 30,
+        uncertainty: null,
+        capabilityId: "qa",
+        predecessorIds: null,
+      },
+    ],
+  },
+];
+
+function toText(rows: (string | number | null | undefined)[][]) {
+  return rows.map(row => row.map(value => (value == null ? "" : String(value))));
+}
+
+describe("teamToRows", () => {
+  it("writes one row per person with a proficiency column per capability", () => {
+    expect(teamToRows(team)).toEqual([
+      ["Code", "Name", "Capacity (%)", "WIP Limit", "DEV", "QA"],
+      ["S1", "s1", 100, 2, "Expert", "Learning"],
+      ["S2", "s2", 50, "", "", "Competent"],
+    ]);
+  });
+});
+
+describe("rowsToTeam", () => {
+  it("reads its own export back, keeping ids and availability", () => {
+    const result = rowsToTeam(toText(teamToRows(team)), team);
+
+    expect(result).toEqual({ ok: true, value: team, warnings: [] });
+  });
+
+  it("adds unknown capability columns and accepts plain markers", () => {
+    const result = rowsToTeam(
+      [
+        ["Code", "Name", "DEV", "QA", "Ops"],
+        ["S3", "New hire", "x", "", "Expert"],
+      ],
+      team
+    );
+
+    expect(result.ok && result.value.capabilities.map(capability => capability.code)).toEqual(["DEV", "QA", "Ops"]);
+    const ops = result.ok ? result.value.capabilities[2].id : "";
+    expect(result.ok && result.value.staffMembers).toEqual([
+      expect.objectContaining({
+        code: "S3",
+        name: "New hire",
+        capacity: 1,
+        capabilityIds: ["dev", ops],
+        proficiency: { dev: "competent", [ops]: "expert" },
+      }),
+    ]);
+  });
+
+  it("warns about rows it cannot read fully", () => {
+    const result = rowsToTeam(
+      [
+        ["Code", "Name", "Capacity (%)", "DEV"],
+        ["", "Nobody", "", ""],
+        ["S1", "s1", "200", "guru"],
+        ["S2", "s2", "lots", ""],
+      ],
+      team
+    );
+
+    expect(result.ok && result.warnings).toEqual([
+      "QA has no column, so nobody holds it now.",
+      "Row 2: no code, skipped.",
+      "Row 3: capacity 200% is outside 50–150% and was clamped.",
+      'Row 3: "guru" is not a proficiency level, so it is left out.',
+      'Row 4: capacity "lots" is not a number, using 100%.',
+    ]);
+    expect(result.ok && result.value.staffMembers.map(member => member.capacity)).toEqual([1.5, 1]);
+  });
+
+  it("reads WIP limits and warns about ones that are not whole numbers of at least 1", () => {
+    const result = rowsToTeam(
+      [
+        ["Code", "Name", "WIP Limit", "DEV", "QA"],
+        ["S1", "s1", "3", "", ""],
+        ["S2", "s2", "two", "", ""],
+        ["S3", "s3", "2.5", "", ""],
+        ["S4", "s4", "0", "", ""],
+        ["S5", "s5", "", "", ""],
+      ],
+      team
+    );
+
+    expect(result.ok && result.value.staffMembers.map(member => member.wipLimit)).toEqual([3, null, 2, null, null]);
+    expect(result.ok && result.warnings).toEqual([
+      'Row 3: WIP limit "two" is not a whole number of at least 1, so none is set.',
+      "Row 4: WIP limit 2.5 was rounded down to 2.",
+      'Row 5: WIP limit "0" is not a whole number of at least 1, so none is set.',
+    ]);
+  });
+
+  it("keeps each person's WIP limit when the column is missing", () => {
+    const result = rowsToTeam([["Code", "Name", "DEV", "QA"], ["S1", "s1", "", ""]], team);
+
+    expect(result.ok && result.value.staffMembers[0].wipLimit).toBe(2);
+  });
+
+  it("rejects a file without Code and Name columns", () => {
+    expect(rowsToTeam([], team)).toEqual({ ok: false, error: "The file is empty." });
+    expect(rowsToTeam([["Name"], ["Ann"]], team)).toEqual({
+      ok: false,
+      error: "The CSV needs Code and Name columns.",
+    });
+  });
+});
+
+describe("rowsToTemplates", () => {
+  it("reads its own export back, keeping task ids and scheduling", () => {
+    const rows = templatesToRows(templates, capabilities);
+
+    expect(rows[1]).toEqual(["Feature", 10, "Build", "01:30", "01:00", "03:00", "pert", "DEV", "none"]);
+    expect(rowsToTemplates(toText(rows), templates, capabilities)).toEqual({
+      ok: true,
+      value: templates,
+      warnings: [],
+    });
+  });
+
+  it("adds templates it does not know and warns about broken references", () => {
+    const result = rowsToTemplates(
+      [
+        ["Template", "Seq", "Task", "Estimate", "Capability", "Depends On"],
+        ["Spike", "10", "Explore", "2h", "Design", ""],
+        ["Spike", "20", "Write up", "", "QA", "10; 99"],
+        ["", "30", "Orphan", "", "", ""],
+      ],
+      templates,
+      capabilities
+    );
+
+    expect(result.ok && result.warnings).toEqual([
+      "Row 4: no template, skipped.",
+      'Row 2: capability "Design" does not exist.',
+      "Row 3: depends on unknown task 99.",
+    ]);
+    expect(result.ok && result.value.map(template => template.title)).toEqual(["Feature", "Spike"]);
+    const spike = result.ok ? result.value[1] : null;
+    expect(spike?.tasks.map(task => [task.task, task.estimateMinutes, task.capabilityId])).toEqual([
+      ["Explore", 120, ""],
+      ["Write up", null, "qa"],
+    ]);
+    expect(spike?.tasks[1].predecessorIds).toEqual([spike?.tasks[0].id]);
+  });
+
+  it("rejects a file without Template and Task columns", () => {
+    expect(rowsToTemplates([["Seq", "Task"]], templates, capabilities)).toEqual({
+      ok: false,
+      error: "The CSV needs Template and Task columns.",
+    });
+  });
+});
+
+describe("buildSetupSheets", () => {
+  it("adds the staff sheet only when staff are given", () => {
+    const names = (sheets: { name: string }[]) => sheets.map(sheet => sheet.name);
+
+    expect(names(buildSetupSheets({ capabilities, staffMembers: team.staffMembers, templates }))).toEqual([
+      "Staff",
+      "Capabilities",
+      "Feature",
+    ]);
+    expect(names(buildSetupSheets({ capabilities, templates }))).toEqual(["Capabilities", "Feature"]);
+  });
+});
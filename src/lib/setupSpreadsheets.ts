@@ -0,0 +1,392 @@
+import {
+  type Capability,
+  clampCapacity,
+  normalizeTeamSetupData,
+  normalizeWipLimit,
+  type StaffMember,
+  type TeamSetupData,
+} from "@/lib/teamSetup";
+import {
+  sanitizeTemplates,
+  type TemplateTask,
+  type WorkflowTemplate,
+} from "@/lib/workflowTemplates";
+import type { CsvValue } from "@/lib/csv";
+import { getProficiency, PROFICIENCY_LEVELS, type ProficiencyLevel } from "@/lib/proficiency";
+import { formatDuration, parseDuration } from "@/lib/duration";
+import { generateId } from "@/lib/ids";
+import type { XlsxSheet } from "@/lib/xlsx";
+
+export type SpreadsheetImportResult<T> =
+  | { ok: true; value: T; warnings: string[] }
+  | { ok: false; error: string };
+
+const STAFF_COLUMNS = ["Code", "Name", "Capacity (%)", "WIP Limit"] as const;
+const TASK_COLUMNS = [
+  "Seq",
+  "Task",
+  "Estimate",
+  "Optimistic",
+  "Pessimistic",
+  "Distribution",
+  "Capability",
+  "Depends On",
+] as const;
+
+/** Written in Depends On for a task that explicitly waits for nothing. */
+const NO_DEPENDENCIES = "none";
+
+/** Cell values other than a level name that mark a capability as held. */
+const HELD_MARKERS = ["x", "yes", "y", "1", "true", "✓"];
+
+function capabilityLabel(capability: Capability) {
+  return capability.code || capability.description;
+}
+
+function findCapability(capabilities: Capability[], label: string) {
+  const needle = label.trim().toLowerCase();
+  return capabilities.find(
+    capability =>
+      capability.code.trim().toLowerCase() === needle ||
+      capability.description.trim().toLowerCase() === needle
+  );
+}
+
+function headerIndex(header: string[], name: string) {
+  return header.findIndex(cell => cell.trim().toLowerCase() === name.toLowerCase());
+}
+
+/** Staff × capability matrix: one row per person, one proficiency column per capability. */
+export function teamToRows({ capabilities, staffMembers }: TeamSetupData): CsvValue[][] {
+  return [
+    [...STAFF_COLUMNS, ...capabilities.map(capabilityLabel)],
+    ...staffMembers.map(member => [
+      member.code,
+      member.name,
+      Math.round(member.capacity * 100),
+      member.wipLimit ?? "",
+      ...capabilities.map(capability =>
+        member.capabilityIds.includes(capability.id)
+          ? PROFICIENCY_LEVELS.find(entry => entry.level === getProficiency(member, capability.id))?.label
+          : ""
+      ),
+    ]),
+  ];
+}
+
+export function capabilitiesToRows(capabilities: Capability[]): CsvValue[][] {
+  return [
+    ["Code", "Description", "WIP Limit"],
+    ...capabilities.map(capability => [capability.code, capability.description, capability.wipLimit ?? ""]),
+  ];
+}
+
+function taskToCells(task: TemplateTask, tasks: TemplateTask[], capabilities: Capability[]): CsvValue[] {
+  const seqNumberById = new Map(tasks.map(candidate => [candidate.id, candidate.seqNumber]));
+  const capability = capabilities.find(candidate => candidate.id === task.capabilityId);
+  return [
+    task.seqNumber,
+    task.task,
+    task.estimateMinutes === null ? "" : formatDuration(task.estimateMinutes),
+    task.uncertainty?.optimisticMinutes == null ? "" : formatDuration(task.uncertainty.optimisticMinutes),
+    task.uncertainty?.pessimisticMinutes == null ? "" : formatDuration(task.uncertainty.pessimisticMinutes),
+    task.uncertainty?.distribution ?? "",
+    capability ? capabilityLabel(capability) : "",
+    task.predecessorIds === null
+      ? ""
+      : task.predecessorIds.length === 0
+        ? NO_DEPENDENCIES
+        : task.predecessorIds.map(id => seqNumberById.get(id)).join("; "),
+  ];
+}
+
+/** The task table of a single template, as shown in the template setup. */
+export function templateTasksToRows(template: WorkflowTemplate, capabilities: Capability[]): CsvValue[][] {
+  return [
+    [...TASK_COLUMNS],
+    ...template.tasks.map(task => taskToCells(task, template.tasks, capabilities)),
+  ];
+}
+
+/** Every template's tasks in one table, told apart by the leading Template column. */
+export function templatesToRows(templates: WorkflowTemplate[], capabilities: Capability[]): CsvValue[][] {
+  return [
+    ["Template", ...TASK_COLUMNS],
+    ...templates.flatMap(template =>
+      template.tasks.map(task => [template.title, ...taskToCells(task, template.tasks, capabilities)])
+    ),
+  ];
+}
+
+/** Sheets for an Excel export: the staff matrix when staff are given, capabilities, then one per template. */
+export function buildSetupSheets({
+  capabilities,
+  staffMembers,
+  templates,
+}: {
+  capabilities: Capability[];
+  staffMembers?: StaffMember[];
+  templates: WorkflowTemplate[];
+}): XlsxSheet[] {
+  return [
+    ...(staffMembers ? [{ name: "Staff", rows: teamToRows({ capabilities, staffMembers, holidays: [] }) }] : []),
+    { name: "Capabilities", rows: capabilitiesToRows(capabilities) },
+    ...templates.map(template => ({
+      name: template.title,
+      rows: templateTasksToRows(template, capabilities),
+    })),
+  ];
+}
+
+/** A level, "held" for a plain marker, null for an empty cell and undefined for anything else. */
+function parseProficiency(cell: string): ProficiencyLevel | "held" | null | undefined {
+  const value = cell.trim().toLowerCase();
+  if (!value) {
+    return null;
+  }
+  const level = PROFICIENCY_LEVELS.find(
+    entry => entry.level === value || entry.label.toLowerCase() === value
+  );
+  if (level) {
+    return level.level;
+  }
+  return HELD_MARKERS.includes(value) ? "held" : undefined;
+}
+
+/**
+ * Reads a staff × capability matrix back into a team. Capability columns are
+ * matched to the current capabilities by code or description, and unknown
+ * ones are added; people are matched by code so their availability is kept.
+ * The result goes through the same normalization as a loaded team file.
+ */
+export function rowsToTeam(rows: string[][], current: TeamSetupData): SpreadsheetImportResult<TeamSetupData> {
+  const [header, ...body] = rows;
+  if (!header) {
+    return { ok: false, error: "The file is empty." };
+  }
+
+  const codeColumn = headerIndex(header, "Code");
+  const nameColumn = headerIndex(header, "Name");
+  if (codeColumn === -1 || nameColumn === -1) {
+    return { ok: false, error: "The CSV needs Code and Name columns." };
+  }
+  const capacityColumn = headerIndex(header, "Capacity (%)");
+  const wipLimitColumn = headerIndex(header, "WIP Limit");
+  const reserved = new Set([codeColumn, nameColumn, capacityColumn, wipLimitColumn]);
+
+  const warnings: string[] = [];
+  const capabilities = [...current.capabilities];
+  const capabilityColumns = header.flatMap((label, column) => {
+    if (reserved.has(column) || !label.trim()) {
+      return [];
+    }
+    let capability = findCapability(capabilities, label);
+    if (!capability) {
+      capability = { id: generateId(), code: label.trim(), description: label.trim(), wipLimit: null };
+      capabilities.push(capability);
+    }
+    return [{ column, capabilityId: capability.id }];
+  });
+
+  current.capabilities
+    .filter(capability => !capabilityColumns.some(entry => entry.capabilityId === capability.id))
+    .forEach(capability =>
+      warnings.push(`${capabilityLabel(capability)} has no column, so nobody holds it now.`)
+    );
+
+  const staffMembers: Partial<StaffMember>[] = [];
+  body.forEach((cells, index) => {
+    const row = index + 2;
+    if (cells.every(cell => cell.trim() === "")) {
+      return;
+    }
+
+    const code = (cells[codeColumn] ?? "").trim();
+    if (!code) {
+      warnings.push(`Row ${row}: no code, skipped.`);
+      return;
+    }
+
+    const existing = current.staffMembers.find(member => member.code.trim().toLowerCase() === code.toLowerCase());
+    const rawCapacity = capacityColumn === -1 ? "" : (cells[capacityColumn] ?? "").trim();
+    const capacity = rawCapacity ? Number(rawCapacity) / 100 : existing?.capacity ?? 1;
+    if (!Number.isFinite(capacity)) {
+      warnings.push(`Row ${row}: capacity "${rawCapacity}" is not a number, using 100%.`);
+    } else if (clampCapacity(capacity) !== capacity) {
+      warnings.push(`Row ${row}: capacity ${rawCapacity}% is outside 50–150% and was clamped.`);
+    }
+
+    const rawWipLimit = wipLimitColumn === -1 ? "" : (cells[wipLimitColumn] ?? "").trim();
+    const wipLimit = wipLimitColumn === -1 ? existing?.wipLimit ?? null : normalizeWipLimit(rawWipLimit);
+    if (rawWipLimit && wipLimit === null) {
+      warnings.push(`Row ${row}: WIP limit "${rawWipLimit}" is not a whole number of at least 1, so none is set.`);
+    } else if (rawWipLimit && wipLimit !== Number(rawWipLimit)) {
+      warnings.push(`Row ${row}: WIP limit ${rawWipLimit} was rounded down to ${wipLimit}.`);
+    }
+
+    const proficiency: Record<string, ProficiencyLevel> = {};
+    capabilityColumns.forEach(({ column, capabilityId }) => {
+      const parsed = parseProficiency(cells[column] ?? "");
+      if (parsed === undefined) {
+        warnings.push(`Row ${row}: "${cells[column]}" is not a proficiency level, so it is left out.`);
+      } else if (parsed !== null) {
+        proficiency[capabilityId] = parsed === "held" ? existing?.proficiency[capabilityId] ?? "competent" : parsed;
+      }
+    });
+
+    staffMembers.push({
+      id: existing?.id,
+      code,
+      name: (cells[nameColumn] ?? "").trim(),
+      capacity: Number.isFinite(capacity) ? capacity : 1,
+      capabilityIds: Object.keys(proficiency),
+      proficiency,
+      wipLimit,
+      availability: existing?.availability,
+    });
+  });
+
+  const team = normalizeTeamSetupData({ capabilities, staffMembers, holidays: current.holidays });
+  return team ? { ok: true, value: team, warnings } : { ok: false, error: "The team could not be read." };
+}
+
+function parseOptionalDuration(cell: string, row: number, column: string, warnings: string[]) {
+  if (!cell.trim()) {
+    return null;
+  }
+  const parsed = parseDuration(cell);
+  if (!parsed.ok) {
+    warnings.push(`Row ${row}: ${column} "${cell}" is not a duration.`);
+    return null;
+  }
+  return parsed.minutes;
+}
+
+/**
+ * Reads task tables with a Template column back into templates. Templates are
+ * matched by title or key and keep their scheduling; templates missing from
+ * the file are left as they are. The result goes through `sanitizeTemplates`.
+ */
+export function rowsToTemplates(
+  rows: string[][],
+  current: WorkflowTemplate[],
+  capabilities: Capability[]
+): SpreadsheetImportResult<WorkflowTemplate[]> {
+  const [header, ...body] = rows;
+  if (!header) {
+    return { ok: false, error: "The file is empty." };
+  }
+
+  const column = (name: string) => headerIndex(header, name);
+  const columns = {
+    template: column("Template"),
+    seq: column("Seq"),
+    task: column("Task"),
+    estimate: column("Estimate"),
+    optimistic: column("Optimistic"),
+    pessimistic: column("Pessimistic"),
+    distribution: column("Distribution"),
+    capability: column("Capability"),
+    dependsOn: column("Depends On"),
+  };
+  if (columns.template === -1 || columns.task === -1) {
+    return { ok: false, error: "The CSV needs Template and Task columns." };
+  }
+
+  const warnings: string[] = [];
+  const groups = new Map<string, { title: string; rows: { row: number; cells: string[] }[] }>();
+  body.forEach((cells, index) => {
+    const row = index + 2;
+    if (cells.every(cell => cell.trim() === "")) {
+      return;
+    }
+    const title = (cells[columns.template] ?? "").trim();
+    if (!title) {
+      warnings.push(`Row ${row}: no template, skipped.`);
+      return;
+    }
+    const group = groups.get(title.toLowerCase()) ?? { title, rows: [] };
+    group.rows.push({ row, cells });
+    groups.set(title.toLowerCase(), group);
+  });
+
+  const cell = (cells: string[], index: number) => (index === -1 ? "" : (cells[index] ?? "").trim());
+
+  const imported = [...groups.values()].map(group => {
+    const existing = current.find(
+      template =>
+        template.title.trim().toLowerCase() === group.title.toLowerCase() ||
+        template.key.toLowerCase() === group.title.toLowerCase()
+    );
+    // Tasks keep their ids when the name is unchanged, so anything keyed by task still lines up.
+    const seqOf = (cells: string[], index: number) => cell(cells, columns.seq) || String((index + 1) * 10);
+    const usedIds = new Set<string>();
+    const taskIds = group.rows.map(({ cells }) => {
+      const name = cell(cells, columns.task).toLowerCase();
+      const existingTask = existing?.tasks.find(
+        task => task.task.trim().toLowerCase() === name && !usedIds.has(task.id)
+      );
+      const id = existingTask?.id ?? generateId();
+      usedIds.add(id);
+      return id;
+    });
+    const idBySeq = new Map<string, string>();
+    group.rows.forEach(({ row, cells }, index) => {
+      const seq = seqOf(cells, index);
+      if (idBySeq.has(seq)) {
+        warnings.push(`Row ${row}: Seq ${seq} is used twice in ${group.title}; dependencies point at the first.`);
+      } else {
+        idBySeq.set(seq, taskIds[index]);
+      }
+    });
+
+    const tasks = group.rows.map(({ row, cells }, index) => {
+      const seq = seqOf(cells, index);
+      const capabilityCell = cell(cells, columns.capability);
+      const capability = capabilityCell ? findCapability(capabilities, capabilityCell) : undefined;
+      if (capabilityCell && !capability) {
+        warnings.push(`Row ${row}: capability "${capabilityCell}" does not exist.`);
+      }
+
+      const dependsOn = cell(cells, columns.dependsOn);
+      const references = dependsOn.toLowerCase() === NO_DEPENDENCIES ? [] : dependsOn.split(/[;,\s]+/).filter(Boolean);
+      const predecessorIds = references.flatMap(reference => {
+        const id = idBySeq.get(reference);
+        if (!id) {
+          warnings.push(`Row ${row}: depends on unknown task ${reference}.`);
+        }
+        return id ? [id] : [];
+      });
+
+      const optimisticMinutes = parseOptionalDuration(cell(cells, columns.optimistic), row, "Optimistic", warnings);
+      const pessimisticMinutes = parseOptionalDuration(cell(cells, columns.pessimistic), row, "Pessimistic", warnings);
+      return {
+        id: taskIds[index],
+        seqNumber: Number(seq) || (index + 1) * 10,
+        task: cell(cells, columns.task),
+        estimateMinutes: parseOptionalDuration(cell(cells, columns.estimate), row, "Estimate", warnings),
+        uncertainty:
+          optimisticMinutes === null && pessimisticMinutes === null
+            ? null
+            : { distribution: cell(cells, columns.distribution).toLowerCase(), optimisticMinutes, pessimisticMinutes },
+        capabilityId: capability?.id ?? "",
+        // Blank, or only unknown references, follows the previous task.
+        predecessorIds: !dependsOn || (references.length > 0 && predecessorIds.length === 0) ? null : predecessorIds,
+      };
+    });
+
+    return existing ? { ...existing, tasks } : { title: group.title, tasks };
+  });
+
+  const importedKeys = new Set(imported.flatMap(template => ("key" in template ? [template.key] : [])));
+  const merged = [
+    ...current.map(template =>
+      importedKeys.has(template.key)
+        ? imported.find(candidate => "key" in candidate && candidate.key === template.key)
+        : template
+    ),
+    ...imported.filter(template => !("key" in template)),
+  ];
+
+  return { ok: true, value: sanitizeTemplates(merged), warnings };
+}
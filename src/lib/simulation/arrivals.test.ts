@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import {
+  type ArrivalSettings,
+  DEFAULT_ARRIVAL_SETTINGS,
+  generateArrivals,
+  getArrivalProcess,
+  MAX_ARRIVALS_PER_TEMPLATE,
+  MIN_FIXED_INTERVAL_HOURS,
+  MINUTES_PER_DAY,
+  normalizeArrivalSettings,
+  parseIntervalHours,
+  parseNonNegative,
+} from "@/lib/simulation/arrivals";
+
+function settings(changes: Partial<ArrivalSettings>): ArrivalSettings {
+  return { ...DEFAULT_ARRIVAL_SETTINGS, horizonDays: 1, processes: {}, ...changes };
+}
+
+describe("generateArrivals", () => {
+  it("spaces fixed arrivals by the interval after the offset", () => {
+    const arrivals = generateArrivals(
+      settings({ processes: { defect: { kind: "fixed", intervalHours: 6, offsetHours: 1 } } }),
+      ["defect"]
+    );
+    expect(arrivals.map(arrival => arrival.arrivalTime)).toEqual([60, 420, 780, 1140]);
+  });
+
+  it("replays timestamps inside the horizon in time order", () => {
+    const arrivals = generateArrivals(
+      settings({ processes: { incident: { kind: "replay", timestampsHours: [30, 5, 1] } } }),
+      ["incident"]
+    );
+    expect(arrivals.map(arrival => arrival.arrivalTime)).toEqual([60, 300]);
+  });
+
+  it("draws the same Poisson arrivals for the same seed", () => {
+    const poisson = settings({ horizonDays: 28, processes: { enhancement: { kind: "poisson", ratePerWeek: 5 } } });
+    const first = generateArrivals(poisson, ["enhancement"]);
+    expect(generateArrivals(poisson, ["enhancement"])).toEqual(first);
+    expect(generateArrivals({ ...poisson, seed: 2 }, ["enhancement"])).not.toEqual(first);
+    expect(first.every(arrival => arrival.arrivalTime < 28 * MINUTES_PER_DAY)).toBe(true);
+  });
+
+  it("keeps one template's draws when another template's rate changes", () => {
+    const base = settings({
+      horizonDays: 28,
+      processes: {
+        enhancement: { kind: "poisson", ratePerWeek: 5 },
+        incident: { kind: "poisson", ratePerWeek: 1 },
+      },
+    });
+    const busier: ArrivalSettings = {
+      ...base,
+      processes: { ...base.processes, incident: { kind: "poisson", ratePerWeek: 9 } },
+    };
+    const enhancements = (value: ArrivalSettings) =>
+      generateArrivals(value, ["enhancement", "incident"]).filter(arrival => arrival.templateKey === "enhancement");
+    expect(enhancements(busier)).toEqual(enhancements(base));
+  });
+
+  it("merges the templates' arrivals in time order", () => {
+    const arrivals = generateArrivals(
+      settings({
+        processes: {
+          enhancement: { kind: "replay", timestampsHours: [2, 10] },
+          defect: { kind: "replay", timestampsHours: [5] },
+        },
+      }),
+      ["enhancement", "defect"]
+    );
+    expect(arrivals.map(arrival => [arrival.templateKey, arrival.arrivalTime])).toEqual([
+      ["enhancement", 120],
+      ["defect", 300],
+      ["enhancement", 600],
+    ]);
+  });
+
+  it("only generates arrivals for the templates asked for", () => {
+    const both = settings({
+      processes: {
+        enhancement: { kind: "replay", timestampsHours: [1] },
+        defect: { kind: "replay", timestampsHours: [2] },
+      },
+    });
+    expect(generateArrivals(both, ["defect"]).map(arrival => arrival.templateKey)).toEqual(["defect"]);
+  });
+
+  it("caps the arrivals of each template", () => {
+    const arrivals = generateArrivals(
+      settings({ horizonDays: 365, processes: { defect: { kind: "poisson", ratePerWeek: 1e9 } } }),
+      ["defect"]
+    );
+    expect(arrivals).toHaveLength(MAX_ARRIVALS_PER_TEMPLATE);
+  });
+
+  it("gives templates without a process no arrivals", () => {
+    expect(getArrivalProcess(settings({}), "custom")).toEqual({ kind: "poisson", ratePerWeek: 0 });
+    expect(generateArrivals(settings({}), ["custom"])).toEqual([]);
+  });
+});
+
+describe("normalizeArrivalSettings", () => {
+  it("falls back to the defaults for anything that is not an object", () => {
+    expect(normalizeArrivalSettings(null)).toBe(DEFAULT_ARRIVAL_SETTINGS);
+    expect(normalizeArrivalSettings("settings")).toBe(DEFAULT_ARRIVAL_SETTINGS);
+  });
+
+  it("raises a fixed interval to the one-minute minimum", () => {
+    const normalized = normalizeArrivalSettings({
+      processes: { defect: { kind: "fixed", intervalHours: 0, offsetHours: 1 } },
+    });
+    expect(normalized.processes.defect).toEqual({
+      kind: "fixed",
+      intervalHours: MIN_FIXED_INTERVAL_HOURS,
+      offsetHours: 1,
+    });
+  });
+
+  it("clamps negative numbers and drops invalid replay timestamps", () => {
+    const normalized = normalizeArrivalSettings({
+      seed: 3.7,
+      horizonDays: -5,
+      processes: {
+        defect: { kind: "fixed", intervalHours: -1, offsetHours: "2" },
+        incident: { kind: "replay", timestampsHours: [4, -1, "6", 8] },
+      },
+    });
+    expect(normalized.seed).toBe(3);
+    expect(normalized.horizonDays).toBe(1);
+    expect(normalized.processes).toEqual({
+      defect: { kind: "fixed", intervalHours: MIN_FIXED_INTERVAL_HOURS, offsetHours: 0 },
+      incident: { kind: "replay", timestampsHours: [4, 8] },
+    });
+  });
+
+  it("falls back to the default assignment policy for unknown ids", () => {
+    expect(normalizeArrivalSettings({ assignmentPolicy: "round-robin" }).assignmentPolicy).toBe("round-robin");
+    expect(normalizeArrivalSettings({ assignmentPolicy: "random" }).assignmentPolicy).toBe("first-available");
+  });
+
+  it("keeps backlog items that name an id and a template", () => {
+    const normalized = normalizeArrivalSettings({
+      backlog: [
+        { id: "a", templateKey: "defect" },
+        { id: "b" },
+        null,
+        { id: "c", title: "C", templateKey: "incident" },
+      ],
+      syntheticArrivals: false,
+    });
+    expect(normalized.backlog).toEqual([
+      { id: "a", title: "", templateKey: "defect" },
+      { id: "c", title: "C", templateKey: "incident" },
+    ]);
+    expect(normalized.syntheticArrivals).toBe(false);
+    expect(normalizeArrivalSettings({}).syntheticArrivals).toBe(true);
+  });
+
+  it("drops processes of an unknown kind", () => {
+    const normalized = normalizeArrivalSettings({ processes: { defect: { kind: "burst" } } });
+    expect(normalized.processes).toEqual({});
+  });
+});
+
+describe("arrival inputs", () => {
+  it("keep the previous value for blank or non-numeric input", () => {
+    expect(parseNonNegative("", 3)).toBe(3);
+    expect(parseNonNegative("abc", 3)).toBe(3);
+    expect(parseNonNegative("-2", 3)).toBe(0);
+  });
+
+  it("never accept a fixed interval below one minute", () => {
+    expect(parseIntervalHours("0", 24)).toBe(MIN_FIXED_INTERVAL_HOURS);
+    expect(parseIntervalHours("0.5", 24)).toBe(0.5);
+  });
+});
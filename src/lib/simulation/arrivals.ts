@@ -0,0 +1,245 @@
+import type { TemplateKey } from "@/lib/workflowTemplates";
+import type { WorkItemArrival } from "@/lib/simulation/engine";
+import { DEFAULT_START_DATE, parseIsoDate } from "@/lib/simulation/calendar";
+import {
+  type AssignmentPolicyId,
+  DEFAULT_ASSIGNMENT_POLICY,
+  isAssignmentPolicyId,
+} from "@/lib/simulation/policies";
+import { createRandom, deriveSeed, sampleExponential } from "@/lib/simulation/random";
+
+export const MINUTES_PER_HOUR = 60;
+export const MINUTES_PER_DAY = 24 * MINUTES_PER_HOUR;
+export const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+/** Shortest fixed interval, one minute; anything shorter floods the simulation. */
+export const MIN_FIXED_INTERVAL_HOURS = 1 / MINUTES_PER_HOUR;
+
+/** Most arrivals one template generates over the horizon; later ones are left out. */
+export const MAX_ARRIVALS_PER_TEMPLATE = 10_000;
+
+export type ArrivalProcess =
+  | { kind: "fixed"; intervalHours: number; offsetHours: number }
+  | { kind: "poisson"; ratePerWeek: number }
+  | { kind: "replay"; timestampsHours: number[] };
+
+export type ArrivalProcessKind = ArrivalProcess["kind"];
+
+/** A work item already waiting when the clock starts, e.g. an imported issue. */
+export type BacklogItem = {
+  id: string;
+  title: string;
+  templateKey: TemplateKey;
+};
+
+export type ArrivalSettings = {
+  seed: number;
+  /** ISO date the simulated clock starts on; staff calendars are read from here. */
+  startDate: string;
+  horizonDays: number;
+  /** Who picks up a task when several people could. */
+  assignmentPolicy: AssignmentPolicyId;
+  processes: Record<TemplateKey, ArrivalProcess>;
+  backlog: BacklogItem[];
+  /** Whether the arrival processes add work on top of the backlog. */
+  syntheticArrivals: boolean;
+};
+
+export const DEFAULT_ARRIVAL_SETTINGS: ArrivalSettings = {
+  seed: 1,
+  startDate: DEFAULT_START_DATE,
+  horizonDays: 28,
+  assignmentPolicy: DEFAULT_ASSIGNMENT_POLICY,
+  processes: {
+    enhancement: { kind: "poisson", ratePerWeek: 5 },
+    defect: { kind: "poisson", ratePerWeek: 3 },
+    incident: { kind: "poisson", ratePerWeek: 1 },
+  },
+  backlog: [],
+  syntheticArrivals: true,
+};
+
+export function createArrivalProcess(kind: ArrivalProcessKind): ArrivalProcess {
+  switch (kind) {
+    case "fixed":
+      return { kind, intervalHours: 24, offsetHours: 0 };
+    case "poisson":
+      return { kind, ratePerWeek: 1 };
+    case "replay":
+      return { kind, timestampsHours: [] };
+  }
+}
+
+/** Reads a number typed into an arrival input; blank or non-numeric input keeps `fallback`. */
+export function parseNonNegative(rawValue: string, fallback: number) {
+  const numericValue = Number(rawValue);
+  if (rawValue.trim() === "" || Number.isNaN(numericValue)) {
+    return fallback;
+  }
+  return Math.max(numericValue, 0);
+}
+
+/** Reads a fixed interval typed in hours, raised to `MIN_FIXED_INTERVAL_HOURS`. */
+export function parseIntervalHours(rawValue: string, fallback: number) {
+  return Math.max(parseNonNegative(rawValue, fallback), MIN_FIXED_INTERVAL_HOURS);
+}
+
+function toNonNegative(value: unknown, fallback: number) {
+  return typeof value === "number" && Number.isFinite(value) ? Math.max(0, value) : fallback;
+}
+
+function normalizeArrivalProcess(raw: unknown): ArrivalProcess | null {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+
+  const candidate = raw as Record<string, unknown>;
+  switch (candidate.kind) {
+    case "fixed":
+      return {
+        kind: "fixed",
+        intervalHours: Math.max(MIN_FIXED_INTERVAL_HOURS, toNonNegative(candidate.intervalHours, 24)),
+        offsetHours: toNonNegative(candidate.offsetHours, 0),
+      };
+    case "poisson":
+      return { kind: "poisson", ratePerWeek: toNonNegative(candidate.ratePerWeek, 0) };
+    case "replay":
+      return {
+        kind: "replay",
+        timestampsHours: Array.isArray(candidate.timestampsHours)
+          ? candidate.timestampsHours.filter(
+              (value): value is number => typeof value === "number" && Number.isFinite(value) && value >= 0
+            )
+          : [],
+      };
+    default:
+      return null;
+  }
+}
+
+function normalizeBacklog(raw: unknown): BacklogItem[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  return raw.flatMap(entry => {
+    const candidate = (entry ?? {}) as Record<string, unknown>;
+    return typeof candidate.id === "string" && typeof candidate.templateKey === "string"
+      ? [
+          {
+            id: candidate.id,
+            title: typeof candidate.title === "string" ? candidate.title : "",
+            templateKey: candidate.templateKey,
+          },
+        ]
+      : [];
+  });
+}
+
+export function normalizeArrivalSettings(raw: unknown): ArrivalSettings {
+  if (!raw || typeof raw !== "object") {
+    return DEFAULT_ARRIVAL_SETTINGS;
+  }
+
+  const candidate = raw as Partial<Record<keyof ArrivalSettings, unknown>>;
+  const processes: Record<TemplateKey, ArrivalProcess> = {};
+  if (candidate.processes && typeof candidate.processes === "object") {
+    Object.entries(candidate.processes).forEach(([templateKey, rawProcess]) => {
+      const process = normalizeArrivalProcess(rawProcess);
+      if (process) {
+        processes[templateKey] = process;
+      }
+    });
+  }
+
+  return {
+    seed: Math.floor(toNonNegative(candidate.seed, DEFAULT_ARRIVAL_SETTINGS.seed)),
+    startDate:
+      typeof candidate.startDate === "string" && parseIsoDate(candidate.startDate) !== null
+        ? candidate.startDate
+        : DEFAULT_ARRIVAL_SETTINGS.startDate,
+    horizonDays: Math.max(1, Math.round(toNonNegative(candidate.horizonDays, DEFAULT_ARRIVAL_SETTINGS.horizonDays))),
+    assignmentPolicy: isAssignmentPolicyId(candidate.assignmentPolicy)
+      ? candidate.assignmentPolicy
+      : DEFAULT_ASSIGNMENT_POLICY,
+    processes,
+    backlog: normalizeBacklog(candidate.backlog),
+    syntheticArrivals:
+      typeof candidate.syntheticArrivals === "boolean"
+        ? candidate.syntheticArrivals
+        : DEFAULT_ARRIVAL_SETTINGS.syntheticArrivals,
+  };
+}
+
+/** Templates added after the defaults start without any arrivals. */
+export function getArrivalProcess(settings: ArrivalSettings, templateKey: TemplateKey): ArrivalProcess {
+  return settings.processes[templateKey] ?? { kind: "poisson", ratePerWeek: 0 };
+}
+
+function generateArrivalTimes(process: ArrivalProcess, horizon: number, seed: number): number[] {
+  const times: number[] = [];
+
+  switch (process.kind) {
+    case "fixed": {
+      if (!(process.intervalHours > 0)) {
+        break;
+      }
+      const interval = Math.max(process.intervalHours, MIN_FIXED_INTERVAL_HOURS) * MINUTES_PER_HOUR;
+      for (
+        let time = Math.max(0, process.offsetHours * MINUTES_PER_HOUR);
+        time < horizon && times.length < MAX_ARRIVALS_PER_TEMPLATE;
+        time += interval
+      ) {
+        times.push(time);
+      }
+      break;
+    }
+    case "poisson": {
+      if (!(process.ratePerWeek > 0)) {
+        break;
+      }
+      const random = createRandom(seed);
+      const mean = MINUTES_PER_WEEK / process.ratePerWeek;
+      for (
+        let time = sampleExponential(random, mean);
+        time < horizon && times.length < MAX_ARRIVALS_PER_TEMPLATE;
+        time += sampleExponential(random, mean)
+      ) {
+        times.push(time);
+      }
+      break;
+    }
+    case "replay":
+      process.timestampsHours
+        .map(hours => hours * MINUTES_PER_HOUR)
+        .filter(time => Number.isFinite(time) && time >= 0 && time < horizon)
+        .sort((a, b) => a - b)
+        .slice(0, MAX_ARRIVALS_PER_TEMPLATE)
+        .forEach(time => times.push(time));
+      break;
+  }
+
+  return times;
+}
+
+/**
+ * Expands the arrival processes of the given templates into a concrete,
+ * time-ordered list of work item arrivals. The same settings always yield the
+ * same list. Each template stops at `MAX_ARRIVALS_PER_TEMPLATE` arrivals.
+ */
+export function generateArrivals(
+  settings: ArrivalSettings,
+  templateKeys: TemplateKey[]
+): WorkItemArrival[] {
+  const horizon = Math.max(0, settings.horizonDays) * MINUTES_PER_DAY;
+
+  return templateKeys
+    .flatMap(templateKey =>
+      generateArrivalTimes(
+        getArrivalProcess(settings, templateKey),
+        horizon,
+        deriveSeed(settings.seed, templateKey)
+      ).map(arrivalTime => ({ templateKey, arrivalTime }))
+    )
+    .sort((a, b) => a.arrivalTime - b.arrivalTime);
+}
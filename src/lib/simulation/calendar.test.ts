@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  createStaffCalendar,
+  formatSimulatedTime,
+  parseIsoDate,
+  timeZoneOffsetMinutes,
+  toIsoDate,
+} from "@/lib/simulation/calendar";
+import type { StaffAvailability } from "@/lib/teamSetup";
+
+const DAY = 24 * 60;
+const NINE_TO_FIVE = { start: 9 * 60, end: 17 * 60 };
+
+/** Monday to Friday, nine to five; the default start date is a Monday. */
+function weekdays(changes: Partial<StaffAvailability> = {}): StaffAvailability {
+  return {
+    timeZone: "UTC",
+    weeklyHours: [null, NINE_TO_FIVE, NINE_TO_FIVE, NINE_TO_FIVE, NINE_TO_FIVE, NINE_TO_FIVE, null],
+    leave: [],
+    ...changes,
+  };
+}
+
+describe("createStaffCalendar", () => {
+  it("waits for the start of the working day", () => {
+    const calendar = createStaffCalendar(weekdays(), [], "2026-01-05");
+
+    expect(calendar.nextWorkingTime(0)).toBe(9 * 60);
+    expect(calendar.nextWorkingTime(10 * 60)).toBe(10 * 60);
+    expect(calendar.advance(0, 60)).toBe(10 * 60);
+  });
+
+  it("carries work over the evening and the weekend", () => {
+    const calendar = createStaffCalendar(weekdays(), [], "2026-01-05");
+
+    expect(calendar.advance(16 * 60 + 30, 60)).toBe(DAY + 9 * 60 + 30);
+    const fridayAfternoon = 4 * DAY + 16 * 60;
+    expect(calendar.advance(fridayAfternoon, 120)).toBe(7 * DAY + 10 * 60);
+  });
+
+  it("skips public holidays and leave", () => {
+    const calendar = createStaffCalendar(
+      weekdays({ leave: [{ id: "l1", start: "2026-01-07", end: "2026-01-08" }] }),
+      [{ id: "h1", date: "2026-01-06", name: "Holiday" }],
+      "2026-01-05"
+    );
+
+    expect(calendar.nextWorkingTime(DAY)).toBe(4 * DAY + 9 * 60);
+  });
+
+  it("reads working hours in the member's time zone", () => {
+    const calendar = createStaffCalendar(weekdays({ timeZone: "Europe/Berlin" }), [], "2026-01-05");
+
+    expect(calendar.nextWorkingTime(0)).toBe(8 * 60);
+  });
+
+  it("counts working minutes between two times", () => {
+    const calendar = createStaffCalendar(weekdays(), [], "2026-01-05");
+
+    expect(calendar.workingMinutesBetween(0, DAY)).toBe(8 * 60);
+    expect(calendar.workingMinutesBetween(12 * 60, 7 * DAY)).toBe(5 * 8 * 60 - 3 * 60);
+    expect(calendar.workingMinutesBetween(DAY, 0)).toBe(0);
+  });
+
+  it("never finishes work for someone without working days", () => {
+    const calendar = createStaffCalendar(weekdays({ weeklyHours: Array(7).fill(null) }), [], "2026-01-05");
+
+    expect(calendar.nextWorkingTime(0)).toBe(Infinity);
+    expect(calendar.advance(0, 30)).toBe(Infinity);
+  });
+});
+
+describe("dates", () => {
+  it("parses ISO dates and rejects anything else", () => {
+    expect(parseIsoDate("2026-01-05")).toBe(Date.UTC(2026, 0, 5));
+    expect(parseIsoDate("05/01/2026")).toBeNull();
+    expect(toIsoDate(Date.UTC(2026, 0, 5, 13))).toBe("2026-01-05");
+  });
+
+  it("formats simulated minutes from the start date", () => {
+    expect(formatSimulatedTime(DAY + 90, "2026-01-05")).toBe("2026-01-06 01:30");
+    expect(formatSimulatedTime(0, "not a date")).toBe("2026-01-05 00:00");
+  });
+
+  it("reads time zone offsets and treats unknown zones as UTC", () => {
+    expect(timeZoneOffsetMinutes("Europe/Berlin", Date.UTC(2026, 0, 5))).toBe(60);
+    expect(timeZoneOffsetMinutes("Europe/Berlin", Date.UTC(2026, 6, 5))).toBe(120);
+    expect(timeZoneOffsetMinutes("Not/AZone", Date.UTC(2026, 0, 5))).toBe(0);
+  });
+});
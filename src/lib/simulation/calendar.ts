@@ -0,0 +1,187 @@
+import type { PublicHoliday, StaffAvailability } from "@/lib/teamSetup";
+
+/** Monday the simulated clock starts on when no start date is configured. */
+export const DEFAULT_START_DATE = "2026-01-05";
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+/** Never look further ahead than this for someone's next working day. */
+const MAX_LOOKAHEAD_DAYS = 3660;
+
+export type StaffCalendar = {
+  /** Earliest simulated minute at or after `time` when the person is working. */
+  nextWorkingTime(time: number): number;
+  /** Simulated minute at which `minutes` of work started at `time` are finished. */
+  advance(time: number, minutes: number): number;
+  /** Working minutes between two simulated minutes. */
+  workingMinutesBetween(from: number, to: number): number;
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat | null>();
+
+function getFormatter(timeZone: string) {
+  if (!formatters.has(timeZone)) {
+    try {
+      formatters.set(
+        timeZone,
+        new Intl.DateTimeFormat("en-US", {
+          timeZone,
+          hourCycle: "h23",
+          year: "numeric",
+          month: "numeric",
+          day: "numeric",
+          hour: "numeric",
+          minute: "numeric",
+          second: "numeric",
+        })
+      );
+    } catch {
+      formatters.set(timeZone, null);
+    }
+  }
+  return formatters.get(timeZone) ?? null;
+}
+
+/** Minutes the time zone is ahead of UTC at the given instant; unknown zones count as UTC. */
+export function timeZoneOffsetMinutes(timeZone: string, instant: number): number {
+  const formatter = getFormatter(timeZone);
+  if (!formatter) {
+    return 0;
+  }
+
+  const parts = formatter.formatToParts(new Date(instant));
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find(candidate => candidate.type === type)?.value ?? 0);
+  const asUtc = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second")
+  );
+  return Math.round((asUtc - Math.floor(instant / 1000) * 1000) / MINUTE_MS);
+}
+
+export function parseIsoDate(value: string): number | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const time = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return Number.isNaN(time) ? null : time;
+}
+
+export function toIsoDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/** Wall-clock UTC date and time of a simulated minute, as `YYYY-MM-DD hh:mm`. */
+export function formatSimulatedTime(minutes: number, startDate: string): string {
+  const origin = parseIsoDate(startDate) ?? parseIsoDate(DEFAULT_START_DATE) ?? 0;
+  return new Date(origin + Math.round(minutes) * MINUTE_MS).toISOString().slice(0, 16).replace("T", " ");
+}
+
+/**
+ * Builds the working calendar of one staff member. Simulated minutes count
+ * from midnight UTC on `startDate`; working hours are read in the member's
+ * own time zone and skip their leave and the team's public holidays.
+ */
+export function createStaffCalendar(
+  availability: StaffAvailability,
+  holidays: PublicHoliday[],
+  startDate: string
+): StaffCalendar {
+  const origin = parseIsoDate(startDate) ?? parseIsoDate(DEFAULT_START_DATE) ?? 0;
+  const hasWorkingDays = availability.weeklyHours.some(hours => hours !== null);
+  const holidayDates = new Set(holidays.map(holiday => holiday.date));
+  const intervals: { start: number; end: number }[] = [];
+  let nextDay = -1;
+
+  const isOff = (date: string) =>
+    holidayDates.has(date) ||
+    availability.leave.some(period => period.start <= date && date <= period.end);
+
+  const generateDay = (dayIndex: number) => {
+    const dayStart = origin + dayIndex * DAY_MS;
+    const hours = availability.weeklyHours[new Date(dayStart).getUTCDay()];
+    if (!hours || hours.end <= hours.start || isOff(toIsoDate(dayStart))) {
+      return;
+    }
+
+    const toSimulated = (minuteOfDay: number) => {
+      const local = dayStart + minuteOfDay * MINUTE_MS;
+      const instant = local - timeZoneOffsetMinutes(availability.timeZone, local) * MINUTE_MS;
+      return (instant - origin) / MINUTE_MS;
+    };
+
+    const start = Math.max(0, toSimulated(hours.start));
+    const end = toSimulated(hours.end);
+    if (end > start) {
+      intervals.push({ start, end });
+    }
+  };
+
+  const ensureCovered = (time: number) => {
+    while (
+      (intervals.length === 0 || intervals[intervals.length - 1].end <= time) &&
+      nextDay < MAX_LOOKAHEAD_DAYS
+    ) {
+      generateDay(nextDay);
+      nextDay += 1;
+    }
+  };
+
+  /** Index of the first interval ending after `time`, or -1 if there is none. */
+  const findInterval = (time: number) => {
+    ensureCovered(time);
+    let low = 0;
+    let high = intervals.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (intervals[middle].end <= time) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low < intervals.length ? low : -1;
+  };
+
+  const nextWorkingTime = (time: number) => {
+    if (!hasWorkingDays) {
+      return Infinity;
+    }
+    const index = findInterval(time);
+    return index === -1 ? Infinity : Math.max(time, intervals[index].start);
+  };
+
+  const advance = (time: number, minutes: number) => {
+    let current = nextWorkingTime(time);
+    let remaining = minutes;
+    while (Number.isFinite(current)) {
+      const interval = intervals[findInterval(current)];
+      const available = interval.end - current;
+      if (remaining <= available) {
+        return current + remaining;
+      }
+      remaining -= available;
+      current = nextWorkingTime(interval.end);
+    }
+    return Infinity;
+  };
+
+  const workingMinutesBetween = (from: number, to: number) => {
+    if (!hasWorkingDays || to <= from) {
+      return 0;
+    }
+    ensureCovered(to);
+    return intervals.reduce(
+      (total, interval) =>
+        total + Math.max(0, Math.min(to, interval.end) - Math.max(from, interval.start)),
+      0
+    );
+  };
+
+  return { nextWorkingTime, advance, workingMinutesBetween };
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { buildCumulativeFlow } from "@/lib/simulation/cumulativeFlow";
+import type { SimulationResult } from "@/lib/simulation/engine";
+import type { Capability } from "@/lib/teamSetup";
+
+const capabilities: Capability[] = [
+  { id: "dev", code: "DEV", description: "Development", wipLimit: null },
+  { id: "qa", code: "QA", description: "Testing", wipLimit: null },
+];
+
+function result(transitions: SimulationResult["transitions"], endTime: number): SimulationResult {
+  return {
+    workItems: [],
+    log: [],
+    transitions,
+    staffBusyTime: {},
+    staffAvailableTime: {},
+    queueLengths: {},
+    endTime,
+    unstaffedTaskIds: [],
+  };
+}
+
+describe("buildCumulativeFlow", () => {
+  it("stacks done first, then each column's in progress and queued bands, last column first", () => {
+    const flow = buildCumulativeFlow(result([], 10), capabilities, 2);
+
+    expect(flow.times).toEqual([0, 5, 10]);
+    expect(flow.series.map(band => band.key)).toEqual([
+      "done",
+      "qa:in-progress",
+      "qa:queued",
+      "dev:in-progress",
+      "dev:queued",
+    ]);
+    expect(flow.series[2].label).toBe("QA queued");
+  });
+
+  it("counts the tasks in each state at every sample", () => {
+    const flow = buildCumulativeFlow(
+      result(
+        [
+          { time: 0, taskId: "t1", capabilityId: "dev", from: null, to: "queued" },
+          { time: 0, taskId: "t2", capabilityId: "dev", from: null, to: "queued" },
+          { time: 2, taskId: "t1", capabilityId: "dev", from: "queued", to: "in-progress" },
+          { time: 6, taskId: "t1", capabilityId: "dev", from: "in-progress", to: "done" },
+        ],
+        10
+      ),
+      capabilities,
+      2
+    );
+
+    const values = Object.fromEntries(flow.series.map(band => [band.key, band.values]));
+    expect(values["dev:queued"]).toEqual([2, 1, 1]);
+    expect(values["dev:in-progress"]).toEqual([0, 1, 0]);
+    expect(values.done).toEqual([0, 0, 1]);
+  });
+
+  it("adds a column for transitions of capabilities no longer in the team", () => {
+    const flow = buildCumulativeFlow(
+      result([{ time: 0, taskId: "t1", capabilityId: "ops", from: null, to: "queued" }], 10),
+      capabilities,
+      1
+    );
+
+    const unknown = flow.series.find(band => band.key === "ops:queued");
+    expect(unknown?.label).toBe("Unknown capability queued");
+    expect(unknown?.values).toEqual([1, 1]);
+  });
+});
@@ -0,0 +1,77 @@
+import type { Capability } from "@/lib/teamSetup";
+import type { SimulationResult, TaskState } from "@/lib/simulation/engine";
+
+export type CumulativeFlowSeries = {
+  key: string;
+  label: string;
+  /** Null for the shared done band. */
+  capabilityId: string | null;
+  state: TaskState;
+  values: number[];
+};
+
+export type CumulativeFlow = {
+  /** Simulated minutes of each sample. */
+  times: number[];
+  /** Bands from the bottom of the stack up: done, then each column's in progress and queued, last column first. */
+  series: CumulativeFlowSeries[];
+};
+
+/**
+ * Samples how many tasks sit in each Kanban column over the run. Columns are
+ * the capabilities, each split into queued and in progress; finished tasks
+ * collect in a single done band.
+ */
+export function buildCumulativeFlow(
+  result: SimulationResult,
+  capabilities: Capability[],
+  sampleCount = 200
+): CumulativeFlow {
+  const endTime = Math.max(result.endTime, 1);
+  const times = Array.from({ length: sampleCount + 1 }, (_, index) => (endTime * index) / sampleCount);
+
+  const series: CumulativeFlowSeries[] = [
+    { key: "done", label: "Done", capabilityId: null, state: "done", values: [] },
+  ];
+  const seriesIndex = new Map<string, number>([["done", 0]]);
+  const addColumn = (capabilityId: string, name: string) => {
+    (["in-progress", "queued"] as const).forEach(state => {
+      const key = `${capabilityId}:${state}`;
+      seriesIndex.set(key, series.length);
+      series.push({
+        key,
+        label: `${name} ${state === "queued" ? "queued" : "in progress"}`,
+        capabilityId,
+        state,
+        values: [],
+      });
+    });
+  };
+  // Later columns sit lower in the stack, nearest to done.
+  [...capabilities].reverse().forEach(capability =>
+    addColumn(capability.id, capability.code || capability.description || "Unnamed")
+  );
+  result.transitions.forEach(entry => {
+    if (!seriesIndex.has(`${entry.capabilityId}:queued`)) {
+      addColumn(entry.capabilityId, "Unknown capability");
+    }
+  });
+
+  const keyFor = (capabilityId: string, state: TaskState) =>
+    state === "done" ? "done" : `${capabilityId}:${state}`;
+  const counts = series.map(() => 0);
+  let next = 0;
+  times.forEach(time => {
+    while (next < result.transitions.length && result.transitions[next].time <= time) {
+      const entry = result.transitions[next];
+      if (entry.from) {
+        counts[seriesIndex.get(keyFor(entry.capabilityId, entry.from)) ?? 0] -= 1;
+      }
+      counts[seriesIndex.get(keyFor(entry.capabilityId, entry.to)) ?? 0] += 1;
+      next += 1;
+    }
+    series.forEach((band, index) => band.values.push(counts[index]));
+  });
+
+  return { times, series };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { samplePert, sampleThreePoint, sampleTriangular } from "@/lib/simulation/distributions";
+import { createRandom } from "@/lib/simulation/random";
+
+const RANGE = { min: 30, mode: 60, max: 240 };
+
+function average(sample: () => number, count = 20_000) {
+  const values = Array.from({ length: count }, sample);
+  return {
+    mean: values.reduce((total, value) => total + value, 0) / count,
+    min: Math.min(...values),
+    max: Math.max(...values),
+  };
+}
+
+describe("three-point sampling", () => {
+  it("keeps triangular samples in range around the triangle's mean", () => {
+    const random = createRandom(5);
+    const { mean, min, max } = average(() => sampleTriangular(random, RANGE));
+
+    expect(min).toBeGreaterThanOrEqual(30);
+    expect(max).toBeLessThanOrEqual(240);
+    expect(mean).toBeCloseTo((30 + 60 + 240) / 3, -1);
+  });
+
+  it("keeps PERT samples in range around the PERT mean", () => {
+    const random = createRandom(5);
+    const { mean, min, max } = average(() => samplePert(random, RANGE));
+
+    expect(min).toBeGreaterThanOrEqual(30);
+    expect(max).toBeLessThanOrEqual(240);
+    expect(mean).toBeCloseTo((30 + 4 * 60 + 240) / 6, -1);
+  });
+
+  it("returns the most likely value when the range is empty", () => {
+    const random = createRandom(1);
+    const empty = { min: 60, mode: 60, max: 60 };
+
+    expect(sampleTriangular(random, empty)).toBe(60);
+    expect(samplePert(random, empty)).toBe(60);
+  });
+
+  it("picks the sampler by distribution", () => {
+    expect(sampleThreePoint(createRandom(9), RANGE, "pert")).toBe(samplePert(createRandom(9), RANGE));
+    expect(sampleThreePoint(createRandom(9), RANGE, "triangular")).toBe(sampleTriangular(createRandom(9), RANGE));
+  });
+});
@@ -0,0 +1,62 @@
+import type { RandomSource } from "@/lib/simulation/random";
+
+export type EstimateDistribution = "pert" | "triangular";
+
+export type ThreePointRange = {
+  min: number;
+  mode: number;
+  max: number;
+};
+
+export function sampleNormal(random: RandomSource): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/** Marsaglia–Tsang sampler; PERT shape parameters are always at least 1. */
+function sampleGamma(random: RandomSource, shape: number): number {
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    const x = sampleNormal(random);
+    const v = (1 + c * x) ** 3;
+    if (v <= 0) {
+      continue;
+    }
+    const u = random();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) {
+      return d * v;
+    }
+  }
+}
+
+export function sampleTriangular(random: RandomSource, { min, mode, max }: ThreePointRange): number {
+  if (max <= min) {
+    return mode;
+  }
+  const u = random();
+  const split = (mode - min) / (max - min);
+  return u < split
+    ? min + Math.sqrt(u * (max - min) * (mode - min))
+    : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+}
+
+export function samplePert(random: RandomSource, { min, mode, max }: ThreePointRange): number {
+  if (max <= min) {
+    return mode;
+  }
+  const alpha = 1 + (4 * (mode - min)) / (max - min);
+  const beta = 1 + (4 * (max - mode)) / (max - min);
+  const x = sampleGamma(random, alpha);
+  const y = sampleGamma(random, beta);
+  return min + (x / (x + y)) * (max - min);
+}
+
+export function sampleThreePoint(
+  random: RandomSource,
+  range: ThreePointRange,
+  distribution: EstimateDistribution
+): number {
+  return distribution === "pert" ? samplePert(random, range) : sampleTriangular(random, range);
+}
@@ -0,0 +1,437 @@
+import { describe, expect, it } from "vitest";
+import { runSimulation, type SimulationInput } from "@/lib/simulation/engine";
+import type { StaffAvailability, StaffMember } from "@/lib/teamSetup";
+import type { TemplateTask, WorkflowTemplate } from "@/lib/workflowTemplates";
+
+/** Works every minute of every day, so durations read straight off the clock. */
+const ALWAYS_AVAILABLE: StaffAvailability = {
+  timeZone: "UTC",
+  weeklyHours: Array.from({ length: 7 }, () => ({ start: 0, end: 24 * 60 })),
+  leave: [],
+};
+
+function staff(id: string, capabilityIds: string[], changes: Partial<StaffMember> = {}): StaffMember {
+  return {
+    id,
+    code: id.toUpperCase(),
+    name: id,
+    capacity: 1,
+    capabilityIds,
+    proficiency: {},
+    wipLimit: null,
+    availability: ALWAYS_AVAILABLE,
+    ...changes,
+  };
+}
+
+function task(id: string, capabilityId: string, estimateMinutes: number | null, seqNumber = 10): TemplateTask {
+  return { id, seqNumber, task: id, estimateMinutes, uncertainty: null, capabilityId, predecessorIds: null };
+}
+
+function template(key: string, tasks: TemplateTask[]): WorkflowTemplate {
+  return { key, title: key, priority: 0, preempts: false, contextSwitchMinutes: 0, tasks };
+}
+
+function input(changes: Partial<SimulationInput>): SimulationInput {
+  return {
+    team: {
+      capabilities: [
+        { id: "dev", code: "DEV", description: "Development", wipLimit: null },
+        { id: "qa", code: "QA", description: "Testing", wipLimit: null },
+      ],
+      staffMembers: [staff("s1", ["dev", "qa"])],
+      holidays: [],
+    },
+    templates: [template("feature", [task("test", "qa", 30, 20), task("build", "dev", 60, 10)])],
+    arrivals: [{ templateKey: "feature", arrivalTime: 0 }],
+    ...changes,
+  };
+}
+
+describe("runSimulation", () => {
+  it("works a template's tasks in sequence order", () => {
+    const result = runSimulation(input({}));
+
+    const [item] = result.workItems;
+    expect(item.startedAt).toBe(0);
+    expect(item.completedAt).toBe(90);
+    expect(item.tasks.map(entry => [entry.templateTaskId, entry.startedAt, entry.completedAt])).toEqual([
+      ["build", 0, 60],
+      ["test", 60, 90],
+    ]);
+    expect(result.staffBusyTime).toEqual({ s1: 90 });
+  });
+
+  it("treats a task without an estimate as taking no time", () => {
+    const result = runSimulation(
+      input({
+        templates: [template("feature", [task("build", "dev", null, 10), task("test", "qa", 30, 20)])],
+      })
+    );
+
+    expect(result.workItems[0].tasks.map(entry => entry.effort)).toEqual([0, 30]);
+    expect(result.workItems[0].completedAt).toBe(30);
+  });
+
+  it("hands parallel work to idle staff", () => {
+    const result = runSimulation(
+      input({
+        team: { ...input({}).team, staffMembers: [staff("s1", ["dev", "qa"]), staff("s2", ["dev", "qa"])] },
+        arrivals: [
+          { templateKey: "feature", arrivalTime: 0 },
+          { templateKey: "feature", arrivalTime: 0 },
+        ],
+      })
+    );
+
+    expect(result.workItems.map(item => item.completedAt)).toEqual([90, 90]);
+    expect(result.workItems.map(item => item.tasks[0].staffId)).toEqual(["s1", "s2"]);
+  });
+
+  it("scales durations by capacity", () => {
+    const result = runSimulation(
+      input({ team: { ...input({}).team, staffMembers: [staff("s1", ["dev", "qa"], { capacity: 0.5 })] } })
+    );
+
+    expect(result.workItems[0].completedAt).toBe(180);
+  });
+
+  it("scales durations by proficiency in the task's capability", () => {
+    const result = runSimulation(
+      input({
+        team: {
+          ...input({}).team,
+          staffMembers: [staff("s1", ["dev", "qa"], { proficiency: { dev: "expert", qa: "learning" } })],
+        },
+      })
+    );
+
+    expect(result.workItems[0].tasks.map(entry => [entry.templateTaskId, entry.startedAt, entry.completedAt])).toEqual([
+      ["build", 0, 45],
+      ["test", 45, 90],
+    ]);
+  });
+
+  it("lets the assignment policy pick among idle staff", () => {
+    const team = {
+      ...input({}).team,
+      staffMembers: [staff("s1", ["dev", "qa"]), staff("s2", ["dev"])],
+    };
+    const templates = [template("feature", [task("build", "dev", 60)])];
+
+    const firstAvailable = runSimulation(input({ team, templates }));
+    const specialistFirst = runSimulation(input({ team, templates, assignmentPolicy: "specialist-first" }));
+
+    expect(firstAvailable.workItems[0].tasks[0].staffId).toBe("s1");
+    expect(specialistFirst.workItems[0].tasks[0].staffId).toBe("s2");
+  });
+
+  it("reports tasks nobody can pick up and leaves their work item open", () => {
+    const result = runSimulation(
+      input({ team: { ...input({}).team, staffMembers: [staff("s1", ["dev"])] } })
+    );
+
+    expect(result.unstaffedTaskIds).toEqual(["feature-1:test"]);
+    expect(result.workItems[0].completedAt).toBeNull();
+  });
+
+  it("stops the clock at the horizon", () => {
+    const result = runSimulation(input({ horizon: 30 }));
+
+    expect(result.endTime).toBe(30);
+    expect(result.workItems[0].completedAt).toBeNull();
+    expect(result.staffBusyTime.s1).toBe(30);
+  });
+
+  it("samples ranged estimates within their range and repeats them for the same seed", () => {
+    const ranged: TemplateTask = {
+      ...task("build", "dev", 60),
+      uncertainty: { distribution: "pert", optimisticMinutes: 30, pessimisticMinutes: 240 },
+    };
+    const run = (seed: number) =>
+      runSimulation(
+        input({
+          templates: [template("feature", [ranged])],
+          arrivals: [0, 20, 40].map(arrivalTime => ({ templateKey: "feature", arrivalTime })),
+          seed,
+        })
+      );
+
+    const efforts = run(7).workItems.map(item => item.tasks[0].effort);
+    expect(efforts.every(effort => effort >= 30 && effort <= 240)).toBe(true);
+    expect(new Set(efforts).size).toBe(3);
+    expect(run(7)).toEqual(run(7));
+    expect(run(8)).not.toEqual(run(7));
+  });
+
+  it("uses the most likely estimate when the range does not contain it", () => {
+    const outOfRange: TemplateTask = {
+      ...task("build", "dev", 60),
+      uncertainty: { distribution: "triangular", optimisticMinutes: 90, pessimisticMinutes: 240 },
+    };
+    const result = runSimulation(input({ templates: [template("feature", [outOfRange])] }));
+
+    expect(result.workItems[0].tasks[0].effort).toBe(60);
+  });
+
+  it("starts tasks once all their predecessors are done", () => {
+    const graph: TemplateTask[] = [
+      task("design", "dev", 30, 10),
+      { ...task("api", "dev", 60, 20), predecessorIds: ["design"] },
+      { ...task("ui", "dev", 40, 30), predecessorIds: ["design"] },
+      { ...task("release", "qa", 10, 40), predecessorIds: ["api", "ui"] },
+    ];
+    const result = runSimulation(
+      input({
+        team: { ...input({}).team, staffMembers: [staff("s1", ["dev", "qa"]), staff("s2", ["dev", "qa"])] },
+        templates: [template("feature", graph)],
+      })
+    );
+
+    expect(result.workItems[0].tasks.map(entry => [entry.templateTaskId, entry.startedAt, entry.completedAt])).toEqual([
+      ["design", 0, 30],
+      ["api", 30, 90],
+      ["ui", 30, 70],
+      ["release", 90, 100],
+    ]);
+    expect(result.workItems[0].completedAt).toBe(100);
+  });
+
+  it("runs user-defined templates side by side", () => {
+    const result = runSimulation(
+      input({
+        templates: [
+          template("feature", [task("build", "dev", 60)]),
+          template("spike", [task("explore", "dev", 20)]),
+        ],
+        arrivals: [
+          { templateKey: "spike", arrivalTime: 0 },
+          { templateKey: "feature", arrivalTime: 5 },
+          { templateKey: "spike", arrivalTime: 10 },
+        ],
+      })
+    );
+
+    expect(result.workItems.map(item => [item.id, item.completedAt])).toEqual([
+      ["spike-1", 20],
+      ["feature-1", 80],
+      ["spike-2", 100],
+    ]);
+  });
+
+  it("skips arrivals of templates that no longer exist", () => {
+    const result = runSimulation(
+      input({
+        arrivals: [
+          { templateKey: "deleted", arrivalTime: 0 },
+          { templateKey: "feature", arrivalTime: 0 },
+        ],
+      })
+    );
+
+    expect(result.workItems.map(item => [item.id, item.completedAt])).toEqual([["feature-1", 90]]);
+  });
+
+  it("works only during working hours and reports the time available", () => {
+    const nineToFive = { start: 9 * 60, end: 17 * 60 };
+    const result = runSimulation(
+      input({
+        team: {
+          ...input({}).team,
+          staffMembers: [
+            staff("s1", ["dev", "qa"], {
+              availability: { timeZone: "UTC", weeklyHours: Array(7).fill(nineToFive), leave: [] },
+            }),
+          ],
+        },
+        horizon: 24 * 60,
+      })
+    );
+
+    expect(result.workItems[0].startedAt).toBe(9 * 60);
+    expect(result.workItems[0].completedAt).toBe(10 * 60 + 30);
+    expect(result.staffAvailableTime.s1).toBe(8 * 60);
+  });
+
+  it("skips public holidays", () => {
+    const result = runSimulation(
+      input({
+        team: { ...input({}).team, holidays: [{ id: "h1", date: "2026-01-05", name: "Holiday" }] },
+        startDate: "2026-01-05",
+      })
+    );
+
+    expect(result.workItems[0].startedAt).toBe(24 * 60);
+  });
+});
+
+describe("runSimulation preemption", () => {
+  const incidentRun = (preempts: boolean) =>
+    runSimulation(
+      input({
+        team: { ...input({}).team, staffMembers: [staff("s1", ["dev"], { wipLimit: 2 })] },
+        templates: [
+          template("feature", [task("build", "dev", 100)]),
+          { ...template("incident", [task("fix", "dev", 20)]), priority: 10, preempts, contextSwitchMinutes: 10 },
+        ],
+        arrivals: [
+          { templateKey: "feature", arrivalTime: 0 },
+          { templateKey: "incident", arrivalTime: 30 },
+        ],
+      })
+    );
+
+  it("interrupts lower-priority work, which resumes with the context-switch penalty", () => {
+    const result = incidentRun(true);
+
+    const [feature, incident] = result.workItems;
+    expect(incident.completedAt).toBe(50);
+    expect(feature.completedAt).toBe(130);
+    expect(feature.tasks[0].preemptions).toBe(1);
+    expect(feature.tasks[0].touchTime).toBe(110);
+    const buildStates = result.transitions.filter(entry => entry.taskId === "feature-1:build");
+    expect(buildStates.map(entry => [entry.time, entry.from, entry.to])).toEqual([
+      [0, null, "queued"],
+      [0, "queued", "in-progress"],
+      [30, "in-progress", "queued"],
+      [50, "queued", "in-progress"],
+      [130, "in-progress", "done"],
+    ]);
+    const buildLog = result.log.filter(entry => entry.taskId === "feature-1:build");
+    expect(buildLog.map(entry => [entry.type, entry.time])).toEqual([
+      ["task-ready", 0],
+      ["task-start", 0],
+      ["task-pause", 30],
+      ["task-resume", 50],
+      ["task-complete", 130],
+    ]);
+  });
+
+  it("lets higher-priority work wait its turn when the template does not preempt", () => {
+    const result = incidentRun(false);
+
+    expect(result.workItems.map(item => item.completedAt)).toEqual([100, 120]);
+    expect(result.workItems[0].tasks[0].preemptions).toBe(0);
+  });
+
+  it("charges an interrupted member only the minutes worked before the interruption", () => {
+    const result = runSimulation(
+      input({
+        team: { ...input({}).team, staffMembers: [staff("s1", ["dev"]), staff("s2", ["dev"])] },
+        templates: [
+          template("feature", [task("build", "dev", 100)]),
+          template("chore", [task("build", "dev", 150)]),
+          { ...template("incident", [task("fix", "dev", 20)]), priority: 10, preempts: true, contextSwitchMinutes: 10 },
+        ],
+        arrivals: [
+          { templateKey: "feature", arrivalTime: 0 },
+          { templateKey: "chore", arrivalTime: 0 },
+          { templateKey: "incident", arrivalTime: 30 },
+          { templateKey: "feature", arrivalTime: 300 },
+        ],
+        assignmentPolicy: "least-loaded",
+      })
+    );
+
+    // s1 has been charged 30 + 20 + 80 minutes against s2's 150, so takes the last build.
+    expect(result.workItems[2].tasks[0].staffId).toBe("s1");
+    expect(result.workItems[3].tasks[0].staffId).toBe("s1");
+  });
+});
+
+describe("runSimulation WIP limits", () => {
+  const twoBuilds = (changes: Partial<SimulationInput>) =>
+    input({
+      templates: [template("feature", [task("build", "dev", 60)])],
+      arrivals: [
+        { templateKey: "feature", arrivalTime: 0 },
+        { templateKey: "feature", arrivalTime: 0 },
+      ],
+      ...changes,
+    });
+
+  it("holds work back while a capability is at its limit and reports the queue", () => {
+    const base = input({}).team;
+    const result = runSimulation(
+      twoBuilds({
+        team: {
+          ...base,
+          capabilities: base.capabilities.map(capability =>
+            capability.id === "dev" ? { ...capability, wipLimit: 1 } : capability
+          ),
+          staffMembers: [staff("s1", ["dev"]), staff("s2", ["dev"])],
+        },
+      })
+    );
+
+    expect(result.workItems.map(item => item.completedAt)).toEqual([60, 120]);
+    expect(result.queueLengths.dev).toEqual({ average: 0.5, max: 1 });
+  });
+
+  /** Most tasks a member held started but unfinished at any one time, paused ones included. */
+  const peakStaffWip = (result: ReturnType<typeof runSimulation>, staffId: string) => {
+    const holders = new Map<string, string>();
+    let peak = 0;
+    result.log.forEach(entry => {
+      if (entry.type === "task-start" || entry.type === "task-resume") {
+        holders.set(entry.taskId ?? "", entry.staffId ?? "");
+      } else if (entry.type === "task-complete") {
+        holders.delete(entry.taskId ?? "");
+      }
+      peak = Math.max(peak, [...holders.values()].filter(holder => holder === staffId).length);
+    });
+    return peak;
+  };
+
+  const urgentRun = (team: SimulationInput["team"]) =>
+    runSimulation(
+      input({
+        team,
+        templates: [
+          template("feature", [task("build", "dev", 100)]),
+          { ...template("urgent", [task("fix", "dev", 20)]), priority: 5, preempts: true },
+          { ...template("incident", [task("fix", "dev", 20)]), priority: 10, preempts: true },
+        ],
+        arrivals: [
+          { templateKey: "feature", arrivalTime: 0 },
+          { templateKey: "urgent", arrivalTime: 10 },
+          { templateKey: "incident", arrivalTime: 20 },
+        ],
+      })
+    );
+
+  it("never lets preemption take a person over their own limit", () => {
+    const result = urgentRun({ ...input({}).team, staffMembers: [staff("s1", ["dev"], { wipLimit: 2 })] });
+
+    const [feature, urgent, incident] = result.workItems;
+    expect(feature.tasks[0].preemptions).toBe(1);
+    expect(urgent.tasks[0].preemptions).toBe(0);
+    expect(incident.tasks[0].startedAt).toBe(urgent.completedAt);
+    expect(peakStaffWip(result, "s1")).toBe(2);
+  });
+
+  it("never lets preemption take a capability over its limit", () => {
+    const base = input({}).team;
+    const result = urgentRun({
+      ...base,
+      capabilities: base.capabilities.map(capability =>
+        capability.id === "dev" ? { ...capability, wipLimit: 1 } : capability
+      ),
+      staffMembers: [staff("s1", ["dev"])],
+    });
+
+    expect(result.workItems.map(item => [item.tasks[0].preemptions, item.completedAt])).toEqual([
+      [0, 100],
+      [0, 140],
+      [0, 120],
+    ]);
+  });
+
+  it("works in parallel when no limit applies", () => {
+    const result = runSimulation(
+      twoBuilds({ team: { ...input({}).team, staffMembers: [staff("s1", ["dev"]), staff("s2", ["dev"])] } })
+    );
+
+    expect(result.workItems.map(item => item.completedAt)).toEqual([60, 60]);
+  });
+});
@@ -0,0 +1,678 @@
+import type { StaffMember, TeamSetupData } from "@/lib/teamSetup";
+import type {
+  TemplateKey,
+  TemplateTask,
+  WorkflowTemplate,
+} from "@/lib/workflowTemplates";
+import { getDurationFactor } from "@/lib/proficiency";
+import { createStaffCalendar, DEFAULT_START_DATE } from "@/lib/simulation/calendar";
+import { sampleThreePoint } from "@/lib/simulation/distributions";
+import {
+  ASSIGNMENT_POLICIES,
+  type AssignmentPolicyId,
+  DEFAULT_ASSIGNMENT_POLICY,
+} from "@/lib/simulation/policies";
+import { createRandom, deriveSeed, type RandomSource } from "@/lib/simulation/random";
+import { resolveTaskGraph } from "@/lib/taskGraph";
+
+export type WorkItemArrival = {
+  id?: string;
+  templateKey: TemplateKey;
+  /** Minutes after the start of the simulation. */
+  arrivalTime: number;
+};
+
+export type SimulationInput = {
+  team: TeamSetupData;
+  templates: WorkflowTemplate[];
+  arrivals: WorkItemArrival[];
+  /** Seed for sampling three-point task estimates. Defaults to 1. */
+  seed?: number;
+  /** ISO date at which minute 0 of the run falls, used to read staff calendars. */
+  startDate?: string;
+  /** Stop the clock at this many minutes even if work remains. */
+  horizon?: number;
+  /** Who picks up a task when several people could. Defaults to first available. */
+  assignmentPolicy?: AssignmentPolicyId;
+};
+
+export type SimulatedTask = {
+  id: string;
+  templateKey: TemplateKey;
+  templateTaskId: string;
+  seqNumber: number;
+  task: string;
+  capabilityId: string;
+  /** Ids of the simulated tasks in the same work item that must complete first. */
+  predecessorIds: string[];
+  /** Sampled effort in minutes for a competent staff member at 100% capacity. */
+  effort: number;
+  readyAt: number | null;
+  /** When work on the task first started; interruptions do not reset it. */
+  startedAt: number | null;
+  completedAt: number | null;
+  staffId: string | null;
+  /** Times higher-priority work interrupted the task. */
+  preemptions: number;
+  /** Working minutes someone spent on the task, context switches included. */
+  touchTime: number;
+};
+
+export type SimulatedWorkItem = {
+  id: string;
+  templateKey: TemplateKey;
+  arrivalTime: number;
+  startedAt: number | null;
+  completedAt: number | null;
+  tasks: SimulatedTask[];
+};
+
+export type SimulationLogEntry = {
+  time: number;
+  type:
+    | "arrival"
+    | "task-ready"
+    | "task-start"
+    | "task-pause"
+    | "task-resume"
+    | "task-complete"
+    | "item-complete";
+  workItemId: string;
+  taskId?: string;
+  staffId?: string;
+};
+
+export type TaskState = "queued" | "in-progress" | "done";
+
+/** A task moving between Kanban states; `from` is null when it first becomes ready. */
+export type TaskTransition = {
+  time: number;
+  taskId: string;
+  capabilityId: string;
+  from: TaskState | null;
+  to: TaskState;
+};
+
+export type SimulationResult = {
+  workItems: SimulatedWorkItem[];
+  log: SimulationLogEntry[];
+  /** Every task state change in time order, for cumulative flow. */
+  transitions: TaskTransition[];
+  /** Minutes each staff member spent working, keyed by staff id. */
+  staffBusyTime: Record<string, number>;
+  /** Working minutes each staff member was available during the run, keyed by staff id. */
+  staffAvailableTime: Record<string, number>;
+  /** Simulated time at which the run stopped. */
+  endTime: number;
+  /** Tasks nobody on the team can pick up because no one holds the capability. */
+  unstaffedTaskIds: string[];
+  /** Ready tasks waiting to be picked up, per capability id: time-weighted average and peak. */
+  queueLengths: Record<string, { average: number; max: number }>;
+};
+
+type SimulationEvent =
+  | { time: number; order: number; type: "arrival"; workItemId: string }
+  | { time: number; order: number; type: "task-complete"; taskId: string; staffId: string; run: number }
+  | { time: number; order: number; type: "staff-available"; staffId: string };
+
+/** A task someone is currently working on. */
+type ActiveRun = {
+  task: SimulatedTask;
+  member: StaffMember;
+  run: number;
+  /** When the current stretch of work began. */
+  segmentStart: number;
+  /** Effort left when the stretch began, before capacity and proficiency are applied. */
+  remainingEffort: number;
+  /** Context-switch minutes spent first in this stretch. */
+  penalty: number;
+  /** Working minutes the stretch was planned to take, as charged to the member. */
+  duration: number;
+};
+
+type DistributiveOmit<T, K extends keyof T> = T extends unknown ? Omit<T, K> : never;
+
+function compareEvents(a: SimulationEvent, b: SimulationEvent) {
+  return a.time - b.time || a.order - b.order;
+}
+
+class EventQueue {
+  private heap: SimulationEvent[] = [];
+  private counter = 0;
+
+  get size() {
+    return this.heap.length;
+  }
+
+  peek(): SimulationEvent | undefined {
+    return this.heap[0];
+  }
+
+  push(event: DistributiveOmit<SimulationEvent, "order">) {
+    this.heap.push({ ...event, order: this.counter++ } as SimulationEvent);
+    let index = this.heap.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (compareEvents(this.heap[index], this.heap[parent]) >= 0) {
+        break;
+      }
+      [this.heap[index], this.heap[parent]] = [this.heap[parent], this.heap[index]];
+      index = parent;
+    }
+  }
+
+  pop(): SimulationEvent | undefined {
+    const top = this.heap[0];
+    const last = this.heap.pop();
+    if (!top || !last || this.heap.length === 0) {
+      return top;
+    }
+
+    this.heap[0] = last;
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < this.heap.length && compareEvents(this.heap[left], this.heap[smallest]) < 0) {
+        smallest = left;
+      }
+      if (right < this.heap.length && compareEvents(this.heap[right], this.heap[smallest]) < 0) {
+        smallest = right;
+      }
+      if (smallest === index) {
+        break;
+      }
+      [this.heap[index], this.heap[smallest]] = [this.heap[smallest], this.heap[index]];
+      index = smallest;
+    }
+    return top;
+  }
+}
+
+function sampleEffort(templateTask: TemplateTask, random: RandomSource): number {
+  const likely = templateTask.estimateMinutes ?? 0;
+  const { uncertainty } = templateTask;
+  if (
+    !uncertainty ||
+    uncertainty.optimisticMinutes === null ||
+    uncertainty.pessimisticMinutes === null ||
+    uncertainty.optimisticMinutes > likely ||
+    likely > uncertainty.pessimisticMinutes
+  ) {
+    return likely;
+  }
+
+  return sampleThreePoint(
+    random,
+    { min: uncertainty.optimisticMinutes, mode: likely, max: uncertainty.pessimisticMinutes },
+    uncertainty.distribution
+  );
+}
+
+function instantiateWorkItems(
+  arrivals: WorkItemArrival[],
+  templates: WorkflowTemplate[],
+  random: RandomSource
+): SimulatedWorkItem[] {
+  const counters = new Map<TemplateKey, number>();
+  const templatesByKey = new Map(
+    templates.map(template => [
+      template.key,
+      {
+        tasks: [...template.tasks].sort((a, b) => a.seqNumber - b.seqNumber),
+        graph: resolveTaskGraph(template.tasks),
+      },
+    ])
+  );
+
+  return arrivals
+    .map((arrival, index) => ({ arrival, index }))
+    .filter(({ arrival }) => templatesByKey.has(arrival.templateKey))
+    .sort((a, b) => a.arrival.arrivalTime - b.arrival.arrivalTime || a.index - b.index)
+    .map(({ arrival }) => {
+      const count = (counters.get(arrival.templateKey) ?? 0) + 1;
+      counters.set(arrival.templateKey, count);
+      const workItemId = arrival.id ?? `${arrival.templateKey}-${count}`;
+      const template = templatesByKey.get(arrival.templateKey);
+      const templateTasks = template?.tasks ?? [];
+      const predecessors = template?.graph.predecessors;
+
+      return {
+        id: workItemId,
+        templateKey: arrival.templateKey,
+        arrivalTime: Math.max(0, arrival.arrivalTime),
+        startedAt: null,
+        completedAt: null,
+        tasks: templateTasks.map(templateTask => ({
+          id: `${workItemId}:${templateTask.id}`,
+          templateKey: arrival.templateKey,
+          templateTaskId: templateTask.id,
+          seqNumber: templateTask.seqNumber,
+          task: templateTask.task,
+          capabilityId: templateTask.capabilityId,
+          predecessorIds: (predecessors?.get(templateTask.id) ?? []).map(id => `${workItemId}:${id}`),
+          effort: sampleEffort(templateTask, random),
+          readyAt: null,
+          startedAt: null,
+          completedAt: null,
+          staffId: null,
+          preemptions: 0,
+          touchTime: 0,
+        })),
+      };
+    });
+}
+
+/**
+ * Runs the team against a list of work item arrivals. Each work item is an
+ * instance of a workflow template whose tasks become ready once their
+ * predecessors finish (by default the previous task in `seqNumber` order) and
+ * are worked by staff members holding the task's capability, during their
+ * working hours. Higher-priority templates are served first and, when set
+ * to preempt, interrupt lower-priority work, which later resumes with a
+ * context-switch penalty. The assignment policy decides who takes each task
+ * when several people could, and no one starts work that would break a
+ * capability's or their own WIP limit. Arrivals of a template that is not
+ * in `templates`, e.g. one deleted since, are skipped. The run is
+ * deterministic: ties are broken by arrival order, then by staff order in
+ * the team setup.
+ */
+export function runSimulation(input: SimulationInput): SimulationResult {
+  const {
+    team,
+    templates,
+    arrivals,
+    seed = 1,
+    startDate = DEFAULT_START_DATE,
+    horizon,
+    assignmentPolicy = DEFAULT_ASSIGNMENT_POLICY,
+  } = input;
+  const policy = (
+    ASSIGNMENT_POLICIES[assignmentPolicy] ?? ASSIGNMENT_POLICIES[DEFAULT_ASSIGNMENT_POLICY]
+  ).create();
+  const workItems = instantiateWorkItems(
+    arrivals,
+    templates,
+    createRandom(deriveSeed(seed, "task-effort"))
+  );
+  const workItemsById = new Map(workItems.map(item => [item.id, item]));
+  const tasksById = new Map<string, { item: SimulatedWorkItem; task: SimulatedTask }>();
+  workItems.forEach(item => item.tasks.forEach(task => tasksById.set(task.id, { item, task })));
+
+  const staffedCapabilityIds = new Set(team.staffMembers.flatMap(member => member.capabilityIds));
+  const unstaffedTaskIds = workItems.flatMap(item =>
+    item.tasks.filter(task => !staffedCapabilityIds.has(task.capabilityId)).map(task => task.id)
+  );
+
+  const log: SimulationLogEntry[] = [];
+  const transitions: TaskTransition[] = [];
+  const taskStates = new Map<string, TaskState>();
+  const staffBusyTime: Record<string, number> = Object.fromEntries(
+    team.staffMembers.map(member => [member.id, 0])
+  );
+  const calendars = new Map(
+    team.staffMembers.map(member => [
+      member.id,
+      createStaffCalendar(member.availability, team.holidays, startDate),
+    ])
+  );
+  const schedulingByKey = new Map(templates.map(template => [template.key, template]));
+  const priorityOf = (task: SimulatedTask) => schedulingByKey.get(task.templateKey)?.priority ?? 0;
+  const activeRuns = new Map<string, ActiveRun>();
+  const capabilityWipLimits = new Map(
+    team.capabilities.map(capability => [capability.id, capability.wipLimit])
+  );
+  const capabilityWip = new Map<string, number>();
+  const staffWip = new Map<string, number>();
+  const queueArea = new Map<string, number>();
+  const queueMax = new Map<string, number>();
+  let queueLengthsNow = new Map<string, number>();
+  let lastQueueSample = 0;
+  const remainingEffort = new Map<string, number>();
+  const resumePenalties = new Map<string, number>();
+  const pendingWakeups = new Map<string, number>();
+  let readyTasks: SimulatedTask[] = [];
+  const assignedMinutes: Record<string, number> = Object.fromEntries(
+    team.staffMembers.map(member => [member.id, 0])
+  );
+  const queue = new EventQueue();
+  let clock = 0;
+  let runCounter = 0;
+
+  workItems.forEach(item => {
+    queue.push({ time: item.arrivalTime, type: "arrival", workItemId: item.id });
+  });
+
+  const transition = (task: SimulatedTask, to: TaskState) => {
+    transitions.push({
+      time: clock,
+      taskId: task.id,
+      capabilityId: task.capabilityId,
+      from: taskStates.get(task.id) ?? null,
+      to,
+    });
+    taskStates.set(task.id, to);
+  };
+
+  const releaseReadyTasks = (item: SimulatedWorkItem) => {
+    if (item.tasks.every(task => task.completedAt !== null)) {
+      item.completedAt = clock;
+      log.push({ time: clock, type: "item-complete", workItemId: item.id });
+      return;
+    }
+
+    item.tasks.forEach(task => {
+      const isReady =
+        task.readyAt === null &&
+        task.predecessorIds.every(id => tasksById.get(id)?.task.completedAt !== null);
+      if (!isReady) {
+        return;
+      }
+
+      task.readyAt = clock;
+      readyTasks.push(task);
+      transition(task, "queued");
+      log.push({ time: clock, type: "task-ready", workItemId: item.id, taskId: task.id });
+    });
+  };
+
+  const startTask = (task: SimulatedTask, member: StaffMember) => {
+    const entry = tasksById.get(task.id);
+    if (!entry) {
+      return;
+    }
+
+    const remaining = remainingEffort.get(task.id) ?? task.effort;
+    const penalty = resumePenalties.get(task.id) ?? 0;
+    resumePenalties.delete(task.id);
+    const duration =
+      (remaining * getDurationFactor(member, task.capabilityId)) / member.capacity + penalty;
+    const completesAt = calendars.get(member.id)?.advance(clock, duration) ?? Infinity;
+    const run = ++runCounter;
+    assignedMinutes[member.id] += duration;
+    activeRuns.set(member.id, {
+      task,
+      member,
+      run,
+      segmentStart: clock,
+      remainingEffort: remaining,
+      penalty,
+      duration,
+    });
+
+    const isResume = task.startedAt !== null;
+    if (!isResume) {
+      increment(capabilityWip, task.capabilityId, 1);
+    }
+    if (!isResume || task.staffId !== member.id) {
+      increment(staffWip, member.id, 1);
+      if (task.staffId) {
+        increment(staffWip, task.staffId, -1);
+      }
+    }
+    task.startedAt ??= clock;
+    task.staffId = member.id;
+    transition(task, "in-progress");
+    entry.item.startedAt ??= clock;
+    log.push({
+      time: clock,
+      type: isResume ? "task-resume" : "task-start",
+      workItemId: entry.item.id,
+      taskId: task.id,
+      staffId: member.id,
+    });
+    if (Number.isFinite(completesAt)) {
+      queue.push({ time: completesAt, type: "task-complete", taskId: task.id, staffId: member.id, run });
+    }
+  };
+
+  /** Stops a member's current task and returns it to the ready queue with a resume penalty. */
+  const pauseTask = (member: StaffMember, contextSwitchMinutes: number) => {
+    const active = activeRuns.get(member.id);
+    if (!active) {
+      return;
+    }
+
+    const worked =
+      calendars.get(member.id)?.workingMinutesBetween(active.segmentStart, clock) ?? 0;
+    const progress = Math.max(0, worked - active.penalty);
+    const effortDone =
+      (progress * member.capacity) / getDurationFactor(member, active.task.capabilityId);
+    staffBusyTime[member.id] += worked;
+    active.task.touchTime += worked;
+    // Only the part worked stays charged; whoever resumes the task is charged the rest.
+    assignedMinutes[member.id] -= Math.max(0, active.duration - worked);
+    remainingEffort.set(active.task.id, Math.max(0, active.remainingEffort - effortDone));
+    resumePenalties.set(active.task.id, contextSwitchMinutes);
+    active.task.preemptions += 1;
+    activeRuns.delete(member.id);
+    // Interrupted work goes back ahead of anything that arrived at the same priority.
+    readyTasks.unshift(active.task);
+    transition(active.task, "queued");
+    log.push({
+      time: clock,
+      type: "task-pause",
+      workItemId: tasksById.get(active.task.id)?.item.id ?? "",
+      taskId: active.task.id,
+      staffId: member.id,
+    });
+  };
+
+  const isWorking = (member: StaffMember) =>
+    calendars.get(member.id)?.nextWorkingTime(clock) === clock;
+
+  const increment = (counts: Map<string, number>, key: string, delta: number) => {
+    counts.set(key, (counts.get(key) ?? 0) + delta);
+  };
+
+  /**
+   * Whether taking the task keeps within the WIP limits. Resuming a started
+   * task adds nothing to its capability, and nothing to the person's own count
+   * if it was theirs. Paused tasks stay counted, so preemption that would take
+   * a person or capability over its limit does not happen.
+   */
+  const withinWipLimits = (task: SimulatedTask, member: StaffMember) => {
+    const addsToMember = task.startedAt === null || task.staffId !== member.id;
+    if (addsToMember && member.wipLimit !== null && (staffWip.get(member.id) ?? 0) >= member.wipLimit) {
+      return false;
+    }
+    const capabilityLimit = capabilityWipLimits.get(task.capabilityId) ?? null;
+    return (
+      task.startedAt !== null ||
+      capabilityLimit === null ||
+      (capabilityWip.get(task.capabilityId) ?? 0) < capabilityLimit
+    );
+  };
+
+  const sampleQueues = (until: number) => {
+    queueLengthsNow.forEach((length, capabilityId) =>
+      increment(queueArea, capabilityId, length * (until - lastQueueSample))
+    );
+    lastQueueSample = until;
+  };
+
+  const recordQueueLengths = () => {
+    queueLengthsNow = new Map();
+    readyTasks.forEach(task => increment(queueLengthsNow, task.capabilityId, 1));
+    queueLengthsNow.forEach((length, capabilityId) =>
+      queueMax.set(capabilityId, Math.max(queueMax.get(capabilityId) ?? 0, length))
+    );
+  };
+
+  /** Wakes idle, off-shift staff at their next shift so they can pick up waiting work. */
+  const scheduleWakeups = () => {
+    team.staffMembers.forEach(member => {
+      if (
+        activeRuns.has(member.id) ||
+        !readyTasks.some(task => member.capabilityIds.includes(task.capabilityId))
+      ) {
+        return;
+      }
+
+      const wakeAt = calendars.get(member.id)?.nextWorkingTime(clock) ?? Infinity;
+      const pending = pendingWakeups.get(member.id);
+      if (wakeAt > clock && Number.isFinite(wakeAt) && (pending === undefined || pending > wakeAt)) {
+        pendingWakeups.set(member.id, wakeAt);
+        queue.push({ time: wakeAt, type: "staff-available", staffId: member.id });
+      }
+    });
+  };
+
+  const assignIdleStaff = () => {
+    for (let index = 0; index < readyTasks.length; ) {
+      const task = readyTasks[index];
+      const candidates = team.staffMembers.filter(
+        candidate =>
+          !activeRuns.has(candidate.id) &&
+          candidate.capabilityIds.includes(task.capabilityId) &&
+          isWorking(candidate) &&
+          withinWipLimits(task, candidate)
+      );
+
+      if (candidates.length === 0) {
+        index += 1;
+        continue;
+      }
+
+      readyTasks.splice(index, 1);
+      startTask(task, policy.choose(task, candidates, { clock, assignedMinutes }));
+    }
+  };
+
+  /** Lets the first waiting task of a preempting template interrupt lower-priority work. */
+  const preemptOnce = () => {
+    for (let index = 0; index < readyTasks.length; index += 1) {
+      const task = readyTasks[index];
+      const scheduling = schedulingByKey.get(task.templateKey);
+      if (!scheduling?.preempts) {
+        continue;
+      }
+
+      const candidates = team.staffMembers.filter(candidate => {
+        const active = activeRuns.get(candidate.id);
+        return (
+          active !== undefined &&
+          priorityOf(active.task) < scheduling.priority &&
+          candidate.capabilityIds.includes(task.capabilityId) &&
+          isWorking(candidate) &&
+          withinWipLimits(task, candidate)
+        );
+      });
+      if (candidates.length === 0) {
+        continue;
+      }
+
+      const member = policy.choose(task, candidates, { clock, assignedMinutes });
+      readyTasks.splice(index, 1);
+      pauseTask(member, scheduling.contextSwitchMinutes);
+      startTask(task, member);
+      return true;
+    }
+    return false;
+  };
+
+  const dispatch = () => {
+    do {
+      if (policy.prioritize) {
+        readyTasks = policy.prioritize(readyTasks, { scheduling: schedulingByKey });
+      }
+      // Stable, so the policy's order holds within each priority.
+      readyTasks = [...readyTasks].sort((a, b) => priorityOf(b) - priorityOf(a));
+      assignIdleStaff();
+    } while (preemptOnce());
+
+    scheduleWakeups();
+    recordQueueLengths();
+  };
+
+  while (queue.size > 0) {
+    const event = queue.pop();
+    if (!event || (horizon !== undefined && event.time > horizon)) {
+      break;
+    }
+
+    sampleQueues(event.time);
+    clock = event.time;
+
+    if (event.type === "arrival") {
+      const item = workItemsById.get(event.workItemId);
+      if (item) {
+        log.push({ time: clock, type: "arrival", workItemId: item.id });
+        releaseReadyTasks(item);
+      }
+    } else if (event.type === "staff-available") {
+      if (pendingWakeups.get(event.staffId) === clock) {
+        pendingWakeups.delete(event.staffId);
+      }
+    } else {
+      const active = activeRuns.get(event.staffId);
+      const entry = tasksById.get(event.taskId);
+      // Completions scheduled before an interruption no longer match the active run.
+      if (active?.run === event.run && entry) {
+        activeRuns.delete(event.staffId);
+        increment(capabilityWip, entry.task.capabilityId, -1);
+        increment(staffWip, event.staffId, -1);
+        entry.task.completedAt = clock;
+        transition(entry.task, "done");
+        remainingEffort.delete(entry.task.id);
+        const worked =
+          calendars.get(event.staffId)?.workingMinutesBetween(active.segmentStart, clock) ?? 0;
+        staffBusyTime[event.staffId] += worked;
+        entry.task.touchTime += worked;
+        log.push({
+          time: clock,
+          type: "task-complete",
+          workItemId: entry.item.id,
+          taskId: entry.task.id,
+          staffId: event.staffId,
+        });
+        releaseReadyTasks(entry.item);
+      }
+    }
+
+    if (queue.peek()?.time !== clock) {
+      dispatch();
+    }
+  }
+
+  if (horizon !== undefined) {
+    clock = Math.max(clock, horizon);
+    activeRuns.forEach((active, staffId) => {
+      const worked = calendars.get(staffId)?.workingMinutesBetween(active.segmentStart, clock) ?? 0;
+      staffBusyTime[staffId] += worked;
+      active.task.touchTime += worked;
+    });
+  }
+
+  sampleQueues(clock);
+  const queueLengths: Record<string, { average: number; max: number }> = Object.fromEntries(
+    [...new Set([...team.capabilities.map(capability => capability.id), ...queueMax.keys()])].map(
+      capabilityId => [
+        capabilityId,
+        {
+          average: clock > 0 ? (queueArea.get(capabilityId) ?? 0) / clock : 0,
+          max: queueMax.get(capabilityId) ?? 0,
+        },
+      ]
+    )
+  );
+
+  const staffAvailableTime: Record<string, number> = Object.fromEntries(
+    team.staffMembers.map(member => [
+      member.id,
+      calendars.get(member.id)?.workingMinutesBetween(0, clock) ?? 0,
+    ])
+  );
+
+  return {
+    workItems,
+    log,
+    transitions,
+    staffBusyTime,
+    staffAvailableTime,
+    endTime: clock,
+    unstaffedTaskIds,
+    queueLengths,
+  };
+}
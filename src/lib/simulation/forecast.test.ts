@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ARRIVAL_SETTINGS, MINUTES_PER_DAY } from "@/lib/simulation/arrivals";
+import { runForecast } from "@/lib/simulation/forecast";
+import type { SimulationSetup } from "@/lib/simulation/run";
+import type { StaffMember } from "@/lib/teamSetup";
+import type { TemplateTask, WorkflowTemplate } from "@/lib/workflowTemplates";
+
+const member: StaffMember = {
+  id: "s1",
+  code: "S1",
+  name: "Sam",
+  capacity: 1,
+  capabilityIds: ["dev"],
+  proficiency: {},
+  wipLimit: null,
+  availability: {
+    timeZone: "UTC",
+    weeklyHours: Array.from({ length: 7 }, () => ({ start: 0, end: 24 * 60 })),
+    leave: [],
+  },
+};
+
+function template(build: Partial<TemplateTask> = {}): WorkflowTemplate {
+  return {
+    key: "feature",
+    title: "Feature",
+    priority: 0,
+    preempts: false,
+    contextSwitchMinutes: 0,
+    tasks: [
+      {
+        id: "build",
+        seqNumber: 10,
+        task: "Build",
+        estimateMinutes: 60,
+        uncertainty: null,
+        capabilityId: "dev",
+        predecessorIds: null,
+        ...build,
+      },
+    ],
+  };
+}
+
+function setup(changes: Partial<SimulationSetup> = {}): SimulationSetup {
+  return {
+    capabilities: [{ id: "dev", code: "DEV", description: "Development", wipLimit: null }],
+    staffMembers: [member],
+    holidays: [],
+    templates: [template()],
+    settings: DEFAULT_ARRIVAL_SETTINGS,
+    ...changes,
+  };
+}
+
+describe("runForecast", () => {
+  it("records when the whole backlog is done in every run", () => {
+    const forecast = runForecast({ setup: setup(), backlog: { feature: 3 }, runs: 4, includeNewArrivals: false });
+
+    expect(forecast.completionTimes).toEqual([180, 180, 180, 180]);
+    expect(forecast.incompleteRuns).toBe(0);
+    expect(forecast.stats?.percentiles).toEqual({ 50: 180, 85: 180, 95: 180 });
+    expect(forecast.histogram).toEqual([{ start: 0, end: MINUTES_PER_DAY, count: 4 }]);
+  });
+
+  it("counts runs that can never finish the backlog", () => {
+    const forecast = runForecast({
+      setup: setup({ staffMembers: [] }),
+      backlog: { feature: 1 },
+      runs: 3,
+      includeNewArrivals: false,
+    });
+
+    expect(forecast.completionTimes).toEqual([]);
+    expect(forecast.incompleteRuns).toBe(3);
+    expect(forecast.stats).toBeNull();
+    expect(forecast.histogram).toEqual([]);
+  });
+
+  it("is reproducible for the same seed and reports progress", () => {
+    const ranged = setup({
+      templates: [
+        template({ uncertainty: { distribution: "triangular", optimisticMinutes: 30, pessimisticMinutes: 600 } }),
+      ],
+    });
+    const progress: number[] = [];
+    const first = runForecast(
+      { setup: ranged, backlog: { feature: 5 }, runs: 20, includeNewArrivals: false },
+      completed => progress.push(completed)
+    );
+    const second = runForecast({ setup: ranged, backlog: { feature: 5 }, runs: 20, includeNewArrivals: false });
+
+    expect(first).toEqual(second);
+    expect(new Set(first.completionTimes).size).toBeGreaterThan(1);
+    expect(progress).toEqual([10, 20]);
+  });
+});
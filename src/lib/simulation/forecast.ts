@@ -0,0 +1,121 @@
+import type { TemplateKey } from "@/lib/workflowTemplates";
+import { generateArrivals, MINUTES_PER_DAY } from "@/lib/simulation/arrivals";
+import { runSimulation, type WorkItemArrival } from "@/lib/simulation/engine";
+import {
+  type DurationStats,
+  type HistogramBin,
+  summarizeDurations,
+} from "@/lib/simulation/metrics";
+import { deriveSeed } from "@/lib/simulation/random";
+import type { SimulationSetup } from "@/lib/simulation/run";
+import type { Scenario, ScenarioOutcome } from "@/lib/simulation/scenarios";
+
+export const DEFAULT_FORECAST_RUNS = 500;
+
+export type ForecastRequest = {
+  setup: SimulationSetup;
+  /** Work items waiting at the start, per template. */
+  backlog: Record<TemplateKey, number>;
+  runs: number;
+  /** Keep generating new work over the horizon so it competes with the backlog. */
+  includeNewArrivals: boolean;
+};
+
+export type Forecast = {
+  runs: number;
+  /** Minutes until the whole backlog was done, one entry per run that finished it. */
+  completionTimes: number[];
+  /** Runs in which some backlog item could never be finished, e.g. for lack of a capability. */
+  incompleteRuns: number;
+  stats: DurationStats | null;
+  /** Completed runs per calendar day after the start date. */
+  histogram: HistogramBin[];
+};
+
+/** What the worker is asked to run: a backlog forecast or a scenario comparison. */
+export type ForecastWorkerRequest =
+  | { type: "forecast"; request: ForecastRequest }
+  | { type: "scenarios"; baseline: SimulationSetup; scenarios: Scenario[] };
+
+export type ForecastWorkerMessage =
+  | { type: "progress"; completed: number; total: number }
+  | { type: "result"; forecast: Forecast }
+  | { type: "comparison"; outcomes: ScenarioOutcome[] };
+
+function createBacklogArrivals(backlog: Record<TemplateKey, number>): WorkItemArrival[] {
+  return Object.entries(backlog).flatMap(([templateKey, count]) =>
+    Array.from({ length: Math.max(0, Math.floor(count)) }, (_, index) => ({
+      id: `backlog-${templateKey}-${index + 1}`,
+      templateKey,
+      arrivalTime: 0,
+    }))
+  );
+}
+
+function buildDailyHistogram(completionTimes: number[]): HistogramBin[] {
+  if (completionTimes.length === 0) {
+    return [];
+  }
+
+  const days = completionTimes.map(time => Math.floor(time / MINUTES_PER_DAY));
+  const first = Math.min(...days);
+  const bins = Array.from({ length: Math.max(...days) - first + 1 }, (_, index) => ({
+    start: (first + index) * MINUTES_PER_DAY,
+    end: (first + index + 1) * MINUTES_PER_DAY,
+    count: 0,
+  }));
+  days.forEach(day => {
+    bins[day - first].count += 1;
+  });
+  return bins;
+}
+
+/**
+ * Runs the engine once per seed against the same backlog and collects when
+ * the last backlog item finished. Each run derives its seed from the
+ * configured one, so a forecast is reproducible.
+ */
+export function runForecast(
+  { setup, backlog, runs, includeNewArrivals }: ForecastRequest,
+  onProgress?: (completed: number, total: number) => void
+): Forecast {
+  const { capabilities, staffMembers, holidays, templates, settings } = setup;
+  const backlogArrivals = createBacklogArrivals(backlog);
+  const backlogIds = new Set(backlogArrivals.map(arrival => arrival.id));
+  const completionTimes: number[] = [];
+  let incompleteRuns = 0;
+
+  for (let run = 0; run < runs; run += 1) {
+    const seed = deriveSeed(settings.seed, `forecast-${run}`);
+    const newArrivals = includeNewArrivals
+      ? generateArrivals({ ...settings, seed }, templates.map(template => template.key))
+      : [];
+    const result = runSimulation({
+      team: { capabilities, staffMembers, holidays },
+      templates,
+      arrivals: [...backlogArrivals, ...newArrivals],
+      seed,
+      startDate: settings.startDate,
+      assignmentPolicy: settings.assignmentPolicy,
+    });
+
+    const backlogItems = result.workItems.filter(item => backlogIds.has(item.id));
+    if (backlogItems.every(item => item.completedAt !== null)) {
+      completionTimes.push(Math.max(0, ...backlogItems.map(item => item.completedAt ?? 0)));
+    } else {
+      incompleteRuns += 1;
+    }
+
+    if ((run + 1) % 10 === 0 || run + 1 === runs) {
+      onProgress?.(run + 1, runs);
+    }
+  }
+
+  return {
+    runs,
+    completionTimes,
+    incompleteRuns,
+    stats: summarizeDurations(completionTimes),
+    histogram: buildDailyHistogram(completionTimes),
+  };
+}
@@ -0,0 +1,15 @@
+import { type ForecastWorkerMessage, type ForecastWorkerRequest, runForecast } from "@/lib/simulation/forecast";
+import { runScenarioComparison } from "@/lib/simulation/scenarios";
+
+/** Runs forecasts and scenario comparisons off the main thread, reporting progress as it goes. */
+self.onmessage = (event: MessageEvent<ForecastWorkerRequest>) => {
+  const post = (message: ForecastWorkerMessage) => self.postMessage(message);
+  const onProgress = (completed: number, total: number) => post({ type: "progress", completed, total });
+  if (event.data.type === "scenarios") {
+    const outcomes = runScenarioComparison(event.data.baseline, event.data.scenarios, onProgress);
+    post({ type: "comparison", outcomes });
+    return;
+  }
+  const forecast = runForecast(event.data.request, onProgress);
+  post({ type: "result", forecast });
+};
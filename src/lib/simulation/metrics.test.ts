@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { runSimulation } from "@/lib/simulation/engine";
+import {
+  buildHistogram,
+  computeSimulationMetrics,
+  percentile,
+  summarizeDurations,
+} from "@/lib/simulation/metrics";
+import type { Capability, StaffMember } from "@/lib/teamSetup";
+import type { WorkflowTemplate } from "@/lib/workflowTemplates";
+
+describe("percentile", () => {
+  it("takes the nearest rank", () => {
+    const sorted = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+    expect(percentile(sorted, 50)).toBe(50);
+    expect(percentile(sorted, 85)).toBe(90);
+    expect(percentile(sorted, 95)).toBe(100);
+    expect(percentile(sorted, 0)).toBe(10);
+    expect(percentile([], 50)).toBe(0);
+  });
+});
+
+describe("summarizeDurations", () => {
+  it("reports the count, mean and percentiles whatever the input order", () => {
+    expect(summarizeDurations([30, 10, 20])).toEqual({
+      count: 3,
+      mean: 20,
+      percentiles: { 50: 20, 85: 30, 95: 30 },
+    });
+  });
+
+  it("has nothing to say about no values", () => {
+    expect(summarizeDurations([])).toBeNull();
+  });
+});
+
+describe("buildHistogram", () => {
+  it("spreads values over equal-width bins, the maximum in the last", () => {
+    expect(buildHistogram([0, 1, 2, 9, 10], 2)).toEqual([
+      { start: 0, end: 5, count: 3 },
+      { start: 5, end: 10, count: 2 },
+    ]);
+  });
+
+  it("uses a single bin when every value is the same", () => {
+    expect(buildHistogram([4, 4, 4])).toEqual([{ start: 4, end: 5, count: 3 }]);
+    expect(buildHistogram([])).toEqual([]);
+  });
+});
+
+describe("computeSimulationMetrics", () => {
+  const capabilities: Capability[] = [
+    { id: "dev", code: "DEV", description: "Development", wipLimit: null },
+    { id: "qa", code: "QA", description: "Testing", wipLimit: null },
+  ];
+  const member: StaffMember = {
+    id: "s1",
+    code: "S1",
+    name: "Sam",
+    capacity: 1,
+    capabilityIds: ["dev"],
+    proficiency: {},
+    wipLimit: null,
+    availability: {
+      timeZone: "UTC",
+      weeklyHours: Array.from({ length: 7 }, () => ({ start: 0, end: 24 * 60 })),
+      leave: [],
+    },
+  };
+  const templates: WorkflowTemplate[] = [
+    {
+      key: "feature",
+      title: "Feature",
+      priority: 0,
+      preempts: false,
+      contextSwitchMinutes: 0,
+      tasks: [
+        {
+          id: "build",
+          seqNumber: 10,
+          task: "Build",
+          estimateMinutes: 60,
+          uncertainty: null,
+          capabilityId: "dev",
+          predecessorIds: null,
+        },
+      ],
+    },
+  ];
+
+  it("derives cycle, lead and queue times and utilisation from a run", () => {
+    const result = runSimulation({
+      team: { capabilities, staffMembers: [member], holidays: [] },
+      templates,
+      arrivals: [
+        { templateKey: "feature", arrivalTime: 0 },
+        { templateKey: "feature", arrivalTime: 0 },
+      ],
+    });
+    const metrics = computeSimulationMetrics(result, { templates, capabilities, staffMembers: [member] });
+
+    const [feature] = metrics.templates;
+    expect(feature.arrived).toBe(2);
+    expect(feature.completed).toBe(2);
+    expect(feature.cycleTimes).toEqual([60, 60]);
+    expect(feature.leadTimes).toEqual([60, 120]);
+    expect(feature.averageTouchTime).toBe(60);
+    expect(feature.averageQueueTime).toBe(30);
+    expect(metrics.throughput).toEqual([{ week: 1, completed: 2, byTemplate: { feature: 2 } }]);
+    expect(metrics.staff).toEqual([{ id: "s1", label: "Sam", busy: 120, available: 120, utilisation: 1 }]);
+    expect(metrics.capabilities.map(entry => [entry.label, entry.utilisation])).toEqual([
+      ["DEV", 1],
+      ["QA", null],
+    ]);
+  });
+});
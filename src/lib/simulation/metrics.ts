@@ -0,0 +1,197 @@
+import type { Capability, StaffMember } from "@/lib/teamSetup";
+import type { TemplateKey, WorkflowTemplate } from "@/lib/workflowTemplates";
+import { MINUTES_PER_WEEK } from "@/lib/simulation/arrivals";
+import type { SimulatedWorkItem, SimulationResult } from "@/lib/simulation/engine";
+
+export const REPORTED_PERCENTILES = [50, 85, 95] as const;
+
+export type ReportedPercentile = (typeof REPORTED_PERCENTILES)[number];
+
+export type DurationStats = {
+  count: number;
+  mean: number;
+  percentiles: Record<ReportedPercentile, number>;
+};
+
+export type HistogramBin = {
+  start: number;
+  end: number;
+  count: number;
+};
+
+export type WeeklyThroughput = {
+  /** Week number, starting at 1. */
+  week: number;
+  completed: number;
+  byTemplate: Record<TemplateKey, number>;
+};
+
+export type TemplateMetrics = {
+  templateKey: TemplateKey;
+  title: string;
+  arrived: number;
+  completed: number;
+  /** Minutes from the first task starting to the last finishing, per completed item. */
+  cycleTimes: number[];
+  /** Minutes from arrival to completion, per completed item. */
+  leadTimes: number[];
+  cycleTime: DurationStats | null;
+  leadTime: DurationStats | null;
+  /** Average working minutes spent on a completed item. */
+  averageTouchTime: number;
+  /** Average lead time not spent working on a completed item, off-hours included. */
+  averageQueueTime: number;
+};
+
+export type UtilisationEntry = {
+  id: string;
+  label: string;
+  busy: number;
+  available: number;
+  /** Busy share of available time, or null when there was no available time. */
+  utilisation: number | null;
+};
+
+export type SimulationMetrics = {
+  throughput: WeeklyThroughput[];
+  templates: TemplateMetrics[];
+  staff: UtilisationEntry[];
+  capabilities: UtilisationEntry[];
+};
+
+type MetricsContext = {
+  templates: WorkflowTemplate[];
+  capabilities: Capability[];
+  staffMembers: StaffMember[];
+};
+
+/** Nearest-rank percentile of values sorted ascending. */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+export function summarizeDurations(values: number[]): DurationStats | null {
+  if (values.length === 0) {
+    return null;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    mean: sorted.reduce((total, value) => total + value, 0) / sorted.length,
+    percentiles: Object.fromEntries(
+      REPORTED_PERCENTILES.map(p => [p, percentile(sorted, p)])
+    ) as Record<ReportedPercentile, number>,
+  };
+}
+
+/** Splits values into equal-width bins between their minimum and maximum. */
+export function buildHistogram(values: number[], binCount = 10): HistogramBin[] {
+  if (values.length === 0) {
+    return [];
+  }
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const width = max > min ? (max - min) / binCount : 1;
+  const bins = Array.from({ length: max > min ? binCount : 1 }, (_, index) => ({
+    start: min + index * width,
+    end: min + (index + 1) * width,
+    count: 0,
+  }));
+  values.forEach(value => {
+    const index = Math.min(bins.length - 1, Math.floor((value - min) / width));
+    bins[index].count += 1;
+  });
+  return bins;
+}
+
+function getTouchTime(item: SimulatedWorkItem) {
+  return item.tasks.reduce((total, task) => total + task.touchTime, 0);
+}
+
+function toUtilisation(id: string, label: string, busy: number, available: number): UtilisationEntry {
+  return { id, label, busy, available, utilisation: available > 0 ? busy / available : null };
+}
+
+/**
+ * Derives the results dashboard figures from a run. Only work items finished
+ * before the run stopped count towards cycle and lead times.
+ */
+export function computeSimulationMetrics(
+  result: SimulationResult,
+  { templates, capabilities, staffMembers }: MetricsContext
+): SimulationMetrics {
+  const completedItems = result.workItems.filter(item => item.completedAt !== null);
+
+  const weekCount = Math.max(1, Math.ceil(result.endTime / MINUTES_PER_WEEK));
+  const throughput: WeeklyThroughput[] = Array.from({ length: weekCount }, (_, index) => ({
+    week: index + 1,
+    completed: 0,
+    byTemplate: {},
+  }));
+  completedItems.forEach(item => {
+    const week = throughput[Math.min(weekCount - 1, Math.floor((item.completedAt ?? 0) / MINUTES_PER_WEEK))];
+    week.completed += 1;
+    week.byTemplate[item.templateKey] = (week.byTemplate[item.templateKey] ?? 0) + 1;
+  });
+
+  const templateMetrics = templates.map(template => {
+    const items = result.workItems.filter(item => item.templateKey === template.key);
+    const completed = completedItems.filter(item => item.templateKey === template.key);
+    const cycleTimes = completed.map(item => (item.completedAt ?? 0) - (item.startedAt ?? item.arrivalTime));
+    const leadTimes = completed.map(item => (item.completedAt ?? 0) - item.arrivalTime);
+    const touchTimes = completed.map(getTouchTime);
+    const totalTouch = touchTimes.reduce((total, value) => total + value, 0);
+    const totalQueue = completed.reduce(
+      (total, item, index) => total + Math.max(0, leadTimes[index] - touchTimes[index]),
+      0
+    );
+
+    return {
+      templateKey: template.key,
+      title: template.title,
+      arrived: items.length,
+      completed: completed.length,
+      cycleTimes,
+      leadTimes,
+      cycleTime: summarizeDurations(cycleTimes),
+      leadTime: summarizeDurations(leadTimes),
+      averageTouchTime: completed.length ? totalTouch / completed.length : 0,
+      averageQueueTime: completed.length ? totalQueue / completed.length : 0,
+    } satisfies TemplateMetrics;
+  });
+
+  const staff = staffMembers.map(member =>
+    toUtilisation(
+      member.id,
+      member.name || member.code,
+      result.staffBusyTime[member.id] ?? 0,
+      result.staffAvailableTime[member.id] ?? 0
+    )
+  );
+
+  // A person holding several capabilities counts towards each one's available time.
+  const capabilityBusy = new Map<string, number>();
+  result.workItems.forEach(item =>
+    item.tasks.forEach(task =>
+      capabilityBusy.set(task.capabilityId, (capabilityBusy.get(task.capabilityId) ?? 0) + task.touchTime)
+    )
+  );
+  const capabilityMetrics = capabilities.map(capability =>
+    toUtilisation(
+      capability.id,
+      capability.code || capability.description,
+      capabilityBusy.get(capability.id) ?? 0,
+      staffMembers
+        .filter(member => member.capabilityIds.includes(capability.id))
+        .reduce((total, member) => total + (result.staffAvailableTime[member.id] ?? 0), 0)
+    )
+  );
+
+  return { throughput, templates: templateMetrics, staff, capabilities: capabilityMetrics };
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import type { SimulatedTask } from "@/lib/simulation/engine";
+import { ASSIGNMENT_POLICIES, isAssignmentPolicyId } from "@/lib/simulation/policies";
+import type { StaffMember } from "@/lib/teamSetup";
+
+function staff(id: string, capabilityIds: string[]): StaffMember {
+  return {
+    id,
+    code: id.toUpperCase(),
+    name: id,
+    capacity: 1,
+    capabilityIds,
+    proficiency: {},
+    wipLimit: null,
+    availability: { timeZone: "UTC", weeklyHours: [], leave: [] },
+  };
+}
+
+function task(id: string, templateKey = "feature", capabilityId = "dev"): SimulatedTask {
+  return {
+    id,
+    templateKey,
+    templateTaskId: id,
+    seqNumber: 10,
+    task: id,
+    capabilityId,
+    predecessorIds: [],
+    effort: 60,
+    readyAt: 0,
+    startedAt: null,
+    completedAt: null,
+    staffId: null,
+    preemptions: 0,
+    touchTime: 0,
+  };
+}
+
+const generalist = staff("generalist", ["dev", "qa", "ops"]);
+const specialist = staff("specialist", ["dev"]);
+const context = { clock: 0, assignedMinutes: { generalist: 0, specialist: 0 } };
+
+describe("assignment policies", () => {
+  it("first available takes the first candidate in team order", () => {
+    const policy = ASSIGNMENT_POLICIES["first-available"].create();
+    expect(policy.choose(task("t1"), [generalist, specialist], context).id).toBe("generalist");
+  });
+
+  it("least loaded takes the candidate handed the least work", () => {
+    const policy = ASSIGNMENT_POLICIES["least-loaded"].create();
+    const loaded = { clock: 0, assignedMinutes: { generalist: 120, specialist: 60 } };
+    expect(policy.choose(task("t1"), [generalist, specialist], loaded).id).toBe("specialist");
+  });
+
+  it("specialist first takes the candidate with the fewest capabilities", () => {
+    const policy = ASSIGNMENT_POLICIES["specialist-first"].create();
+    expect(policy.choose(task("t1"), [generalist, specialist], context).id).toBe("specialist");
+  });
+
+  it("round robin rotates each capability through its holders", () => {
+    const policy = ASSIGNMENT_POLICIES["round-robin"].create();
+    const picks = ["t1", "t2", "t3"].map(id => policy.choose(task(id), [generalist, specialist], context).id);
+    expect(picks).toEqual(["generalist", "specialist", "generalist"]);
+    expect(policy.choose(task("t4", "feature", "qa"), [generalist, specialist], context).id).toBe("generalist");
+  });
+
+  it("interrupting work first moves tasks of preempting templates to the front and keeps the rest in order", () => {
+    const policy = ASSIGNMENT_POLICIES["incident-priority"].create();
+    const scheduling = new Map([
+      ["feature", { priority: 0, preempts: false, contextSwitchMinutes: 0 }],
+      ["outage", { priority: 0, preempts: true, contextSwitchMinutes: 0 }],
+    ]);
+    const queue = [task("a"), task("b", "outage"), task("c", "incident"), task("d", "outage")];
+    expect(policy.prioritize?.(queue, { scheduling }).map(entry => entry.id)).toEqual(["b", "d", "a", "c"]);
+  });
+
+  it("recognizes policy ids", () => {
+    expect(isAssignmentPolicyId("round-robin")).toBe(true);
+    expect(isAssignmentPolicyId("random")).toBe(false);
+    expect(isAssignmentPolicyId(undefined)).toBe(false);
+  });
+});
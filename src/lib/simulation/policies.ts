@@ -0,0 +1,108 @@
+import type { StaffMember } from "@/lib/teamSetup";
+import type { SimulatedTask } from "@/lib/simulation/engine";
+import type { TemplateKey, TemplateScheduling } from "@/lib/workflowTemplates";
+
+export type AssignmentContext = {
+  clock: number;
+  /** Working minutes of tasks handed to each staff member so far, keyed by staff id. */
+  assignedMinutes: Record<string, number>;
+};
+
+export type QueueContext = {
+  /** Scheduling of every template in the run, keyed by template key. */
+  scheduling: ReadonlyMap<TemplateKey, TemplateScheduling>;
+};
+
+/**
+ * Decides who picks up work when several people could. The engine hands the
+ * policy the ready queue, then, task by task, the idle on-shift staff who hold
+ * the task's capability.
+ */
+export type AssignmentPolicy = {
+  /**
+   * Orders the ready queue before assignment; the engine keeps arrival order
+   * otherwise. Template priority is applied afterwards, so this order holds
+   * within each priority.
+   */
+  prioritize?(tasks: SimulatedTask[], context: QueueContext): SimulatedTask[];
+  /** Picks one of the candidates, which are never empty and listed in team order. */
+  choose(task: SimulatedTask, candidates: StaffMember[], context: AssignmentContext): StaffMember;
+};
+
+export type AssignmentPolicyId =
+  | "first-available"
+  | "least-loaded"
+  | "specialist-first"
+  | "round-robin"
+  | "incident-priority";
+
+export const DEFAULT_ASSIGNMENT_POLICY: AssignmentPolicyId = "first-available";
+
+function minBy<T>(items: T[], score: (item: T) => number): T {
+  return items.reduce((best, item) => (score(item) < score(best) ? item : best));
+}
+
+const chooseFirst: AssignmentPolicy["choose"] = (_task, candidates) => candidates[0];
+
+function createRoundRobinPolicy(): AssignmentPolicy {
+  const assignmentCounts = new Map<string, number>();
+  const countKey = (capabilityId: string, staffId: string) => `${capabilityId}:${staffId}`;
+  return {
+    choose(task, candidates) {
+      // Whoever has had the fewest tasks of this capability goes next; ties keep team order.
+      const next = minBy(
+        candidates,
+        candidate => assignmentCounts.get(countKey(task.capabilityId, candidate.id)) ?? 0
+      );
+      const key = countKey(task.capabilityId, next.id);
+      assignmentCounts.set(key, (assignmentCounts.get(key) ?? 0) + 1);
+      return next;
+    },
+  };
+}
+
+export const ASSIGNMENT_POLICIES: Record<
+  AssignmentPolicyId,
+  { label: string; description: string; create: () => AssignmentPolicy }
+> = {
+  "first-available": {
+    label: "First available",
+    description: "The first idle person in team order takes the task.",
+    create: () => ({ choose: chooseFirst }),
+  },
+  "least-loaded": {
+    label: "Least loaded",
+    description: "The idle person who has been handed the least work so far takes the task.",
+    create: () => ({
+      choose: (_task, candidates, context) =>
+        minBy(candidates, candidate => context.assignedMinutes[candidate.id] ?? 0),
+    }),
+  },
+  "specialist-first": {
+    label: "Specialist first",
+    description: "The idle person with the fewest capabilities takes the task, keeping generalists free.",
+    create: () => ({
+      choose: (_task, candidates) => minBy(candidates, candidate => candidate.capabilityIds.length),
+    }),
+  },
+  "round-robin": {
+    label: "Round robin",
+    description: "Tasks of each capability rotate through the people who hold it.",
+    create: createRoundRobinPolicy,
+  },
+  "incident-priority": {
+    label: "Interrupting work first",
+    description: "Tasks of templates that interrupt other work jump the queue; the first idle person takes each task.",
+    create: () => ({
+      prioritize: (tasks, { scheduling }) => {
+        const preempts = (task: SimulatedTask) => Number(scheduling.get(task.templateKey)?.preempts ?? false);
+        return [...tasks].sort((a, b) => preempts(b) - preempts(a));
+      },
+      choose: chooseFirst,
+    }),
+  },
+};
+
+export function isAssignmentPolicyId(value: unknown): value is AssignmentPolicyId {
+  return typeof value === "string" && value in ASSIGNMENT_POLICIES;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { createRandom, deriveSeed, sampleExponential } from "@/lib/simulation/random";
+
+describe("createRandom", () => {
+  it("repeats its sequence for the same seed", () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    expect(Array.from({ length: 5 }, a)).toEqual(Array.from({ length: 5 }, b));
+  });
+
+  it("yields values in [0, 1)", () => {
+    const random = createRandom(1);
+    const values = Array.from({ length: 1000 }, random);
+    expect(values.every(value => value >= 0 && value < 1)).toBe(true);
+  });
+});
+
+describe("deriveSeed", () => {
+  it("separates streams by label and base seed", () => {
+    expect(deriveSeed(1, "incident")).toBe(deriveSeed(1, "incident"));
+    expect(deriveSeed(1, "incident")).not.toBe(deriveSeed(1, "defect"));
+    expect(deriveSeed(1, "incident")).not.toBe(deriveSeed(2, "incident"));
+  });
+});
+
+describe("sampleExponential", () => {
+  it("averages close to the mean", () => {
+    const random = createRandom(3);
+    const samples = Array.from({ length: 20_000 }, () => sampleExponential(random, 60));
+    const average = samples.reduce((total, value) => total + value, 0) / samples.length;
+    expect(average).toBeGreaterThan(57);
+    expect(average).toBeLessThan(63);
+  });
+});
@@ -0,0 +1,34 @@
+export type RandomSource = () => number;
+
+/** Mulberry32: a small, fast generator that is plenty for simulation sampling. */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Derives an independent stream from a base seed and a label so that, for
+ * example, changing the incident arrival rate does not reshuffle enhancements.
+ */
+export function deriveSeed(seed: number, label: string): number {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let index = 0; index < label.length; index += 1) {
+    hash ^= label.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 1_000_000);
+}
+
+export function sampleExponential(random: RandomSource, mean: number): number {
+  return -mean * Math.log(1 - random());
+}
@@ -0,0 +1,43 @@
+import type { TeamSetupData } from "@/lib/teamSetup";
+import type { WorkflowTemplate } from "@/lib/workflowTemplates";
+import { type ArrivalSettings, generateArrivals, MINUTES_PER_DAY } from "@/lib/simulation/arrivals";
+import { runSimulation, type SimulationResult } from "@/lib/simulation/engine";
+
+export type SimulationSetup = TeamSetupData & {
+  templates: WorkflowTemplate[];
+  settings: ArrivalSettings;
+};
+
+/**
+ * Runs the project as configured in the setup screens: the backlog is waiting
+ * at the start, arrivals are generated over the horizon unless switched off,
+ * and the clock stops at its end. `seed` replaces the configured seed for both
+ * arrivals and task efforts.
+ */
+export function runProjectSimulation(
+  { capabilities, staffMembers, holidays, templates, settings }: SimulationSetup,
+  seed = settings.seed
+): SimulationResult {
+  const seededSettings = { ...settings, seed };
+  return runSimulation({
+    team: { capabilities, staffMembers, holidays },
+    templates,
+    arrivals: [
+      ...settings.backlog.map(item => ({
+        id: `backlog-${item.id}`,
+        templateKey: item.templateKey,
+        arrivalTime: 0,
+      })),
+      ...(settings.syntheticArrivals
+        ? generateArrivals(
+            seededSettings,
+            templates.map(template => template.key)
+          )
+        : []),
+    ],
+    seed,
+    startDate: settings.startDate,
+    horizon: settings.horizonDays * MINUTES_PER_DAY,
+    assignmentPolicy: settings.assignmentPolicy,
+  });
+}
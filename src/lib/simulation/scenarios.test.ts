@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ARRIVAL_SETTINGS } from "@/lib/simulation/arrivals";
+import type { SimulationSetup } from "@/lib/simulation/run";
+import { BASELINE_SCENARIO_ID, createScenario, runScenarioComparison } from "@/lib/simulation/scenarios";
+import type { StaffMember } from "@/lib/teamSetup";
+
+function staff(id: string): StaffMember {
+  return {
+    id,
+    code: id.toUpperCase(),
+    name: id,
+    capacity: 1,
+    capabilityIds: ["dev"],
+    proficiency: {},
+    wipLimit: null,
+    availability: {
+      timeZone: "UTC",
+      weeklyHours: Array.from({ length: 7 }, () => ({ start: 0, end: 24 * 60 })),
+      leave: [],
+    },
+  };
+}
+
+function baseline(): SimulationSetup {
+  return {
+    capabilities: [{ id: "dev", code: "DEV", description: "Development", wipLimit: null }],
+    staffMembers: [staff("s1")],
+    holidays: [],
+    templates: [
+      {
+        key: "feature",
+        title: "Feature",
+        priority: 0,
+        preempts: false,
+        contextSwitchMinutes: 0,
+        tasks: [
+          {
+            id: "build",
+            seqNumber: 10,
+            task: "Build",
+            estimateMinutes: 90,
+            uncertainty: null,
+            capabilityId: "dev",
+            predecessorIds: null,
+          },
+        ],
+      },
+    ],
+    settings: {
+      ...DEFAULT_ARRIVAL_SETTINGS,
+      horizonDays: 1,
+      processes: { feature: { kind: "fixed", intervalHours: 1, offsetHours: 0 } },
+    },
+  };
+}
+
+describe("createScenario", () => {
+  it("copies the setup so edits never reach the baseline", () => {
+    const setup = baseline();
+    const scenario = createScenario("s", "Extra hire", setup);
+
+    scenario.setup.staffMembers.push(staff("s2"));
+    scenario.setup.templates[0].tasks[0].estimateMinutes = 10;
+
+    expect(setup.staffMembers).toHaveLength(1);
+    expect(setup.templates[0].tasks[0].estimateMinutes).toBe(90);
+  });
+});
+
+describe("runScenarioComparison", () => {
+  it("runs the baseline first, then each scenario", () => {
+    const setup = baseline();
+    const outcomes = runScenarioComparison(setup, [createScenario("hire", "Extra hire", setup)]);
+
+    expect(outcomes.map(outcome => [outcome.scenarioId, outcome.name])).toEqual([
+      [BASELINE_SCENARIO_ID, "Baseline"],
+      ["hire", "Extra hire"],
+    ]);
+    expect(outcomes[1].summary).toEqual(outcomes[0].summary);
+  });
+
+  it("reports progress after each run", () => {
+    const setup = baseline();
+    const progress: [number, number][] = [];
+    runScenarioComparison(setup, [createScenario("hire", "Extra hire", setup)], (completed, total) =>
+      progress.push([completed, total])
+    );
+
+    expect(progress).toEqual([
+      [1, 2],
+      [2, 2],
+    ]);
+  });
+
+  it("summarizes how an edit changes the outcome", () => {
+    const setup = baseline();
+    const hire = createScenario("hire", "Extra hire", setup);
+    hire.setup.staffMembers.push(staff("s2"));
+
+    const [base, scenario] = runScenarioComparison(setup, [hire]);
+
+    expect(base.summary.arrived).toBe(24);
+    expect(scenario.summary.arrived).toBe(24);
+    expect(scenario.summary.completed).toBeGreaterThan(base.summary.completed);
+    expect(scenario.summary.leadTime?.percentiles[95]).toBe(90);
+    expect(base.summary.leadTime?.percentiles[95]).toBeGreaterThan(90);
+    expect(base.summary.utilisation).toBe(1);
+    expect(scenario.summary.unstaffedTasks).toBe(0);
+  });
+
+  it("uses the baseline's seed for every scenario", () => {
+    const setup = baseline();
+    const reseeded = createScenario("seed", "Other seed", setup);
+    reseeded.setup.settings.seed = 99;
+    setup.settings = { ...setup.settings, processes: { feature: { kind: "poisson", ratePerWeek: 100 } } };
+    reseeded.setup.settings.processes = setup.settings.processes;
+
+    const [base, scenario] = runScenarioComparison(setup, [reseeded]);
+
+    expect(scenario.result.workItems.map(item => item.arrivalTime)).toEqual(
+      base.result.workItems.map(item => item.arrivalTime)
+    );
+  });
+});
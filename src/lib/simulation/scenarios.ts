@@ -0,0 +1,78 @@
+import type { SimulationResult } from "@/lib/simulation/engine";
+import {
+  computeSimulationMetrics,
+  type DurationStats,
+  type SimulationMetrics,
+  summarizeDurations,
+} from "@/lib/simulation/metrics";
+import { runProjectSimulation, type SimulationSetup } from "@/lib/simulation/run";
+
+export const BASELINE_SCENARIO_ID = "baseline";
+
+/** A named what-if copy of the team, templates and arrival settings. */
+export type Scenario = {
+  id: string;
+  name: string;
+  setup: SimulationSetup;
+};
+
+export type ScenarioSummary = {
+  arrived: number;
+  completed: number;
+  throughputPerWeek: number;
+  /** Across all templates. */
+  leadTime: DurationStats | null;
+  cycleTime: DurationStats | null;
+  /** Busy share of the summed working hours of the whole team. */
+  utilisation: number | null;
+  unstaffedTasks: number;
+};
+
+export type ScenarioOutcome = {
+  scenarioId: string;
+  name: string;
+  result: SimulationResult;
+  metrics: SimulationMetrics;
+  summary: ScenarioSummary;
+};
+
+/** Deep copy of `setup`, so edits to the scenario never reach the baseline. */
+export function createScenario(id: string, name: string, setup: SimulationSetup): Scenario {
+  return { id, name, setup: structuredClone(setup) };
+}
+
+function summarizeOutcome(result: SimulationResult, metrics: SimulationMetrics): ScenarioSummary {
+  const busy = metrics.staff.reduce((total, entry) => total + entry.busy, 0);
+  const available = metrics.staff.reduce((total, entry) => total + entry.available, 0);
+  const completed = metrics.templates.reduce((total, entry) => total + entry.completed, 0);
+
+  return {
+    arrived: result.workItems.length,
+    completed,
+    throughputPerWeek: completed / Math.max(1, metrics.throughput.length),
+    leadTime: summarizeDurations(metrics.templates.flatMap(entry => entry.leadTimes)),
+    cycleTime: summarizeDurations(metrics.templates.flatMap(entry => entry.cycleTimes)),
+    utilisation: available > 0 ? busy / available : null,
+    unstaffedTasks: result.unstaffedTaskIds.length,
+  };
+}
+
+/**
+ * Runs the baseline and every scenario with the baseline's seed, so the
+ * differences come from the edits rather than from the random draws. Arrival
+ * settings other than the seed are taken from each scenario.
+ */
+export function runScenarioComparison(
+  baseline: SimulationSetup,
+  scenarios: Scenario[],
+  onProgress?: (completed: number, total: number) => void
+): ScenarioOutcome[] {
+  const { seed } = baseline.settings;
+  const runs = [{ id: BASELINE_SCENARIO_ID, name: "Baseline", setup: baseline }, ...scenarios];
+  return runs.map(({ id, name, setup }, index) => {
+    const result = runProjectSimulation(setup, seed);
+    const metrics = computeSimulationMetrics(result, setup);
+    onProgress?.(index + 1, runs.length);
+    return { scenarioId: id, name, result, metrics, summary: summarizeOutcome(result, metrics) };
+  });
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { layoutTaskGraph, resolveTaskGraph } from "@/lib/taskGraph";
+import type { TemplateTask } from "@/lib/workflowTemplates";
+
+function task(id: string, seqNumber: number, predecessorIds: string[] | null = null): TemplateTask {
+  return {
+    id,
+    seqNumber,
+    task: id,
+    estimateMinutes: 30,
+    uncertainty: null,
+    capabilityId: "dev",
+    predecessorIds,
+  };
+}
+
+describe("resolveTaskGraph", () => {
+  it("chains tasks without dependencies in sequence order", () => {
+    const graph = resolveTaskGraph([task("c", 30), task("a", 10), task("b", 20)]);
+    expect(graph.cycle).toBeNull();
+    expect(Object.fromEntries(graph.predecessors)).toEqual({ a: [], b: ["a"], c: ["b"] });
+  });
+
+  it("uses declared dependencies and drops unknown and self references", () => {
+    const graph = resolveTaskGraph([
+      task("design", 10),
+      task("api", 20, ["design"]),
+      task("ui", 30, ["design", "ui", "gone"]),
+      task("release", 40, ["api", "ui"]),
+    ]);
+    expect(Object.fromEntries(graph.predecessors)).toEqual({
+      design: [],
+      api: ["design"],
+      ui: ["design"],
+      release: ["api", "ui"],
+    });
+  });
+
+  it("reports a cycle in flow order and falls back to the sequence", () => {
+    const graph = resolveTaskGraph([task("a", 10, ["c"]), task("b", 20, ["a"]), task("c", 30, ["b"])]);
+    expect(graph.cycle).toEqual(["a", "b", "c", "a"]);
+    expect(Object.fromEntries(graph.predecessors)).toEqual({ a: [], b: ["a"], c: ["b"] });
+  });
+});
+
+describe("layoutTaskGraph", () => {
+  it("groups tasks by their longest path from a start", () => {
+    const tasks = [
+      task("design", 10, []),
+      task("api", 20, ["design"]),
+      task("ui", 30, ["design"]),
+      task("docs", 40, []),
+      task("release", 50, ["api", "ui"]),
+    ];
+    const columns = layoutTaskGraph(tasks, resolveTaskGraph(tasks));
+    expect(columns.map(column => column.map(entry => entry.id))).toEqual([
+      ["design", "docs"],
+      ["api", "ui"],
+      ["release"],
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+import type { TemplateTask } from "@/lib/workflowTemplates";
+
+export type TaskGraph = {
+  /** Predecessor task ids for every task, keyed by task id. */
+  predecessors: Map<string, string[]>;
+  /** Task ids forming a dependency cycle, in order, or null when the graph is acyclic. */
+  cycle: string[] | null;
+};
+
+function sortBySequence(tasks: TemplateTask[]) {
+  return [...tasks].sort((a, b) => a.seqNumber - b.seqNumber);
+}
+
+function linearPredecessors(ordered: TemplateTask[]) {
+  return new Map(
+    ordered.map((task, index) => [task.id, index > 0 ? [ordered[index - 1].id] : []])
+  );
+}
+
+function findCycle(ordered: TemplateTask[], predecessors: Map<string, string[]>): string[] | null {
+  const state = new Map<string, "visiting" | "done">();
+  const path: string[] = [];
+
+  const visit = (taskId: string): string[] | null => {
+    const current = state.get(taskId);
+    if (current === "done") {
+      return null;
+    }
+    if (current === "visiting") {
+      return [...path.slice(path.indexOf(taskId)), taskId];
+    }
+
+    state.set(taskId, "visiting");
+    path.push(taskId);
+    for (const predecessorId of predecessors.get(taskId) ?? []) {
+      const cycle = visit(predecessorId);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    path.pop();
+    state.set(taskId, "done");
+    return null;
+  };
+
+  for (const task of ordered) {
+    const cycle = visit(task.id);
+    if (cycle) {
+      // The walk follows predecessor links, so reverse it to read in flow order.
+      return cycle.reverse();
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolves the dependency graph of a template. Tasks without explicit
+ * predecessors follow the previous task in `seqNumber` order, which keeps
+ * older linear templates working unchanged. When the declared dependencies
+ * contain a cycle the cycle is reported and the plain sequence is used.
+ */
+export function resolveTaskGraph(tasks: TemplateTask[]): TaskGraph {
+  const ordered = sortBySequence(tasks);
+  const knownIds = new Set(ordered.map(task => task.id));
+  const linear = linearPredecessors(ordered);
+
+  const predecessors = new Map(
+    ordered.map(task => [
+      task.id,
+      task.predecessorIds === null
+        ? linear.get(task.id) ?? []
+        : task.predecessorIds.filter(id => id !== task.id && knownIds.has(id)),
+    ])
+  );
+
+  const cycle = findCycle(ordered, predecessors);
+  return cycle ? { predecessors: linear, cycle } : { predecessors, cycle: null };
+}
+
+/** Groups tasks into columns by their longest distance from a starting task. */
+export function layoutTaskGraph(tasks: TemplateTask[], graph: TaskGraph): TemplateTask[][] {
+  const depth = new Map<string, number>();
+
+  const depthOf = (taskId: string): number => {
+    const known = depth.get(taskId);
+    if (known !== undefined) {
+      return known;
+    }
+    const predecessorIds = graph.predecessors.get(taskId) ?? [];
+    const value = predecessorIds.length ? Math.max(...predecessorIds.map(depthOf)) + 1 : 0;
+    depth.set(taskId, value);
+    return value;
+  };
+
+  const columns: TemplateTask[][] = [];
+  sortBySequence(tasks).forEach(task => {
+    const column = depthOf(task.id);
+    (columns[column] ??= []).push(task);
+  });
+  return columns;
+}
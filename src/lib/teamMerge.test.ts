@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyTeamMerge,
+  countUnresolved,
+  createMergeChoices,
+  diffTeams,
+} from "@/lib/teamMerge";
+import { createDefaultAvailability, type Capability, type StaffMember, type TeamSetupData } from "@/lib/teamSetup";
+
+function capability(id: string, code: string, description: string): Capability {
+  return { id, code, description, wipLimit: null };
+}
+
+function member(id: string, code: string, name: string, capabilityIds: string[], capacity = 1): StaffMember {
+  return {
+    id,
+    code,
+    name,
+    capacity,
+    capabilityIds,
+    proficiency: {},
+    wipLimit: null,
+    availability: createDefaultAvailability(),
+  };
+}
+
+const CURRENT: TeamSetupData = {
+  capabilities: [capability("c1", "DEV", "Development"), capability("c2", "QA", "Testing")],
+  staffMembers: [member("s1", "S1", "Sam", ["c1", "c2"]), member("s2", "S2", "Ana", ["c1"])],
+  holidays: [{ id: "h1", date: "2026-12-25", name: "Christmas" }],
+};
+
+/** The same team saved elsewhere: an edit each, a capability and a person re-created, and new records. */
+const INCOMING: TeamSetupData = {
+  capabilities: [
+    capability("c1", "DEV", "Software development"),
+    capability("x-qa", "qa", "Testing"),
+    capability("x-ops", "OPS", "Operations"),
+  ],
+  staffMembers: [
+    member("s1", "S1", "Sam", ["c1", "x-qa"], 0.8),
+    member("x-s2", "s2", "Ana Bell", ["c1"]),
+    member("x-s3", "S3", "Kim", ["x-ops", "x-qa"]),
+  ],
+  holidays: [
+    { id: "h1", date: "2026-12-26", name: "Boxing Day" },
+    { id: "h2", date: "2026-12-25", name: "Christmas Day" },
+  ],
+};
+
+describe("diffTeams", () => {
+  it("matches records by code, ignoring case, and tells edits from conflicts by id", () => {
+    const diff = diffTeams(CURRENT, INCOMING);
+
+    expect(diff.capabilities.map(row => [row.key, row.status, row.changes])).toEqual([
+      [
+        "capability:c1",
+        "changed",
+        [{ field: "Description", current: "Development", incoming: "Software development" }],
+      ],
+      ["capability:c2", "conflict", [{ field: "Code", current: "QA", incoming: "qa" }]],
+      ["capability:added:0", "added", []],
+    ]);
+    expect(diff.staffMembers.map(row => [row.key, row.status, row.changes])).toEqual([
+      ["staff:s1", "changed", [{ field: "Capacity", current: "1", incoming: "0.8" }]],
+      [
+        "staff:s2",
+        "conflict",
+        [
+          { field: "Code", current: "S2", incoming: "s2" },
+          { field: "Name", current: "Ana", incoming: "Ana Bell" },
+        ],
+      ],
+      ["staff:added:0", "added", []],
+    ]);
+  });
+
+  it("lists records missing from the file as removed", () => {
+    const diff = diffTeams(CURRENT, { ...CURRENT, staffMembers: [CURRENT.staffMembers[0]] });
+
+    expect(diff.staffMembers.map(row => [row.key, row.status])).toEqual([
+      ["staff:s1", "unchanged"],
+      ["staff:s2", "removed"],
+    ]);
+  });
+});
+
+describe("merge choices", () => {
+  it("takes edits and additions, keeps the rest and leaves conflicts open", () => {
+    const diff = diffTeams(CURRENT, INCOMING);
+    const choices = createMergeChoices(diff);
+
+    expect(choices).toEqual({
+      "capability:c1": "incoming",
+      "capability:c2": null,
+      "capability:added:0": "incoming",
+      "staff:s1": "incoming",
+      "staff:s2": null,
+      "staff:added:0": "incoming",
+    });
+    expect(countUnresolved(diff, choices)).toBe(2);
+    expect(countUnresolved(diff, { ...choices, "capability:c2": "current", "staff:s2": "current" })).toBe(0);
+  });
+});
+
+describe("applyTeamMerge", () => {
+  it("keeps on-screen ids and points incoming staff at them", () => {
+    const diff = diffTeams(CURRENT, INCOMING);
+    const merged = applyTeamMerge(CURRENT, INCOMING, diff, {
+      ...createMergeChoices(diff),
+      "capability:c2": "incoming",
+      "staff:s2": "current",
+    });
+
+    expect(merged.capabilities.map(entry => [entry.id, entry.code, entry.description])).toEqual([
+      ["c1", "DEV", "Software development"],
+      ["c2", "qa", "Testing"],
+      ["x-ops", "OPS", "Operations"],
+    ]);
+    expect(merged.staffMembers.map(entry => [entry.id, entry.name, entry.capacity, entry.capabilityIds])).toEqual([
+      ["s1", "Sam", 0.8, ["c1", "c2"]],
+      ["s2", "Ana", 1, ["c1"]],
+      ["x-s3", "Kim", 1, ["x-ops", "c2"]],
+    ]);
+    expect(merged.staffMembers[2].proficiency).toEqual({ "x-ops": "competent", c2: "competent" });
+  });
+
+  it("removes dropped capabilities from everyone who held them", () => {
+    const incoming = { ...CURRENT, capabilities: [CURRENT.capabilities[0]] };
+    const diff = diffTeams(CURRENT, incoming);
+    const choices = { ...createMergeChoices(diff), "capability:c2": "incoming" as const };
+    const merged = applyTeamMerge(CURRENT, incoming, diff, choices);
+
+    expect(merged.capabilities.map(entry => entry.id)).toEqual(["c1"]);
+    expect(merged.staffMembers.map(entry => entry.capabilityIds)).toEqual([["c1"], ["c1"]]);
+    expect(merged.staffMembers[0].proficiency).toEqual({ c1: "competent" });
+  });
+
+  it("adds holidays on new dates only, with fresh ids where they clash", () => {
+    const diff = diffTeams(CURRENT, INCOMING);
+    const merged = applyTeamMerge(CURRENT, INCOMING, diff, createMergeChoices(diff));
+
+    expect(merged.holidays.map(holiday => [holiday.date, holiday.name])).toEqual([
+      ["2026-12-25", "Christmas"],
+      ["2026-12-26", "Boxing Day"],
+    ]);
+    expect(merged.holidays[1].id).not.toBe("h1");
+  });
+});
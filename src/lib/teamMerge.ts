@@ -0,0 +1,291 @@
+import type { Capability, StaffMember, TeamSetupData } from "@/lib/teamSetup";
+import { generateId } from "@/lib/ids";
+import { getProficiency, PROFICIENCY_LEVELS } from "@/lib/proficiency";
+
+/**
+ * How a record in the loaded file relates to the one on screen with the same
+ * code. Records that share an id were copied from the same original, so a
+ * difference is an edit ("changed"); records created independently under the
+ * same code disagree with no way to tell which is right ("conflict").
+ */
+export type MergeStatus = "added" | "changed" | "removed" | "conflict" | "unchanged";
+
+/** Which side a row takes: what is on screen now, or what the file holds. */
+export type MergeChoice = "current" | "incoming";
+
+export type FieldChange = {
+  field: string;
+  current: string;
+  incoming: string;
+};
+
+export type MergeRow<T> = {
+  /** Stable across renders; used to key choices. */
+  key: string;
+  code: string;
+  status: MergeStatus;
+  current: T | null;
+  incoming: T | null;
+  changes: FieldChange[];
+};
+
+export type TeamMergeDiff = {
+  capabilities: MergeRow<Capability>[];
+  staffMembers: MergeRow<StaffMember>[];
+};
+
+export type MergeChoices = Record<string, MergeChoice | null>;
+
+export const MERGE_STATUS_LABELS: Record<MergeStatus, string> = {
+  added: "Added",
+  changed: "Changed",
+  removed: "Removed",
+  conflict: "Conflict",
+  unchanged: "Unchanged",
+};
+
+function matchCode(code: string) {
+  return code.trim().toLowerCase();
+}
+
+function formatLimit(limit: number | null) {
+  return limit === null ? "No limit" : String(limit);
+}
+
+function describeCapabilities(member: StaffMember, capabilities: Capability[]) {
+  return (
+    capabilities
+      .filter(capability => member.capabilityIds.includes(capability.id))
+      .map(capability => {
+        const level = PROFICIENCY_LEVELS.find(entry => entry.level === getProficiency(member, capability.id));
+        return `${capability.code || capability.description} (${level?.label ?? "Competent"})`;
+      })
+      .sort()
+      .join(", ") || "None"
+  );
+}
+
+function describeAvailability(member: StaffMember) {
+  const { timeZone, weeklyHours, leave } = member.availability;
+  const days = weeklyHours.filter(Boolean).length;
+  return `${days} days a week, ${timeZone}, ${leave.length} leave periods`;
+}
+
+function compareFields(fields: [string, string, string][]): FieldChange[] {
+  return fields
+    .filter(([, current, incoming]) => current !== incoming)
+    .map(([field, current, incoming]) => ({ field, current, incoming }));
+}
+
+function diffCapability(current: Capability, incoming: Capability) {
+  return compareFields([
+    ["Code", current.code, incoming.code],
+    ["Description", current.description, incoming.description],
+    ["WIP limit", formatLimit(current.wipLimit), formatLimit(incoming.wipLimit)],
+  ]);
+}
+
+function diffStaffMember(
+  current: StaffMember,
+  incoming: StaffMember,
+  currentCapabilities: Capability[],
+  incomingCapabilities: Capability[]
+) {
+  const changes = compareFields([
+    ["Code", current.code, incoming.code],
+    ["Name", current.name, incoming.name],
+    ["Capacity", String(current.capacity), String(incoming.capacity)],
+    ["WIP limit", formatLimit(current.wipLimit), formatLimit(incoming.wipLimit)],
+    [
+      "Capabilities",
+      describeCapabilities(current, currentCapabilities),
+      describeCapabilities(incoming, incomingCapabilities),
+    ],
+  ]);
+  // The summary can read the same while the hours differ, so compare the data itself.
+  if (JSON.stringify(current.availability) !== JSON.stringify(incoming.availability)) {
+    changes.push({
+      field: "Availability",
+      current: describeAvailability(current),
+      incoming: describeAvailability(incoming),
+    });
+  }
+  return changes;
+}
+
+function diffRecords<T extends { id: string; code: string }>(
+  kind: string,
+  current: T[],
+  incoming: T[],
+  diff: (current: T, incoming: T) => FieldChange[]
+): MergeRow<T>[] {
+  const incomingByCode = new Map<string, T>();
+  const unmatched: T[] = [];
+  incoming.forEach(record => {
+    const code = matchCode(record.code);
+    if (code && !incomingByCode.has(code)) {
+      incomingByCode.set(code, record);
+    } else {
+      unmatched.push(record);
+    }
+  });
+
+  const rows: MergeRow<T>[] = current.map(record => {
+    const match = incomingByCode.get(matchCode(record.code));
+    if (match) {
+      incomingByCode.delete(matchCode(record.code));
+    }
+    const changes = match ? diff(record, match) : [];
+    const status: MergeStatus = !match
+      ? "removed"
+      : changes.length === 0
+        ? "unchanged"
+        : match.id === record.id
+          ? "changed"
+          : "conflict";
+    return {
+      key: `${kind}:${record.id}`,
+      code: record.code,
+      status,
+      current: record,
+      incoming: match ?? null,
+      changes,
+    };
+  });
+
+  [...incomingByCode.values(), ...unmatched].forEach((record, index) =>
+    rows.push({
+      key: `${kind}:added:${index}`,
+      code: record.code,
+      status: "added",
+      current: null,
+      incoming: record,
+      changes: [],
+    })
+  );
+  return rows;
+}
+
+/** Matches capabilities and staff by code, ignoring case, and lists how each pair differs. */
+export function diffTeams(current: TeamSetupData, incoming: TeamSetupData): TeamMergeDiff {
+  // Staff capabilities are compared by code, so spell matched codes the way the screen does.
+  const currentCodes = new Map(current.capabilities.map(capability => [matchCode(capability.code), capability.code]));
+  const incomingCapabilities = incoming.capabilities.map(capability => ({
+    ...capability,
+    code: currentCodes.get(matchCode(capability.code)) ?? capability.code,
+  }));
+  return {
+    capabilities: diffRecords("capability", current.capabilities, incoming.capabilities, diffCapability),
+    staffMembers: diffRecords("staff", current.staffMembers, incoming.staffMembers, (a, b) =>
+      diffStaffMember(a, b, current.capabilities, incomingCapabilities)
+    ),
+  };
+}
+
+/**
+ * Edits and additions from the file are taken, and everything missing from it
+ * is kept, since the file may cover only part of the team. Conflicts wait for
+ * a choice.
+ */
+export function defaultMergeChoice(status: MergeStatus): MergeChoice | null {
+  if (status === "conflict") return null;
+  return status === "added" || status === "changed" ? "incoming" : "current";
+}
+
+export function createMergeChoices(diff: TeamMergeDiff): MergeChoices {
+  return Object.fromEntries(
+    [...diff.capabilities, ...diff.staffMembers].map(row => [row.key, defaultMergeChoice(row.status)])
+  );
+}
+
+export function countUnresolved(diff: TeamMergeDiff, choices: MergeChoices) {
+  return [...diff.capabilities, ...diff.staffMembers].filter(row => !choices[row.key]).length;
+}
+
+/**
+ * Builds the merged team. Matched records keep the on-screen id whichever
+ * side wins, so staff and templates that point at them stay linked; incoming
+ * staff have their capability ids translated the same way. Capabilities that
+ * end up left out are removed from everyone who held them. Public holidays
+ * from the file are added where the date is new.
+ */
+export function applyTeamMerge(
+  current: TeamSetupData,
+  incoming: TeamSetupData,
+  diff: TeamMergeDiff,
+  choices: MergeChoices
+): TeamSetupData {
+  const usedCapabilityIds = new Set(current.capabilities.map(capability => capability.id));
+  const capabilityIdMap = new Map<string, string>();
+  const capabilities: Capability[] = [];
+
+  diff.capabilities.forEach(row => {
+    const takeIncoming = choices[row.key] === "incoming";
+    if (row.current && row.incoming) {
+      capabilityIdMap.set(row.incoming.id, row.current.id);
+      capabilities.push(takeIncoming ? { ...row.incoming, id: row.current.id } : row.current);
+    } else if (row.current && !takeIncoming) {
+      capabilities.push(row.current);
+    } else if (row.incoming && takeIncoming) {
+      const id = usedCapabilityIds.has(row.incoming.id) ? generateId() : row.incoming.id;
+      usedCapabilityIds.add(id);
+      capabilityIdMap.set(row.incoming.id, id);
+      capabilities.push({ ...row.incoming, id });
+    }
+  });
+
+  const keptCapabilityIds = new Set(capabilities.map(capability => capability.id));
+  const restrictCapabilities = (member: StaffMember): StaffMember => {
+    const capabilityIds = member.capabilityIds.filter(id => keptCapabilityIds.has(id));
+    return {
+      ...member,
+      capabilityIds,
+      proficiency: Object.fromEntries(capabilityIds.map(id => [id, getProficiency(member, id)])),
+    };
+  };
+  const translateCapabilities = (member: StaffMember): StaffMember => {
+    const capabilityIds = member.capabilityIds.flatMap(id => {
+      const mapped = capabilityIdMap.get(id);
+      return mapped ? [mapped] : [];
+    });
+    return {
+      ...member,
+      capabilityIds,
+      proficiency: Object.fromEntries(
+        member.capabilityIds.flatMap(id => {
+          const mapped = capabilityIdMap.get(id);
+          return mapped ? [[mapped, getProficiency(member, id)]] : [];
+        })
+      ),
+    };
+  };
+
+  const usedStaffIds = new Set(current.staffMembers.map(member => member.id));
+  const staffMembers: StaffMember[] = [];
+  diff.staffMembers.forEach(row => {
+    const takeIncoming = choices[row.key] === "incoming";
+    if (row.current && row.incoming) {
+      staffMembers.push(
+        takeIncoming ? { ...translateCapabilities(row.incoming), id: row.current.id } : row.current
+      );
+    } else if (row.current && !takeIncoming) {
+      staffMembers.push(row.current);
+    } else if (row.incoming && takeIncoming) {
+      const id = usedStaffIds.has(row.incoming.id) ? generateId() : row.incoming.id;
+      usedStaffIds.add(id);
+      staffMembers.push({ ...translateCapabilities(row.incoming), id });
+    }
+  });
+
+  const holidayDates = new Set(current.holidays.map(holiday => holiday.date));
+  const holidayIds = new Set(current.holidays.map(holiday => holiday.id));
+  const addedHolidays = incoming.holidays
+    .filter(holiday => !holidayDates.has(holiday.date))
+    .map(holiday => (holidayIds.has(holiday.id) ? { ...holiday, id: generateId() } : holiday));
+
+  return {
+    capabilities,
+    staffMembers: staffMembers.map(restrictCapabilities),
+    holidays: [...current.holidays, ...addedHolidays],
+  };
+}
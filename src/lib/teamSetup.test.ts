@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import {
+  clampCapacity,
+  createDefaultAvailability,
+  createDefaultTeamSetup,
+  getNextStaffCode,
+  normalizeTeamSetupData,
+  normalizeWipLimit,
+  parseCapacityPercent,
+  type StaffMember,
+} from "@/lib/teamSetup";
+
+function staff(code: string): StaffMember {
+  return {
+    id: code,
+    code,
+    name: code,
+    capacity: 1,
+    capabilityIds: [],
+    proficiency: {},
+    wipLimit: null,
+    availability: createDefaultAvailability(),
+  };
+}
+
+describe("capacity", () => {
+  it("clamps to 50–150%", () => {
+    expect([0.2, 0.8, 2].map(clampCapacity)).toEqual([0.5, 0.8, 1.5]);
+  });
+
+  it("reads a percentage, defaulting blank or non-numeric input to full time", () => {
+    expect(parseCapacityPercent("75")).toBe(0.75);
+    expect(parseCapacityPercent("300")).toBe(1.5);
+    expect(parseCapacityPercent("")).toBe(1);
+    expect(parseCapacityPercent("most")).toBe(1);
+  });
+});
+
+describe("getNextStaffCode", () => {
+  it("follows the highest numbered code", () => {
+    expect(getNextStaffCode([])).toBe("S1");
+    expect(getNextStaffCode([staff("S1"), staff("S3"), staff("LEAD")])).toBe("S4");
+  });
+});
+
+describe("createDefaultTeamSetup", () => {
+  it("starts a team with one capability and one person, already in normal form", () => {
+    const team = createDefaultTeamSetup();
+
+    expect(team.capabilities).toHaveLength(1);
+    expect(team.staffMembers.map(member => member.code)).toEqual(["S1"]);
+    expect(normalizeTeamSetupData(team)).toEqual(team);
+  });
+
+  it("returns a fresh copy each time", () => {
+    const team = createDefaultTeamSetup();
+    team.staffMembers[0].capabilityIds.push(team.capabilities[0].id);
+
+    expect(createDefaultTeamSetup().staffMembers[0].capabilityIds).toEqual([]);
+  });
+});
+
+describe("normalizeWipLimit", () => {
+  it("keeps whole limits of at least one and reads numeric text", () => {
+    expect(normalizeWipLimit(3)).toBe(3);
+    expect(normalizeWipLimit(2.7)).toBe(2);
+    expect(normalizeWipLimit(" 4 ")).toBe(4);
+  });
+
+  it("treats anything else as no limit", () => {
+    [0, -1, Infinity, "", "two", null, undefined, true].forEach(value => expect(normalizeWipLimit(value)).toBeNull());
+  });
+});
+
+describe("normalizeTeamSetupData", () => {
+  it("rejects data without capability and staff lists", () => {
+    expect(normalizeTeamSetupData(null)).toBeNull();
+    expect(normalizeTeamSetupData({ capabilities: [] })).toBeNull();
+  });
+
+  it("fills in what older files lack", () => {
+    const team = normalizeTeamSetupData({
+      capabilities: [{ id: "dev", code: "DEV", description: "Development" }],
+      staffMembers: [{ id: "s1", code: "S1", name: "Sam", capacity: 1, capabilityIds: ["dev"] }],
+    });
+
+    expect(team).toEqual({
+      capabilities: [{ id: "dev", code: "DEV", description: "Development", wipLimit: null }],
+      staffMembers: [
+        {
+          id: "s1",
+          code: "S1",
+          name: "Sam",
+          capacity: 1,
+          capabilityIds: ["dev"],
+          proficiency: { dev: "competent" },
+          wipLimit: null,
+          availability: createDefaultAvailability(),
+        },
+      ],
+      holidays: [],
+    });
+  });
+
+  it("clamps capacity, drops unknown capabilities and orders leave dates", () => {
+    const team = normalizeTeamSetupData({
+      capabilities: [{ id: "dev", code: "DEV", description: "Development", wipLimit: "2" }],
+      staffMembers: [
+        {
+          id: "s1",
+          code: "S1",
+          name: "Sam",
+          capacity: 3,
+          capabilityIds: ["dev", "ghost"],
+          proficiency: { dev: "expert", ghost: "expert" },
+          availability: {
+            timeZone: "Europe/London",
+            weeklyHours: [null, null, null, null, null, null, { start: 600, end: 540 }],
+            leave: [{ id: "l1", start: "2026-03-10", end: "2026-03-02" }, { start: "soon" }],
+          },
+        },
+      ],
+      holidays: [{ id: "h1", date: "2026-12-25", name: "Christmas" }, { date: "25/12" }],
+    });
+
+    expect(team?.capabilities[0].wipLimit).toBe(2);
+    expect(team?.staffMembers[0]).toMatchObject({
+      capacity: 1.5,
+      capabilityIds: ["dev"],
+      proficiency: { dev: "expert" },
+      availability: {
+        timeZone: "Europe/London",
+        weeklyHours: [null, null, null, null, null, null, null],
+        leave: [{ id: "l1", start: "2026-03-02", end: "2026-03-10" }],
+      },
+    });
+    expect(team?.holidays).toEqual([{ id: "h1", date: "2026-12-25", name: "Christmas" }]);
+  });
+});
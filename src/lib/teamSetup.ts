@@ -0,0 +1,397 @@
+import { generateId } from "@/lib/ids";
+import type { LoadFix } from "@/lib/setupFileSchema";
+import { DEFAULT_PROFICIENCY, PROFICIENCY_LEVELS, type ProficiencyLevel } from "@/lib/proficiency";
+
+export type Capability = {
+  id: string;
+  code: string;
+  description: string;
+  /** Most tasks of this capability in progress at once; null for no limit. */
+  wipLimit: number | null;
+};
+
+/** Working window in minutes after local midnight. */
+export type WorkingHours = {
+  start: number;
+  end: number;
+};
+
+/** Inclusive range of ISO dates (YYYY-MM-DD). */
+export type LeavePeriod = {
+  id: string;
+  start: string;
+  end: string;
+};
+
+export type StaffAvailability = {
+  timeZone: string;
+  /** Indexed by day of week, Sunday first; null marks a day off. */
+  weeklyHours: (WorkingHours | null)[];
+  leave: LeavePeriod[];
+};
+
+export type PublicHoliday = {
+  id: string;
+  date: string;
+  name: string;
+};
+
+export type StaffMember = {
+  id: string;
+  code: string;
+  name: string;
+  capacity: number;
+  capabilityIds: string[];
+  /** Level for each held capability, keyed by capability id; missing entries are competent. */
+  proficiency: Record<string, ProficiencyLevel>;
+  /** Most tasks this person has started but not finished; null for no limit. */
+  wipLimit: number | null;
+  availability: StaffAvailability;
+};
+
+export type TeamSetupData = {
+  capabilities: Capability[];
+  staffMembers: StaffMember[];
+  holidays: PublicHoliday[];
+};
+
+export const MIN_CAPACITY = 0.5;
+export const MAX_CAPACITY = 1.5;
+
+export function clampCapacity(capacity: number) {
+  return Math.min(Math.max(capacity, MIN_CAPACITY), MAX_CAPACITY);
+}
+
+/** Reads a capacity typed as a percentage; blank or non-numeric input means full time. */
+export function parseCapacityPercent(rawValue: string): number {
+  const value = Number(rawValue);
+  if (!rawValue.trim() || !Number.isFinite(value)) {
+    return 1;
+  }
+  return Math.round(clampCapacity(value / 100) * 100) / 100;
+}
+
+/** The code after the highest numbered staff code, e.g. S4 after S1 and S3. */
+export function getNextStaffCode(staffMembers: StaffMember[]) {
+  const numericValues = staffMembers
+    .map(member => parseInt(member.code.replace(/\D/g, ""), 10))
+    .filter(num => !Number.isNaN(num));
+  return `S${numericValues.length ? Math.max(...numericValues) + 1 : 1}`;
+}
+
+/** Reads a WIP limit; anything but a whole number of at least one means no limit. */
+export function normalizeWipLimit(value: unknown): number | null {
+  const limit = typeof value === "string" && value.trim() ? Number(value) : value;
+  return typeof limit === "number" && Number.isFinite(limit) && limit >= 1 ? Math.floor(limit) : null;
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function createDefaultAvailability(): StaffAvailability {
+  const weekday: WorkingHours = { start: 9 * 60, end: 17 * 60 };
+  return {
+    timeZone: "UTC",
+    weeklyHours: [null, weekday, weekday, weekday, weekday, weekday, null],
+    leave: [],
+  };
+}
+
+/** What a new team starts with: one capability and one staff member to edit. */
+export function createDefaultTeamSetup(): TeamSetupData {
+  return {
+    capabilities: [{ id: "default-capability", code: "C1", description: "Capability 1", wipLimit: null }],
+    staffMembers: [
+      {
+        id: "default-staff",
+        code: "S1",
+        name: "Staff one",
+        capacity: 1,
+        capabilityIds: [],
+        proficiency: {},
+        wipLimit: null,
+        availability: createDefaultAvailability(),
+      },
+    ],
+    holidays: [],
+  };
+}
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+function normalizeAvailability(raw: unknown, subject = "", fixes?: LoadFix[]): StaffAvailability {
+  const fallback = createDefaultAvailability();
+  if (!raw || typeof raw !== "object") {
+    fixes?.push({
+      action: "defaulted",
+      subject,
+      message: "No availability; set to Monday to Friday, 09:00–17:00 UTC.",
+    });
+    return fallback;
+  }
+
+  const availability = raw as Partial<Record<keyof StaffAvailability, unknown>>;
+  const hasWeek = Array.isArray(availability.weeklyHours) && availability.weeklyHours.length === 7;
+  if (!hasWeek) {
+    fixes?.push({
+      action: "defaulted",
+      subject,
+      message: "Weekly hours are not a list of seven days; set to Monday to Friday, 09:00–17:00.",
+    });
+  }
+  const weeklyHours = hasWeek
+    ? (availability.weeklyHours as unknown[]).map((rawHours, day) => {
+        const hours = rawHours as Partial<WorkingHours> | null;
+        if (
+          !hours ||
+          typeof hours.start !== "number" ||
+          typeof hours.end !== "number" ||
+          !(hours.start >= 0 && hours.end <= 24 * 60 && hours.start < hours.end)
+        ) {
+          if (hours) {
+            fixes?.push({
+              action: "defaulted",
+              subject,
+              message: `${DAY_NAMES[day]} hours are not a valid window; made a day off.`,
+            });
+          }
+          return null;
+        }
+        return { start: hours.start, end: hours.end };
+      })
+    : fallback.weeklyHours;
+
+  const leave = Array.isArray(availability.leave)
+    ? availability.leave.flatMap((rawPeriod, index) => {
+        const period = rawPeriod as Partial<LeavePeriod> | null;
+        if (
+          typeof period?.start !== "string" ||
+          typeof period.end !== "string" ||
+          !ISO_DATE_PATTERN.test(period.start) ||
+          !ISO_DATE_PATTERN.test(period.end)
+        ) {
+          fixes?.push({
+            action: "dropped",
+            subject,
+            message: `Leave ${index + 1} does not have YYYY-MM-DD start and end dates.`,
+          });
+          return [];
+        }
+        const id = typeof period.id === "string" && period.id ? period.id : generateId();
+        if (id !== period.id) {
+          fixes?.push({ action: "regenerated", subject, message: `Leave ${index + 1} had no id; generated ${id}.` });
+        }
+        return [
+          {
+            id,
+            start: period.start <= period.end ? period.start : period.end,
+            end: period.start <= period.end ? period.end : period.start,
+          },
+        ];
+      })
+    : [];
+
+  const hasTimeZone = typeof availability.timeZone === "string" && availability.timeZone.trim();
+  if (!hasTimeZone) {
+    fixes?.push({ action: "defaulted", subject, message: `No time zone; set to ${fallback.timeZone}.` });
+  }
+
+  return {
+    timeZone: hasTimeZone ? (availability.timeZone as string) : fallback.timeZone,
+    weeklyHours,
+    leave,
+  };
+}
+
+function normalizeHolidays(raw: unknown, fixes?: LoadFix[]): PublicHoliday[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  return raw.flatMap((rawHoliday, index) => {
+    const holiday = rawHoliday as Partial<PublicHoliday> | null;
+    const subject = `Holiday ${index + 1}`;
+    if (typeof holiday?.date !== "string" || !ISO_DATE_PATTERN.test(holiday.date)) {
+      fixes?.push({ action: "dropped", subject, message: "The date is not YYYY-MM-DD." });
+      return [];
+    }
+    const id = typeof holiday.id === "string" && holiday.id ? holiday.id : generateId();
+    if (id !== holiday.id) {
+      fixes?.push({ action: "regenerated", subject: holiday.date, message: `No id; generated ${id}.` });
+    }
+    return [
+      {
+        id,
+        date: holiday.date,
+        name: typeof holiday.name === "string" ? holiday.name : "",
+      },
+    ];
+  });
+}
+
+/** Keeps levels for held capabilities only; files saved before levels existed load as competent. */
+function normalizeProficiency(
+  raw: unknown,
+  capabilityIds: string[],
+  subject = "",
+  fixes?: LoadFix[]
+): Record<string, ProficiencyLevel> {
+  const hasLevels = Boolean(raw) && typeof raw === "object";
+  const candidate = hasLevels ? (raw as Record<string, unknown>) : {};
+  if (!hasLevels && capabilityIds.length > 0) {
+    fixes?.push({
+      action: "defaulted",
+      subject,
+      message: "No proficiency levels; every held capability set to competent.",
+    });
+  }
+  Object.keys(candidate)
+    .filter(capabilityId => !capabilityIds.includes(capabilityId))
+    .forEach(capabilityId =>
+      fixes?.push({
+        action: "dropped",
+        subject,
+        message: `Proficiency for capability id ${capabilityId}, which is not held.`,
+      })
+    );
+  return Object.fromEntries(
+    capabilityIds.map(capabilityId => {
+      const level = candidate[capabilityId];
+      const valid = PROFICIENCY_LEVELS.some(entry => entry.level === level);
+      if (!valid && hasLevels) {
+        fixes?.push({
+          action: "defaulted",
+          subject,
+          message: `Proficiency "${String(level)}" for capability id ${capabilityId} is not a level; set to competent.`,
+        });
+      }
+      return [capabilityId, valid ? (level as ProficiencyLevel) : DEFAULT_PROFICIENCY];
+    })
+  );
+}
+
+/** Reports a WIP limit that did not survive `normalizeWipLimit` unchanged; an absent limit is fine. */
+function reportWipLimit(raw: unknown, limit: number | null, subject: string, fixes?: LoadFix[]) {
+  if (raw === undefined || raw === null || raw === "" || raw === limit || Number(raw) === limit) {
+    return;
+  }
+  fixes?.push(
+    limit === null
+      ? {
+          action: "defaulted",
+          subject,
+          message: `WIP limit ${JSON.stringify(raw)} is not a whole number of at least 1; set to no limit.`,
+        }
+      : { action: "clamped", subject, message: `WIP limit ${String(raw)} rounded down to ${limit}.` }
+  );
+}
+
+function reportText(value: unknown, field: string, subject: string, fixes?: LoadFix[]) {
+  if (typeof value !== "string") {
+    fixes?.push({ action: "defaulted", subject, message: `No ${field}; left blank.` });
+  }
+}
+
+/**
+ * Reads team setup data from a file or storage. Pass `fixes` to collect every
+ * value that was defaulted, clamped, dropped or regenerated along the way.
+ */
+export function normalizeTeamSetupData(raw: unknown, fixes?: LoadFix[]): TeamSetupData | null {
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+
+  const maybeData = raw as Partial<TeamSetupData> & {
+    capabilities?: unknown;
+    staffMembers?: unknown;
+  };
+
+  if (!Array.isArray(maybeData.capabilities) || !Array.isArray(maybeData.staffMembers)) {
+    return null;
+  }
+
+  const capabilities: Capability[] = maybeData.capabilities.map((rawCapability, index) => {
+    const capability = rawCapability as Partial<Capability> | undefined;
+    const subject =
+      typeof capability?.code === "string" && capability.code.trim()
+        ? capability.code.trim()
+        : `Capability ${index + 1}`;
+    const storedId = typeof capability?.id === "string" ? capability.id.trim() : "";
+    const id = storedId || generateId();
+    if (!storedId) {
+      fixes?.push({ action: "regenerated", subject, message: `No id; generated ${id}.` });
+    }
+    reportText(capability?.code, "code", subject, fixes);
+    reportText(capability?.description, "description", subject, fixes);
+    const wipLimit = normalizeWipLimit(capability?.wipLimit);
+    reportWipLimit(capability?.wipLimit, wipLimit, subject, fixes);
+    return {
+      id,
+      code: typeof capability?.code === "string" ? capability.code : "",
+      description: typeof capability?.description === "string" ? capability.description : "",
+      wipLimit,
+    } as Capability;
+  });
+
+  const validCapabilityIds = new Set(capabilities.map(capability => capability.id));
+
+  const staffMembers: StaffMember[] = maybeData.staffMembers.map((rawMember, index) => {
+    const member = rawMember as Partial<StaffMember> | undefined;
+    const subject =
+      typeof member?.code === "string" && member.code.trim() ? member.code.trim() : `Staff member ${index + 1}`;
+    const storedId = typeof member?.id === "string" ? member.id.trim() : "";
+    const id = storedId || generateId();
+    if (!storedId) {
+      fixes?.push({ action: "regenerated", subject, message: `No id; generated ${id}.` });
+    }
+    reportText(member?.code, "code", subject, fixes);
+    reportText(member?.name, "name", subject, fixes);
+
+    const rawCapacity =
+      typeof member?.capacity === "number" && Number.isFinite(member.capacity)
+        ? member.capacity
+        : 1;
+    const normalizedCapacity = clampCapacity(rawCapacity);
+    if (rawCapacity !== member?.capacity) {
+      fixes?.push({
+        action: "defaulted",
+        subject,
+        message: `Capacity ${JSON.stringify(member?.capacity) ?? "missing"} is not a number; set to 1.`,
+      });
+    } else if (normalizedCapacity !== rawCapacity) {
+      fixes?.push({ action: "clamped", subject, message: `Capacity ${rawCapacity} clamped to ${normalizedCapacity}.` });
+    }
+
+    if (!Array.isArray(member?.capabilityIds)) {
+      fixes?.push({ action: "defaulted", subject, message: "No capability list; holds no capabilities." });
+    }
+    const capabilityIds = Array.isArray(member?.capabilityIds)
+      ? member.capabilityIds.filter(capabilityId => {
+          const known = typeof capabilityId === "string" && validCapabilityIds.has(capabilityId);
+          if (!known) {
+            fixes?.push({ action: "dropped", subject, message: `Capability id ${String(capabilityId)} is unknown.` });
+          }
+          return known;
+        })
+      : [];
+
+    const wipLimit = normalizeWipLimit(member?.wipLimit);
+    reportWipLimit(member?.wipLimit, wipLimit, subject, fixes);
+
+    return {
+      id,
+      code: typeof member?.code === "string" ? member.code : "",
+      name: typeof member?.name === "string" ? member.name : "",
+      capacity: normalizedCapacity,
+      capabilityIds,
+      proficiency: normalizeProficiency(member?.proficiency, capabilityIds, subject, fixes),
+      wipLimit,
+      availability: normalizeAvailability(member?.availability, subject, fixes),
+    } as StaffMember;
+  });
+
+  return {
+    capabilities,
+    staffMembers,
+    holidays: normalizeHolidays((raw as { holidays?: unknown }).holidays, fixes),
+  } as TeamSetupData;
+}
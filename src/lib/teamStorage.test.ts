@@ -0,0 +1,141 @@
+import { describe, expect, it } from "vitest";
+import {
+  arrivalSetupStorageKey,
+  copySavedTeam,
+  createCopyTeamCode,
+  deleteSavedTeam,
+  listSavedTeams,
+  renameSavedTeam,
+  teamSetupStorageKey,
+  templateSetupStorageKey,
+} from "@/lib/teamStorage";
+
+class MemoryStorage implements Storage {
+  private readonly items = new Map<string, string>();
+
+  get length() {
+    return this.items.size;
+  }
+
+  clear() {
+    this.items.clear();
+  }
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number) {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+}
+
+function read(storage: Storage, key: string) {
+  const raw = storage.getItem(key);
+  return raw ? (JSON.parse(raw) as Record<string, unknown>) : null;
+}
+
+function saveTeam(storage: Storage, teamCode: string, teamName: string, savedAt: string) {
+  storage.setItem(
+    teamSetupStorageKey(teamCode),
+    JSON.stringify({ teamCode, teamName, capabilities: [{ id: "dev" }], staffMembers: [{}, {}], savedAt })
+  );
+  storage.setItem(templateSetupStorageKey(teamCode), JSON.stringify({ teamCode, teamName, templates: [] }));
+  storage.setItem(arrivalSetupStorageKey(teamCode), JSON.stringify({ teamCode, teamName, arrivals: {} }));
+}
+
+describe("listSavedTeams", () => {
+  it("lists saved teams, most recently saved first", () => {
+    const storage = new MemoryStorage();
+    saveTeam(storage, "alpha", "Alpha", "2026-01-01T00:00:00.000Z");
+    saveTeam(storage, "beta", "Beta", "2026-02-01T00:00:00.000Z");
+    storage.setItem("unrelated", "{}");
+
+    expect(listSavedTeams(storage)).toEqual([
+      { teamCode: "beta", teamName: "Beta", memberCount: 2, capabilityCount: 1, savedAt: "2026-02-01T00:00:00.000Z" },
+      { teamCode: "alpha", teamName: "Alpha", memberCount: 2, capabilityCount: 1, savedAt: "2026-01-01T00:00:00.000Z" },
+    ]);
+  });
+
+  it("skips entries that are not valid JSON", () => {
+    const storage = new MemoryStorage();
+    storage.setItem(teamSetupStorageKey("broken"), "{not json");
+
+    expect(listSavedTeams(storage)).toEqual([]);
+  });
+});
+
+describe("copySavedTeam", () => {
+  it("copies the setup, templates and arrivals under the new identity", () => {
+    const storage = new MemoryStorage();
+    saveTeam(storage, "alpha", "Alpha", "2026-01-01T00:00:00.000Z");
+
+    expect(copySavedTeam(storage, "alpha", "gamma", "Gamma")).toBe(true);
+    expect(read(storage, teamSetupStorageKey("gamma"))).toMatchObject({ teamCode: "gamma", teamName: "Gamma" });
+    expect(read(storage, templateSetupStorageKey("gamma"))).toMatchObject({ teamCode: "gamma", templates: [] });
+    expect(read(storage, arrivalSetupStorageKey("gamma"))).toMatchObject({ teamCode: "gamma", arrivals: {} });
+    expect(read(storage, teamSetupStorageKey("alpha"))).toMatchObject({ teamCode: "alpha" });
+  });
+
+  it("refuses to overwrite an existing team", () => {
+    const storage = new MemoryStorage();
+    saveTeam(storage, "alpha", "Alpha", "2026-01-01T00:00:00.000Z");
+    saveTeam(storage, "beta", "Beta", "2026-02-01T00:00:00.000Z");
+
+    expect(copySavedTeam(storage, "alpha", "beta", "Beta")).toBe(false);
+    expect(read(storage, teamSetupStorageKey("beta"))).toMatchObject({ teamName: "Beta" });
+  });
+});
+
+describe("renameSavedTeam", () => {
+  it("updates the name in place when the code is unchanged", () => {
+    const storage = new MemoryStorage();
+    saveTeam(storage, "alpha", "Alpha", "2026-01-01T00:00:00.000Z");
+
+    expect(renameSavedTeam(storage, "alpha", "alpha", "Renamed")).toBe(true);
+    expect(read(storage, teamSetupStorageKey("alpha"))).toMatchObject({ teamName: "Renamed" });
+    expect(read(storage, templateSetupStorageKey("alpha"))).toMatchObject({ teamName: "Renamed" });
+  });
+
+  it("moves every entry when the code changes", () => {
+    const storage = new MemoryStorage();
+    saveTeam(storage, "alpha", "Alpha", "2026-01-01T00:00:00.000Z");
+
+    expect(renameSavedTeam(storage, "alpha", "omega", "Omega")).toBe(true);
+    expect(storage.getItem(teamSetupStorageKey("alpha"))).toBeNull();
+    expect(storage.getItem(templateSetupStorageKey("alpha"))).toBeNull();
+    expect(storage.getItem(arrivalSetupStorageKey("alpha"))).toBeNull();
+    expect(read(storage, arrivalSetupStorageKey("omega"))).toMatchObject({ teamCode: "omega", teamName: "Omega" });
+    expect(read(storage, teamSetupStorageKey("omega"))).toMatchObject({ teamCode: "omega", teamName: "Omega" });
+  });
+});
+
+describe("deleteSavedTeam", () => {
+  it("removes the setup, the templates and the arrivals", () => {
+    const storage = new MemoryStorage();
+    saveTeam(storage, "alpha", "Alpha", "2026-01-01T00:00:00.000Z");
+
+    deleteSavedTeam(storage, "alpha");
+
+    expect(storage.length).toBe(0);
+  });
+});
+
+describe("createCopyTeamCode", () => {
+  it("picks the first free copy suffix", () => {
+    const storage = new MemoryStorage();
+    saveTeam(storage, "alpha", "Alpha", "2026-01-01T00:00:00.000Z");
+    expect(createCopyTeamCode(storage, "alpha")).toBe("alpha-copy");
+
+    saveTeam(storage, "alpha-copy", "Alpha", "2026-01-01T00:00:00.000Z");
+    expect(createCopyTeamCode(storage, "alpha")).toBe("alpha-copy-2");
+  });
+});
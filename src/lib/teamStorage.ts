@@ -0,0 +1,130 @@
+const TEAM_SETUP_PREFIX = "team-setup-";
+const TEMPLATE_SETUP_PREFIX = "template-setup-";
+const ARRIVAL_SETUP_PREFIX = "arrival-setup-";
+
+export function teamSetupStorageKey(teamCode: string) {
+  return `${TEAM_SETUP_PREFIX}${teamCode}`;
+}
+
+export function templateSetupStorageKey(teamCode: string) {
+  return `${TEMPLATE_SETUP_PREFIX}${teamCode}`;
+}
+
+export function arrivalSetupStorageKey(teamCode: string) {
+  return `${ARRIVAL_SETUP_PREFIX}${teamCode}`;
+}
+
+/** Every entry saved for one team, keyed by its team code. */
+const TEAM_STORAGE_KEYS = [teamSetupStorageKey, templateSetupStorageKey, arrivalSetupStorageKey];
+
+export type SavedTeamSummary = {
+  teamCode: string;
+  teamName: string;
+  memberCount: number;
+  capabilityCount: number;
+  savedAt: string | null;
+};
+
+function readJson(storage: Storage, key: string): Record<string, unknown> | null {
+  try {
+    const raw = storage.getItem(key);
+    const parsed = raw ? (JSON.parse(raw) as unknown) : null;
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Lists every team with an auto-saved setup, most recently saved first. */
+export function listSavedTeams(storage: Storage): SavedTeamSummary[] {
+  const teams: SavedTeamSummary[] = [];
+
+  for (let index = 0; index < storage.length; index += 1) {
+    const key = storage.key(index);
+    if (!key?.startsWith(TEAM_SETUP_PREFIX)) {
+      continue;
+    }
+
+    const teamCode = key.slice(TEAM_SETUP_PREFIX.length);
+    const data = readJson(storage, key);
+    if (!teamCode || !data) {
+      continue;
+    }
+
+    teams.push({
+      teamCode,
+      teamName: typeof data.teamName === "string" ? data.teamName : "",
+      memberCount: Array.isArray(data.staffMembers) ? data.staffMembers.length : 0,
+      capabilityCount: Array.isArray(data.capabilities) ? data.capabilities.length : 0,
+      savedAt: typeof data.savedAt === "string" ? data.savedAt : null,
+    });
+  }
+
+  return teams.sort(
+    (a, b) => (b.savedAt ?? "").localeCompare(a.savedAt ?? "") || a.teamCode.localeCompare(b.teamCode)
+  );
+}
+
+/**
+ * Copies a saved team's setup, templates and arrivals to another team code,
+ * updating the identity stored inside each entry. Returns false if the target
+ * exists.
+ */
+export function copySavedTeam(
+  storage: Storage,
+  fromCode: string,
+  toCode: string,
+  toName: string
+): boolean {
+  if (!toCode || storage.getItem(teamSetupStorageKey(toCode)) !== null) {
+    return false;
+  }
+
+  const savedAt = new Date().toISOString();
+  TEAM_STORAGE_KEYS.forEach(storageKey => {
+    const data = readJson(storage, storageKey(fromCode));
+    if (data) {
+      storage.setItem(
+        storageKey(toCode),
+        JSON.stringify({ ...data, teamCode: toCode, teamName: toName, savedAt }, null, 2)
+      );
+    }
+  });
+  return true;
+}
+
+export function deleteSavedTeam(storage: Storage, teamCode: string) {
+  TEAM_STORAGE_KEYS.forEach(storageKey => storage.removeItem(storageKey(teamCode)));
+}
+
+/** Renames a saved team, moving its entries when the team code changes. */
+export function renameSavedTeam(
+  storage: Storage,
+  teamCode: string,
+  nextCode: string,
+  nextName: string
+): boolean {
+  if (nextCode === teamCode) {
+    TEAM_STORAGE_KEYS.forEach(storageKey => {
+      const data = readJson(storage, storageKey(teamCode));
+      if (data) {
+        storage.setItem(storageKey(teamCode), JSON.stringify({ ...data, teamName: nextName }, null, 2));
+      }
+    });
+    return true;
+  }
+
+  if (!copySavedTeam(storage, teamCode, nextCode, nextName)) {
+    return false;
+  }
+  deleteSavedTeam(storage, teamCode);
+  return true;
+}
+
+export function createCopyTeamCode(storage: Storage, teamCode: string) {
+  let candidate = `${teamCode}-copy`;
+  for (let suffix = 2; storage.getItem(teamSetupStorageKey(candidate)) !== null; suffix += 1) {
+    candidate = `${teamCode}-copy-${suffix}`;
+  }
+  return candidate;
+}
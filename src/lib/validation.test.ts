@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import type { Capability, StaffMember } from "@/lib/teamSetup";
+import { validateProject } from "@/lib/validation";
+import type { TemplateTask, WorkflowTemplate } from "@/lib/workflowTemplates";
+
+const capabilities: Capability[] = [
+  { id: "dev", code: "DEV", description: "Development", wipLimit: null },
+  { id: "qa", code: "QA", description: "Testing", wipLimit: null },
+];
+
+function staff(capabilityIds: string[]): StaffMember {
+  return {
+    id: "s1",
+    code: "S1",
+    name: "Sam",
+    capacity: 1,
+    capabilityIds,
+    proficiency: {},
+    wipLimit: null,
+    availability: { timeZone: "UTC", weeklyHours: [], leave: [] },
+  };
+}
+
+function task(id: string, capabilityId: string): TemplateTask {
+  return {
+    id,
+    seqNumber: 10,
+    task: id,
+    estimateMinutes: 60,
+    uncertainty: null,
+    capabilityId,
+    predecessorIds: null,
+  };
+}
+
+function template(tasks: TemplateTask[]): WorkflowTemplate {
+  return { key: "feature", title: "Feature", priority: 0, preempts: false, contextSwitchMinutes: 0, tasks };
+}
+
+describe("validateProject", () => {
+  it("reports nothing when every task is staffed", () => {
+    const issues = validateProject({
+      capabilities,
+      staffMembers: [staff(["dev", "qa"])],
+      templates: [template([task("build", "dev"), task("test", "qa")])],
+    });
+    expect(issues).toEqual([]);
+  });
+
+  it("reports empty templates", () => {
+    const issues = validateProject({ capabilities, staffMembers: [staff(["dev"])], templates: [template([])] });
+    expect(issues.map(issue => issue.id)).toEqual(["empty-template:feature"]);
+  });
+
+  it("reports tasks without a capability or with one outside the team", () => {
+    const issues = validateProject({
+      capabilities,
+      staffMembers: [staff(["dev"])],
+      templates: [template([task("build", ""), task("deploy", "ops")])],
+    });
+    expect(issues.map(issue => issue.id)).toEqual([
+      "missing-capability:feature:build",
+      "orphaned-capability:feature:deploy",
+    ]);
+    expect(issues.every(issue => issue.scope === "templates")).toBe(true);
+  });
+
+  it("reports capabilities the templates need but nobody holds", () => {
+    const issues = validateProject({
+      capabilities,
+      staffMembers: [staff(["dev"])],
+      templates: [template([task("build", "dev"), task("test", "qa")])],
+    });
+    expect(issues).toEqual([
+      {
+        id: "unstaffed-capability:qa",
+        scope: "team",
+        message: "No staff member holds QA, but workflow templates need it.",
+      },
+    ]);
+  });
+
+  it("ignores unstaffed capabilities no template uses", () => {
+    const issues = validateProject({
+      capabilities,
+      staffMembers: [staff(["dev"])],
+      templates: [template([task("build", "dev")])],
+    });
+    expect(issues).toEqual([]);
+  });
+});
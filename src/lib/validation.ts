@@ -0,0 +1,80 @@
+import type { Capability, StaffMember } from "@/lib/teamSetup";
+import type { WorkflowTemplate } from "@/lib/workflowTemplates";
+
+export type ValidationIssue = {
+  id: string;
+  /** "team" issues are fixed in the team setup, "templates" issues in the workflow templates. */
+  scope: "team" | "templates";
+  message: string;
+};
+
+type ValidationInput = {
+  capabilities: Capability[];
+  staffMembers: StaffMember[];
+  templates: WorkflowTemplate[];
+};
+
+function describeCapability(capability: Capability) {
+  return capability.code || capability.description || "Unnamed capability";
+}
+
+function describeTemplate(template: WorkflowTemplate) {
+  return template.title.trim() || "Untitled template";
+}
+
+/**
+ * Checks that the templates and the team fit together: every task points to
+ * an existing capability, every capability a task needs is held by someone,
+ * and no template is empty.
+ */
+export function validateProject({
+  capabilities,
+  staffMembers,
+  templates,
+}: ValidationInput): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const capabilitiesById = new Map(capabilities.map(capability => [capability.id, capability]));
+  const heldCapabilityIds = new Set(staffMembers.flatMap(member => member.capabilityIds));
+  const usedCapabilityIds = new Set<string>();
+
+  templates.forEach(template => {
+    if (template.tasks.length === 0) {
+      issues.push({
+        id: `empty-template:${template.key}`,
+        scope: "templates",
+        message: `${describeTemplate(template)} has no tasks.`,
+      });
+    }
+
+    template.tasks.forEach(task => {
+      const label = `${describeTemplate(template)} task ${task.seqNumber}${task.task ? ` “${task.task}”` : ""}`;
+      if (!task.capabilityId) {
+        issues.push({
+          id: `missing-capability:${template.key}:${task.id}`,
+          scope: "templates",
+          message: `${label} has no capability assigned.`,
+        });
+      } else if (!capabilitiesById.has(task.capabilityId)) {
+        issues.push({
+          id: `orphaned-capability:${template.key}:${task.id}`,
+          scope: "templates",
+          message: `${label} refers to a capability that is not part of this team.`,
+        });
+      } else {
+        usedCapabilityIds.add(task.capabilityId);
+      }
+    });
+  });
+
+  capabilities.forEach(capability => {
+    if (usedCapabilityIds.has(capability.id) && !heldCapabilityIds.has(capability.id)) {
+      issues.push({
+        id: `unstaffed-capability:${capability.id}`,
+        scope: "team",
+        message: `No staff member holds ${describeCapability(capability)}, but workflow templates need it.`,
+      });
+    }
+  });
+
+  return issues;
+}
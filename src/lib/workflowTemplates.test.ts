@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  createDefaultTemplates,
+  createTemplateKey,
+  getDefaultScheduling,
+  sanitizeTemplates,
+  TEMPLATE_DEFINITIONS,
+} from "@/lib/workflowTemplates";
+
+describe("createTemplateKey", () => {
+  it("derives a key from the title and avoids keys in use", () => {
+    const templates = createDefaultTemplates();
+
+    expect(createTemplateKey("  Release / Hotfix ", templates)).toBe("release-hotfix");
+    expect(createTemplateKey("Incident", templates)).toBe("incident-2");
+    expect(createTemplateKey("???", [])).toBe("template");
+  });
+});
+
+describe("getDefaultScheduling", () => {
+  it("uses the built-in template's scheduling, else normal priority", () => {
+    expect(getDefaultScheduling("incident")).toEqual({ priority: 2, preempts: true, contextSwitchMinutes: 15 });
+    expect(getDefaultScheduling("custom")).toEqual({ priority: 0, preempts: false, contextSwitchMinutes: 15 });
+  });
+});
+
+describe("sanitizeTemplates", () => {
+  it("reads the list format, renumbering tasks and repairing fields", () => {
+    const templates = sanitizeTemplates([
+      {
+        key: "spike",
+        title: "Spike",
+        priority: 1.4,
+        contextSwitchMinutes: -5,
+        tasks: [
+          { id: "b", seqNumber: 50, task: "Write up", estimate: "1:30", capabilityId: "qa" },
+          { id: "a", seqNumber: 5, task: "Explore", estimateMinutes: 59.6, predecessorIds: [], uncertainty: {} },
+        ],
+      },
+      { key: "spike", title: "Spike" },
+      "not a template",
+    ]);
+
+    expect(templates).toEqual([
+      {
+        key: "spike",
+        title: "Spike",
+        priority: 1,
+        preempts: false,
+        contextSwitchMinutes: 0,
+        tasks: [
+          {
+            id: "a",
+            seqNumber: 10,
+            task: "Explore",
+            estimateMinutes: 60,
+            uncertainty: { distribution: "pert", optimisticMinutes: null, pessimisticMinutes: null },
+            capabilityId: "",
+            predecessorIds: [],
+          },
+          {
+            id: "b",
+            seqNumber: 20,
+            task: "Write up",
+            estimateMinutes: 90,
+            uncertainty: null,
+            capabilityId: "qa",
+            predecessorIds: null,
+          },
+        ],
+      },
+      { key: "spike-2", title: "Spike", priority: 0, preempts: false, contextSwitchMinutes: 15, tasks: [] },
+    ]);
+  });
+
+  it("reads the older object keyed by the built-in templates", () => {
+    const templates = sanitizeTemplates({ defect: [{ id: "t1", seqNumber: 10, task: "Fix", capabilityId: "dev" }] });
+
+    expect(templates.map(template => template.key)).toEqual(TEMPLATE_DEFINITIONS.map(definition => definition.key));
+    expect(templates[1].tasks.map(task => task.task)).toEqual(["Fix"]);
+    expect(sanitizeTemplates(null)).toEqual(createDefaultTemplates());
+  });
+});
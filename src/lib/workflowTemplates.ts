@@ -0,0 +1,334 @@
+import { parseDuration } from "@/lib/duration";
+import { generateId } from "@/lib/ids";
+import type { LoadFix } from "@/lib/setupFileSchema";
+import type { EstimateDistribution } from "@/lib/simulation/distributions";
+
+export const TEMPLATE_DEFINITIONS = [
+  { key: "enhancement", title: "Enhancement Template", priority: 0, preempts: false, contextSwitchMinutes: 15 },
+  { key: "defect", title: "Defect Template", priority: 0, preempts: false, contextSwitchMinutes: 15 },
+  { key: "incident", title: "Incident Template", priority: 2, preempts: true, contextSwitchMinutes: 15 },
+];
+
+export type TemplateKey = string;
+
+export type ThreePointEstimate = {
+  distribution: EstimateDistribution;
+  optimisticMinutes: number | null;
+  pessimisticMinutes: number | null;
+};
+
+export type TemplateTask = {
+  id: string;
+  seqNumber: number;
+  task: string;
+  /** Estimated effort in minutes, or null while no valid estimate is entered. */
+  estimateMinutes: number | null;
+  /** Optional spread around `estimateMinutes`, which is used as the most likely value. */
+  uncertainty: ThreePointEstimate | null;
+  capabilityId: string;
+  /** Tasks that must finish first; null follows the previous task in sequence order. */
+  predecessorIds: string[] | null;
+};
+
+export type TemplateScheduling = {
+  /** Ready tasks of higher-priority templates are picked up first. */
+  priority: number;
+  /** Whether this template's tasks interrupt lower-priority work in progress. */
+  preempts: boolean;
+  /** Minutes added to an interrupted task when it is resumed. */
+  contextSwitchMinutes: number;
+};
+
+export type WorkflowTemplate = TemplateScheduling & {
+  key: TemplateKey;
+  title: string;
+  tasks: TemplateTask[];
+};
+
+export function normalizeSequence(tasks: TemplateTask[]): TemplateTask[] {
+  return tasks
+    .map((task, index) => ({
+      ...task,
+      seqNumber: (index + 1) * 10,
+    }))
+    .sort((a, b) => a.seqNumber - b.seqNumber);
+}
+
+function sanitizeEstimate(candidate: { estimateMinutes?: unknown; estimate?: unknown }) {
+  if (typeof candidate.estimateMinutes === "number" && Number.isFinite(candidate.estimateMinutes)) {
+    return Math.max(0, Math.round(candidate.estimateMinutes));
+  }
+
+  // Files saved before estimates were parsed hold the free-text `estimate` string.
+  if (typeof candidate.estimate === "string") {
+    const parsed = parseDuration(candidate.estimate);
+    return parsed.ok ? parsed.minutes : null;
+  }
+
+  return null;
+}
+
+function sanitizeUncertainty(input: unknown): ThreePointEstimate | null {
+  if (!input || typeof input !== "object") {
+    return null;
+  }
+
+  const candidate = input as Partial<Record<keyof ThreePointEstimate, unknown>>;
+  const toMinutes = (value: unknown) =>
+    typeof value === "number" && Number.isFinite(value) ? Math.max(0, Math.round(value)) : null;
+
+  return {
+    distribution: candidate.distribution === "triangular" ? "triangular" : "pert",
+    optimisticMinutes: toMinutes(candidate.optimisticMinutes),
+    pessimisticMinutes: toMinutes(candidate.pessimisticMinutes),
+  };
+}
+
+/** Lists what `sanitizeTask` had to change about one stored task. */
+function reportTaskFixes(
+  candidate: Partial<Record<keyof TemplateTask | "estimate", unknown>>,
+  task: TemplateTask,
+  subject: string,
+  fixes: LoadFix[]
+) {
+  const fix = (action: LoadFix["action"], message: string) => fixes.push({ action, subject, message });
+  // Negative minutes are clamped to 0; anything else only loses its fraction.
+  const describeMinutes = (value: number, result: number) =>
+    `${value} minutes ${value < 0 ? "clamped" : "rounded"} to ${result}`;
+
+  if (candidate.id !== task.id) {
+    fix("regenerated", `No id; generated ${task.id}.`);
+  }
+  if (typeof candidate.seqNumber !== "number") {
+    fix("defaulted", "No sequence number; placed first.");
+  }
+  if (typeof candidate.task !== "string") {
+    fix("defaulted", "No task name; left blank.");
+  }
+  if (typeof candidate.capabilityId !== "string") {
+    fix("defaulted", "No capability; left unassigned.");
+  }
+
+  const { estimateMinutes, estimate, uncertainty, predecessorIds } = candidate;
+  if (typeof estimateMinutes === "number" && Number.isFinite(estimateMinutes)) {
+    if (estimateMinutes !== task.estimateMinutes) {
+      fix("clamped", `Estimate ${describeMinutes(estimateMinutes, task.estimateMinutes ?? 0)}.`);
+    }
+  } else if (typeof estimate === "string" && task.estimateMinutes === null) {
+    fix("defaulted", `Estimate "${estimate}" is not a duration; left empty.`);
+  } else if (estimateMinutes !== undefined && estimateMinutes !== null && typeof estimate !== "string") {
+    fix("defaulted", `Estimate ${JSON.stringify(estimateMinutes)} is not a number of minutes; left empty.`);
+  }
+
+  if (uncertainty && typeof uncertainty === "object" && task.uncertainty) {
+    const range = uncertainty as Partial<Record<keyof ThreePointEstimate, unknown>>;
+    if (range.distribution !== task.uncertainty.distribution) {
+      fix("defaulted", `Distribution ${JSON.stringify(range.distribution)} is not pert or triangular; set to pert.`);
+    }
+    (["optimisticMinutes", "pessimisticMinutes"] as const).forEach(field => {
+      const value = range[field];
+      const result = task.uncertainty?.[field] ?? null;
+      const label = field === "optimisticMinutes" ? "Minimum" : "Maximum";
+      if (value === undefined || value === null || value === result) {
+        return;
+      }
+      if (typeof value === "number" && result !== null) {
+        fix("clamped", `${label} ${describeMinutes(value, result)}.`);
+      } else {
+        fix("defaulted", `${label} ${JSON.stringify(value)} is not a number of minutes; left empty.`);
+      }
+    });
+  } else if (uncertainty !== undefined && uncertainty !== null) {
+    fix("defaulted", "The range is not an object; removed.");
+  }
+
+  if (Array.isArray(predecessorIds)) {
+    predecessorIds
+      .filter(id => typeof id !== "string")
+      .forEach(id => fix("dropped", `Dependency ${JSON.stringify(id)} is not a task id.`));
+  } else if (predecessorIds !== undefined && predecessorIds !== null) {
+    fix("defaulted", "Dependencies are not a list; the task follows the previous one.");
+  }
+}
+
+function sanitizeTasks(input: unknown, templateSubject = "", fixes?: LoadFix[]): TemplateTask[] {
+  if (!Array.isArray(input)) {
+    if (input !== undefined) {
+      fixes?.push({ action: "defaulted", subject: templateSubject, message: "Tasks are not a list; left empty." });
+    }
+    return [];
+  }
+
+  const sanitized = input
+    .map((item, index) => {
+      const subject = `${templateSubject} / ${
+        item && typeof item === "object" && typeof item.task === "string" && item.task.trim()
+          ? item.task.trim()
+          : `Task ${index + 1}`
+      }`;
+      if (!item || typeof item !== "object") {
+        fixes?.push({ action: "dropped", subject, message: "The entry is not a task." });
+        return null;
+      }
+
+      const candidate = item as Partial<TemplateTask> & { estimate?: unknown };
+      const task = {
+        id:
+          typeof candidate.id === "string" && candidate.id.trim().length > 0
+            ? candidate.id
+            : generateId(),
+        seqNumber:
+          typeof candidate.seqNumber === "number" ? candidate.seqNumber : 0,
+        task: typeof candidate.task === "string" ? candidate.task : "",
+        estimateMinutes: sanitizeEstimate(candidate),
+        uncertainty: sanitizeUncertainty(candidate.uncertainty),
+        capabilityId:
+          typeof candidate.capabilityId === "string"
+            ? candidate.capabilityId
+            : "",
+        predecessorIds: Array.isArray(candidate.predecessorIds)
+          ? candidate.predecessorIds.filter((id): id is string => typeof id === "string")
+          : null,
+      } satisfies TemplateTask;
+      if (fixes) {
+        reportTaskFixes(candidate, task, subject, fixes);
+      }
+      return task;
+    })
+    .filter((task): task is TemplateTask => task !== null)
+    .sort((a, b) => a.seqNumber - b.seqNumber);
+
+  return normalizeSequence(sanitized);
+}
+
+export function createDefaultTemplates(): WorkflowTemplate[] {
+  return TEMPLATE_DEFINITIONS.map(definition => ({ ...definition, tasks: [] }));
+}
+
+/** Scheduling for templates saved before it existed: the built-in default, else normal priority. */
+export function getDefaultScheduling(templateKey: TemplateKey): TemplateScheduling {
+  const definition = TEMPLATE_DEFINITIONS.find(candidate => candidate.key === templateKey);
+  return {
+    priority: definition?.priority ?? 0,
+    preempts: definition?.preempts ?? false,
+    contextSwitchMinutes: definition?.contextSwitchMinutes ?? 15,
+  };
+}
+
+function sanitizeScheduling(
+  candidate: Partial<Record<keyof TemplateScheduling, unknown>>,
+  templateKey: TemplateKey,
+  subject = "",
+  fixes?: LoadFix[]
+): TemplateScheduling {
+  const defaults = getDefaultScheduling(templateKey);
+  const { priority, preempts, contextSwitchMinutes } = candidate;
+  const isNumber = (value: unknown) => typeof value === "number" && Number.isFinite(value);
+  if (priority !== undefined && !isNumber(priority)) {
+    fixes?.push({
+      action: "defaulted",
+      subject,
+      message: `Priority ${JSON.stringify(priority)} is not a number; set to ${defaults.priority}.`,
+    });
+  }
+  if (preempts !== undefined && typeof preempts !== "boolean") {
+    fixes?.push({
+      action: "defaulted",
+      subject,
+      message: `Preempts ${JSON.stringify(preempts)} is not true or false; set to ${defaults.preempts}.`,
+    });
+  }
+  if (contextSwitchMinutes !== undefined && !isNumber(contextSwitchMinutes)) {
+    fixes?.push({
+      action: "defaulted",
+      subject,
+      message: `Context switch ${JSON.stringify(contextSwitchMinutes)} is not a number of minutes; set to ${
+        defaults.contextSwitchMinutes
+      }.`,
+    });
+  } else if (isNumber(contextSwitchMinutes) && (contextSwitchMinutes as number) < 0) {
+    fixes?.push({ action: "clamped", subject, message: `Context switch ${contextSwitchMinutes} minutes raised to 0.` });
+  }
+  return {
+    priority:
+      typeof candidate.priority === "number" && Number.isFinite(candidate.priority)
+        ? Math.round(candidate.priority)
+        : defaults.priority,
+    preempts: typeof candidate.preempts === "boolean" ? candidate.preempts : defaults.preempts,
+    contextSwitchMinutes:
+      typeof candidate.contextSwitchMinutes === "number" &&
+      Number.isFinite(candidate.contextSwitchMinutes)
+        ? Math.max(0, Math.round(candidate.contextSwitchMinutes))
+        : defaults.contextSwitchMinutes,
+  };
+}
+
+export function createTemplateKey(title: string, existing: WorkflowTemplate[]): TemplateKey {
+  const base =
+    title
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "template";
+  const taken = new Set(existing.map(template => template.key));
+  let key = base;
+  for (let suffix = 2; taken.has(key); suffix += 1) {
+    key = `${base}-${suffix}`;
+  }
+  return key;
+}
+
+/**
+ * Accepts both the current list format (`[{ key, title, tasks }]`) and the
+ * older object keyed by template, which only ever held the three defaults.
+ * Pass `fixes` to collect every value that had to be repaired.
+ */
+export function sanitizeTemplates(input: unknown, fixes?: LoadFix[]): WorkflowTemplate[] {
+  if (Array.isArray(input)) {
+    const templates: WorkflowTemplate[] = [];
+    input.forEach((item, index) => {
+      if (!item || typeof item !== "object") {
+        fixes?.push({ action: "dropped", subject: `Template ${index + 1}`, message: "The entry is not a template." });
+        return;
+      }
+
+      const candidate = item as Partial<Record<keyof WorkflowTemplate, unknown>>;
+      const hasTitle = typeof candidate.title === "string" && candidate.title.trim();
+      const title = hasTitle ? (candidate.title as string) : "Untitled Template";
+      const subject = hasTitle ? title.trim() : `Template ${index + 1}`;
+      if (!hasTitle) {
+        fixes?.push({ action: "defaulted", subject, message: `No title; named "${title}".` });
+      }
+      const key =
+        typeof candidate.key === "string" &&
+        candidate.key.trim() &&
+        !templates.some(template => template.key === candidate.key)
+          ? candidate.key
+          : createTemplateKey(title, templates);
+      if (key !== candidate.key) {
+        fixes?.push({
+          action: "regenerated",
+          subject,
+          message:
+            typeof candidate.key === "string" && candidate.key.trim()
+              ? `Key "${candidate.key}" is already used; changed to "${key}".`
+              : `No key; generated "${key}".`,
+        });
+      }
+      templates.push({
+        key,
+        title,
+        ...sanitizeScheduling(candidate, key, subject, fixes),
+        tasks: sanitizeTasks(candidate.tasks, subject, fixes),
+      });
+    });
+    return templates;
+  }
+
+  const source =
+    input && typeof input === "object" ? (input as Record<string, unknown>) : {};
+  return TEMPLATE_DEFINITIONS.map(definition => ({
+    ...definition,
+    tasks: sanitizeTasks(source[definition.key], definition.title, fixes),
+  }));
+}
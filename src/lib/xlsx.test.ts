@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { buildXlsx } from "@/lib/xlsx";
+
+/** Reads the stored (uncompressed) entries of a ZIP archive by walking its local headers. */
+function readEntries(zip: Uint8Array) {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, string>();
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const name = decoder.decode(zip.subarray(offset + 30, offset + 30 + nameLength));
+    const start = offset + 30 + nameLength;
+    entries.set(name, decoder.decode(zip.subarray(start, start + size)));
+    offset = start + size;
+  }
+  return entries;
+}
+
+describe("buildXlsx", () => {
+  it("packs a workbook with one worksheet per sheet", () => {
+    const entries = readEntries(buildXlsx([{ name: "Staff", rows: [["Code"]] }, { name: "Tasks", rows: [] }]));
+
+    expect([...entries.keys()]).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/worksheets/sheet1.xml",
+      "xl/worksheets/sheet2.xml",
+    ]);
+    expect(entries.get("xl/workbook.xml")).toContain(
+      '<sheets><sheet name="Staff" sheetId="1" r:id="rId1"/><sheet name="Tasks" sheetId="2" r:id="rId2"/></sheets>'
+    );
+  });
+
+  it("writes numbers as values, text inline and skips empty cells", () => {
+    const entries = readEntries(buildXlsx([{ name: "Sheet", rows: [["A & <B>", 42, "", null, 7]] }]));
+
+    expect(entries.get("xl/worksheets/sheet1.xml")).toContain(
+      '<row r="1"><c r="A1" t="inlineStr"><is><t xml:space="preserve">A &amp; &lt;B&gt;</t></is></c>' +
+        '<c r="B1"><v>42</v></c><c r="E1"><v>7</v></c></row>'
+    );
+  });
+
+  it("makes sheet names valid and unique", () => {
+    const workbook = readEntries(
+      buildXlsx([
+        { name: "Bug fix: a/b?", rows: [] },
+        { name: "bug fix  a b", rows: [] },
+        { name: "", rows: [] },
+        { name: "A very long template title that Excel would refuse", rows: [] },
+      ])
+    ).get("xl/workbook.xml");
+
+    expect([...(workbook ?? "").matchAll(/name="([^"]*)"/g)].map(match => match[1])).toEqual([
+      "Bug fix  a b",
+      "bug fix  a b 2",
+      "Sheet3",
+      "A very long template title that",
+    ]);
+  });
+});